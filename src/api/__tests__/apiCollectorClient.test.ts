@@ -1,13 +1,14 @@
-import { describe, it, expect, beforeEach, afterEach, mock } from 'bun:test';
-import axios, { AxiosHeaders } from 'axios';
+import { describe, it, expect, beforeAll, beforeEach, afterEach, mock } from 'bun:test';
+import axios, { AxiosError, AxiosHeaders } from 'axios';
 import { z } from 'zod';
-import ApiCollectorClient from '../apiCollectorClient';
-import { InvalidAPIResponseError } from '../../errors';
+import ApiCollectorClient, { type ApiCollectorClientOpts } from '../apiCollectorClient';
+import { ApiRequestError, InvalidAPIResponseError, NotFoundError, SchemaValidationError } from '../../errors';
+import { LoggerFactory } from '../../logging/logger';
 
 // Concrete implementation for testing
 class TestApiClient extends ApiCollectorClient {
-  constructor(baseUrl: string, headers: AxiosHeaders = new AxiosHeaders(), maxRetries?: number) {
-    super(baseUrl, headers, maxRetries);
+  constructor(baseUrl: string, headers: AxiosHeaders = new AxiosHeaders(), opts?: ApiCollectorClientOpts | number) {
+    super(baseUrl, headers, opts);
   }
 
   static override async Create(baseUrl: string): Promise<TestApiClient> {
@@ -31,12 +32,31 @@ class TestApiClient extends ApiCollectorClient {
   ) {
     return this.requestAndParse(method, endpoint, schema, opts);
   }
+
+  public async testRequestAndParseEach<S extends z.ZodTypeAny>(
+    method: "GET" | "POST" | "PUT" | "DELETE",
+    endpoint: string,
+    schema: S,
+    validation?: any
+  ) {
+    return this.requestAndParseEach(method, endpoint, schema, validation);
+  }
+
+  public testRequestStream(method: string, endpoint: string, streamOpts?: any) {
+    return this.requestStream(method as any, endpoint, streamOpts);
+  }
 }
 
 describe('ApiCollectorClient', () => {
   let client: TestApiClient;
   let mockAxiosInstance: any;
 
+  beforeAll(() => {
+    if (!LoggerFactory.HasLogger()) {
+      LoggerFactory.CreateLogger('error').mute();
+    }
+  });
+
   beforeEach(() => {
     // Create mock axios instance
     mockAxiosInstance = {
@@ -86,6 +106,16 @@ describe('ApiCollectorClient', () => {
     it('should accept custom maxRetries', () => {
       const customClient = new TestApiClient('https://api.example.com', new AxiosHeaders(), 5);
       expect(customClient).toBeDefined();
+      expect(customClient.retryPolicy.opts.maxRetries).toBe(5);
+    });
+
+    it('should accept retry policy options', () => {
+      const customClient = new TestApiClient('https://api.example.com', new AxiosHeaders(), {
+        retry: { maxRetries: 2, baseDelayMs: 10 }
+      });
+
+      expect(customClient.retryPolicy.opts.maxRetries).toBe(2);
+      expect(customClient.retryPolicy.opts.baseDelayMs).toBe(10);
     });
 
     it('should initialize request interceptor', () => {
@@ -211,6 +241,60 @@ describe('ApiCollectorClient', () => {
     });
   });
 
+  describe('Retry behaviour', () => {
+    const makeError = (status: number) => {
+      const config: any = { url: '/nodes', headers: new AxiosHeaders() };
+      return new AxiosError('failed', undefined, config, {}, {
+        status, statusText: '', headers: {}, data: {}, config
+      });
+    };
+
+    const retryOpts = { retry: { maxRetries: 3, baseDelayMs: 1, jitter: 'none' as const } };
+
+    it('should retry transient failures until success', async () => {
+      const retryClient = new TestApiClient('https://api.example.com', new AxiosHeaders(), retryOpts);
+
+      let callCount = 0;
+      mockAxiosInstance.request.mockImplementation(() => {
+        callCount++;
+        return callCount < 3
+          ? Promise.reject(makeError(502))
+          : Promise.resolve({ status: 200, data: { ok: true } });
+      });
+
+      const response = await retryClient.testRequest('GET', 'nodes');
+
+      expect(response.data).toEqual({ ok: true });
+      expect(mockAxiosInstance.request.mock.calls.length).toBe(3);
+    });
+
+    it('should give up after maxRetries', async () => {
+      const retryClient = new TestApiClient('https://api.example.com', new AxiosHeaders(), retryOpts);
+      mockAxiosInstance.request.mockImplementation(() => Promise.reject(makeError(503)));
+
+      await expect(retryClient.testRequest('GET', 'nodes')).rejects.toMatchObject({
+        route: '/nodes',
+        status: 503,
+        attempts: 4,
+        retryable: true
+      });
+      expect(mockAxiosInstance.request.mock.calls.length).toBe(4);
+    });
+
+    it('should not retry non-retryable statuses', async () => {
+      const retryClient = new TestApiClient('https://api.example.com', new AxiosHeaders(), retryOpts);
+      mockAxiosInstance.request.mockImplementation(() => Promise.reject(makeError(404)));
+
+      const error = await retryClient.testRequest('GET', 'nodes').catch(e => e);
+
+      expect(error).toBeInstanceOf(NotFoundError);
+      expect(error).toBeInstanceOf(ApiRequestError);
+      expect(error.retryable).toBe(false);
+      expect(error.cause).toBeInstanceOf(AxiosError);
+      expect(mockAxiosInstance.request.mock.calls.length).toBe(1);
+    });
+  });
+
   describe('requestAndParse method', () => {
     const UserSchema = z.object({
       id: z.number(),
@@ -252,6 +336,20 @@ describe('ApiCollectorClient', () => {
       }).toThrow(); // ZodError
     });
 
+    it('should report the offending paths in a SchemaValidationError', async () => {
+      mockAxiosInstance.request.mockImplementation(() => Promise.resolve({
+        status: 200,
+        data: { id: '1', name: 'John Doe', email: 'john@example.com' }
+      }));
+
+      const error = await client.testRequestAndParse('GET', 'users/1', UserSchema).catch(e => e);
+
+      expect(error).toBeInstanceOf(SchemaValidationError);
+      expect(error.route).toBe('users/1');
+      expect(error.paths).toEqual(['id']);
+      expect(error.issues[0].code).toBe('invalid_type');
+    });
+
     it('should work with complex schemas', async () => {
       const ComplexSchema = z.object({
         users: z.array(UserSchema),
@@ -290,6 +388,67 @@ describe('ApiCollectorClient', () => {
     });
   });
 
+  describe('requestAndParseEach method', () => {
+    const NodeSchema = z.object({ node: z.string(), cpus: z.number() });
+    const body = {
+      data: [
+        { node: 'pve1', cpus: 8 },
+        { node: 'pve2', cpus: 'many' },
+        { node: 'pve3', cpus: 16 },
+        { cpus: 4 }
+      ]
+    };
+
+    beforeEach(() => {
+      mockAxiosInstance.request.mockImplementation(() => Promise.resolve({ status: 200, data: body }));
+    });
+
+    it('should keep valid records and report invalid ones', async () => {
+      const report = await client.testRequestAndParseEach('GET', 'nodes', NodeSchema, {
+        getItems: (data: any) => data.data,
+        sampleLength: 20
+      });
+
+      expect(report.valid.map(n => n.node)).toEqual(['pve1', 'pve3']);
+      expect(report.total).toBe(4);
+      expect(report.invalidRatio).toBe(0.5);
+      expect(report.failures.map(f => [f.index, f.paths])).toEqual([[1, ['cpus']], [3, ['node']]]);
+      expect(report.failures[0].sample).toBe('{"node":"pve2","cpus…');
+    });
+
+    it('should fail when the invalid share exceeds the threshold', async () => {
+      const error = await client.testRequestAndParseEach('GET', 'nodes', NodeSchema, {
+        getItems: (data: any) => data.data,
+        maxInvalidRatio: 0.05
+      }).catch(e => e);
+
+      expect(error).toBeInstanceOf(SchemaValidationError);
+      expect(error.paths).toEqual(['1.cpus', '3.node']);
+      expect(error.message).toContain('2 of 4 records invalid');
+    });
+
+    it('should reject non-array payloads', async () => {
+      await expect(client.testRequestAndParseEach('GET', 'nodes', NodeSchema))
+        .rejects.toBeInstanceOf(SchemaValidationError);
+    });
+  });
+
+  describe('requestStream method', () => {
+    it('should request a stream and yield parsed items', async () => {
+      mockAxiosInstance.request.mockImplementation(() => Promise.resolve({
+        status: 200,
+        headers: { 'content-type': 'application/x-ndjson' },
+        data: Buffer.from('{"id":1}\n{"id":2}\n')
+      }));
+
+      const items: any[] = [];
+      for await (const item of client.testRequestStream('GET', 'events')) items.push(item);
+
+      expect(items).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(mockAxiosInstance.request.mock.calls.at(-1)[0].responseType).toBe('stream');
+    });
+  });
+
   describe('Request interceptor logging', () => {
     it('should log GET requests with emoji', async () => {
       mockAxiosInstance.request.mockImplementation(() => Promise.resolve({ status: 200, data: {} }));
@@ -0,0 +1,207 @@
+import { describe, it, expect, beforeAll, mock } from 'bun:test';
+import axios, { Axios, AxiosError, AxiosHeaders } from 'axios';
+import ApiCollectorClient, { type ApiCollectorClientOpts } from '../apiCollectorClient';
+import {
+  ApiKeyAuthProvider,
+  BasicAuthProvider,
+  OAuth2ClientCredentialsProvider,
+  SessionAuthProvider
+} from '../auth';
+import { LoggerFactory } from '../../logging/logger';
+
+const makeHttp = (impl: (config: any) => any) => {
+  const request = mock(async (config: any) => impl(config));
+  return {
+    request,
+    post: mock(async (url: string, data: any, config: any = {}) => request({ ...config, method: 'POST', url, data }))
+  } as any;
+};
+
+class TestApiClient extends ApiCollectorClient {
+  constructor(opts: ApiCollectorClientOpts) {
+    super('https://api.example.com', new AxiosHeaders(), opts);
+  }
+
+  async getAllData() {
+    return {};
+  }
+
+  public async testRequest(method: string, endpoint: string, opts?: any) {
+    return this.request(method as any, endpoint, opts);
+  }
+}
+
+describe('Auth providers', () => {
+  beforeAll(() => {
+    if (!LoggerFactory.HasLogger()) {
+      LoggerFactory.CreateLogger('error').mute();
+    }
+  });
+
+  describe('BasicAuthProvider', () => {
+    it('should set a basic Authorization header', async () => {
+      const config = await new BasicAuthProvider('user', 'pass').apply({ headers: { 'X-Other': '1' } });
+
+      expect(config.headers!['Authorization']).toBe(`Basic ${Buffer.from('user:pass').toString('base64')}`);
+      expect(config.headers!['X-Other']).toBe('1');
+    });
+  });
+
+  describe('ApiKeyAuthProvider', () => {
+    it('should send the key in a header by default', async () => {
+      const config = await new ApiKeyAuthProvider({ key: 'abc' }).apply({});
+      expect(config.headers!['X-API-Key']).toBe('abc');
+    });
+
+    it('should send the key as a query parameter', async () => {
+      const config = await new ApiKeyAuthProvider({ key: 'abc', in: 'query', name: 'token' })
+        .apply({ params: { page: 2 } });
+
+      expect(config.params).toEqual({ page: 2, token: 'abc' });
+    });
+  });
+
+  describe('OAuth2ClientCredentialsProvider', () => {
+    const opts = {
+      tokenUrl: 'https://login.example.com/token',
+      clientId: 'id',
+      clientSecret: 'secret',
+      scope: 'read'
+    };
+
+    // the API client's instance must not be used for the token endpoint
+    const apiHttp = makeHttp(() => { throw new Error('token request sent through the API client'); });
+
+    it('should fetch and cache a token', async () => {
+      const http = makeHttp(() => ({ data: { access_token: 'tok', expires_in: 3600 } }));
+      const provider = new OAuth2ClientCredentialsProvider({ ...opts, http });
+
+      const [a, b] = await Promise.all([provider.apply({}, apiHttp), provider.apply({}, apiHttp)]);
+
+      expect(a.headers!['Authorization']).toBe('Bearer tok');
+      expect(b.headers!['Authorization']).toBe('Bearer tok');
+      expect(http.request.mock.calls.length).toBe(1);
+
+      const tokenCall = http.request.mock.calls[0][0];
+      expect(tokenCall.url).toBe(opts.tokenUrl);
+      expect(tokenCall.auth).toEqual({ username: 'id', password: 'secret' });
+      expect(tokenCall.data.get('grant_type')).toBe('client_credentials');
+      expect(tokenCall.data.get('scope')).toBe('read');
+      expect(tokenCall.headers['Content-Type']).toBe('application/x-www-form-urlencoded');
+      expect(apiHttp.request).not.toHaveBeenCalled();
+    });
+
+    it('should request tokens through its own instance, bypassing fixtures', async () => {
+      const fixtures = mock(async () => { throw new Error('fixture adapter used'); });
+      const tokenAdapter = mock(async (config: any) => ({
+        status: 200, statusText: 'OK', headers: {}, config, request: {},
+        data: { access_token: 'tok', expires_in: 3600 }
+      }));
+      const http = new Axios({ ...axios.defaults, adapter: tokenAdapter }) as any;
+      const provider = new OAuth2ClientCredentialsProvider({ ...opts, http });
+      axios.create = mock((config: any) => new Axios({ ...axios.defaults, ...config, adapter: fixtures })) as any;
+
+      const client = new TestApiClient({ auth: provider, retry: { maxRetries: 0 } });
+      await expect(client.testRequest('GET', 'vms')).rejects.toThrow('fixture adapter used');
+
+      expect(tokenAdapter).toHaveBeenCalledTimes(1);
+      expect(fixtures.mock.calls[0][0].headers['Authorization']).toBe('Bearer tok');
+    });
+
+    it('should refresh tokens that are about to expire', async () => {
+      let issued = 0;
+      const http = makeHttp(() => ({ data: { access_token: `tok${++issued}`, expires_in: 30 } }));
+      const provider = new OAuth2ClientCredentialsProvider({ ...opts, http });
+
+      await provider.apply({}, apiHttp);
+      const config = await provider.apply({}, apiHttp);
+
+      expect(config.headers!['Authorization']).toBe('Bearer tok2');
+    });
+
+    it('should revoke the token on logout when configured', async () => {
+      const http = makeHttp(() => ({ data: { access_token: 'tok', expires_in: 3600 } }));
+      const provider = new OAuth2ClientCredentialsProvider({ ...opts, http, revokeUrl: 'https://login.example.com/revoke' });
+
+      await provider.apply({}, apiHttp);
+      await provider.logout(apiHttp);
+
+      const revokeCall = http.request.mock.calls.at(-1)[0];
+      expect(revokeCall.url).toBe('https://login.example.com/revoke');
+      expect(revokeCall.data.get('token')).toBe('tok');
+    });
+  });
+
+  describe('SessionAuthProvider', () => {
+    it('should log in once and attach cookies from Set-Cookie', async () => {
+      const http = makeHttp(() => ({ data: {}, headers: { 'set-cookie': ['sid=abc123; Path=/; HttpOnly'] } }));
+      const provider = new SessionAuthProvider({ loginPath: '/login', loginData: { user: 'a' } });
+
+      await provider.apply({}, http);
+      const config = await provider.apply({}, http);
+
+      expect(config.headers!['Cookie']).toBe('sid=abc123');
+      expect(http.request.mock.calls.length).toBe(1);
+    });
+
+    it('should use Proxmox tickets and CSRF tokens for writes', async () => {
+      const http = makeHttp(() => ({ data: { data: { ticket: 'PVE:t', CSRFPreventionToken: 'csrf' } } }));
+      const provider = SessionAuthProvider.Proxmox('root', 'pw');
+
+      const read = await provider.apply({ method: 'GET' }, http);
+      const write = await provider.apply({ method: 'POST' }, http);
+
+      expect(http.request.mock.calls[0][0].data).toEqual({ username: 'root@pam', password: 'pw' });
+      expect(read.headers!['Cookie']).toBe('PVEAuthCookie=PVE:t');
+      expect(read.headers!['CSRFPreventionToken']).toBeUndefined();
+      expect(write.headers!['CSRFPreventionToken']).toBe('csrf');
+    });
+
+    it('should log out when a logout route is configured', async () => {
+      const http = makeHttp(() => ({ data: {}, headers: { 'set-cookie': 'sid=1' } }));
+      const provider = new SessionAuthProvider({ loginPath: '/login', loginData: {}, logoutPath: '/logout' });
+
+      await provider.apply({}, http);
+      await provider.logout(http);
+
+      const logoutCall = http.request.mock.calls.at(-1)[0];
+      expect(logoutCall.url).toBe('/logout');
+      expect(logoutCall.headers['Cookie']).toBe('sid=1');
+    });
+  });
+
+  describe('ApiCollectorClient integration', () => {
+    it('should log in again and replay once on 401', async () => {
+      let logins = 0;
+      const mockAxiosInstance: any = {
+        request: mock(async (config: any) => {
+          if (config.url === '/login') {
+            logins++;
+            return { status: 200, data: {}, headers: { 'set-cookie': [`sid=${logins}`] } };
+          }
+
+          if (config.headers['Cookie'] === 'sid=1') {
+            throw new AxiosError('Unauthorized', undefined, config, {}, {
+              status: 401, statusText: '', headers: {}, data: {}, config
+            });
+          }
+
+          return { status: 200, data: { ok: true } };
+        }),
+        interceptors: { request: { use: mock(() => {}) }, response: { use: mock(() => {}) } }
+      };
+
+      axios.create = mock(() => mockAxiosInstance) as any;
+
+      const client = new TestApiClient({
+        auth: new SessionAuthProvider({ loginPath: '/login', loginData: {} }),
+        retry: { maxRetries: 0 }
+      });
+
+      const response = await client.testRequest('GET', 'nodes');
+
+      expect(response.data).toEqual({ ok: true });
+      expect(logins).toBe(2);
+    });
+  });
+});
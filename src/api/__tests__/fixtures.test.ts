@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeAll, afterAll, mock } from 'bun:test';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { text } from 'stream/consumers';
+import axios, { Axios, AxiosHeaders, type AxiosAdapter } from 'axios';
+import ApiCollectorClient, { type ApiCollectorClientOpts } from '../apiCollectorClient';
+import { ApiKeyAuthProvider, SessionAuthProvider } from '../auth';
+import FixtureStore, { REDACTED } from '../fixtures';
+import { LoggerFactory } from '../../logging/logger';
+
+class TestApiClient extends ApiCollectorClient {
+  constructor(opts: ApiCollectorClientOpts) {
+    super('https://pve.example.com/api2/json', new AxiosHeaders({ Authorization: 'Bearer secret' }), opts);
+  }
+
+  async getAllData() {
+    return {};
+  }
+
+  public async testRequest(method: string, endpoint: string, opts?: any) {
+    return this.request(method as any, endpoint, opts);
+  }
+}
+
+// other suites replace axios.create with a mock, so build real instances directly
+const realCreate = (config: any) => new Axios({ ...axios.defaults, ...config, headers: config.headers }) as any;
+
+const fakeNetwork: AxiosAdapter = async (config) => {
+  const url = config.url ?? '';
+  const respond = (status: number, data: any, headers: Record<string, string> = {}) => ({
+    status,
+    statusText: status === 200 ? 'OK' : 'Not Found',
+    headers: new AxiosHeaders({ 'content-type': 'application/json', ...headers }),
+    data: JSON.stringify(data),
+    config,
+    request: {}
+  });
+
+  if (url.endsWith('/access/ticket')) {
+    return respond(200, { data: { ticket: 'PVE:root@pam:SECRET', CSRFPreventionToken: 'csrf', username: 'root@pam' } });
+  }
+
+  if (url.includes('/issues')) {
+    return respond(
+      200,
+      { data: [{ key: 'PROJ-1', token: 'build-42' }], next: 'https://pve.example.com/api2/json/issues?page=2&access_token=next-secret' },
+      { link: '<https://cdn.example.com/export.json?X-Amz-Signature=signed-secret&page=2>; rel="next"' }
+    );
+  }
+
+  if (url.endsWith('/nodes')) {
+    return respond(200, { data: [{ node: 'pve1', status: 'online' }] }, { 'set-cookie': 'x=1' });
+  }
+
+  const response = respond(404, { errors: 'not found' });
+  throw Object.assign(new Error('Request failed with status code 404'), {
+    isAxiosError: true, config, response
+  });
+};
+
+describe('FixtureStore', () => {
+  let tmpDir: string;
+
+  beforeAll(() => {
+    if (!LoggerFactory.HasLogger()) {
+      LoggerFactory.CreateLogger('error').mute();
+    }
+
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fixtures-test-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const makeClient = (mode: 'record' | 'replay', password: string) => {
+    const store = new FixtureStore({ mode, directory: tmpDir, redactFields: ['username'] });
+    axios.create = mock((config: any) => realCreate({ ...config, adapter: store.adapter(fakeNetwork) })) as any;
+
+    return new TestApiClient({
+      auth: SessionAuthProvider.Proxmox('root', password),
+      retry: { maxRetries: 0 }
+    });
+  };
+
+  it('should record exchanges with credentials redacted', async () => {
+    const client = makeClient('record', 'hunter2');
+
+    const response = await client.testRequest('GET', 'nodes');
+    expect(response.data).toEqual({ data: [{ node: 'pve1', status: 'online' }] });
+
+    await expect(client.testRequest('GET', 'missing')).rejects.toThrow('404');
+
+    const files = fs.readdirSync(tmpDir);
+    expect(files).toHaveLength(3);
+
+    const contents = files.map(f => fs.readFileSync(path.join(tmpDir, f), 'utf-8')).join('\n');
+    expect(contents).not.toContain('hunter2');
+    expect(contents).not.toContain('SECRET');
+    expect(contents).not.toContain('Bearer secret');
+    expect(contents).not.toContain('root@pam');
+    expect(contents).toContain(REDACTED);
+  });
+
+  it('should replay recorded exchanges regardless of credentials', async () => {
+    const client = makeClient('replay', 'a-different-password');
+
+    const response = await client.testRequest('GET', 'nodes');
+    expect(response.data).toEqual({ data: [{ node: 'pve1', status: 'online' }] });
+
+    await expect(client.testRequest('GET', 'missing')).rejects.toMatchObject({
+      name: 'NotFoundError',
+      status: 404
+    });
+  });
+
+  it('should fail on unmatched requests in replay mode', async () => {
+    const client = makeClient('replay', 'hunter2');
+
+    await expect(client.testRequest('GET', 'storage')).rejects.toThrow(
+      'No fixture recorded for GET https://pve.example.com/api2/json/storage'
+    );
+  });
+
+  it('should redact the credentials of the auth provider and common API key fields', async () => {
+    const directory = path.join(tmpDir, 'api-keys');
+    const record = async (auth: ApiKeyAuthProvider, params?: Record<string, string>) => {
+      const store = new FixtureStore({ mode: 'record', directory }, auth);
+      axios.create = mock((config: any) => realCreate({ ...config, adapter: store.adapter(fakeNetwork) })) as any;
+      await new TestApiClient({ auth, retry: { maxRetries: 0 } }).testRequest('GET', 'nodes', { params });
+    };
+
+    await record(new ApiKeyAuthProvider({ key: 'query-key', in: 'query', name: 'sig' }));
+    await record(new ApiKeyAuthProvider({ key: 'header-key', name: 'X-Tenant-Token' }), { api_key: 'default-key' });
+
+    const contents = fs.readdirSync(directory).map(f => fs.readFileSync(path.join(directory, f), 'utf-8')).join('\n');
+    expect(contents).not.toContain('query-key');
+    expect(contents).not.toContain('header-key');
+    expect(contents).not.toContain('default-key');
+  });
+
+  it('should redact credentials in URLs but keep ordinary key and token fields', async () => {
+    const directory = path.join(tmpDir, 'urls');
+    const store = new FixtureStore({ mode: 'record', directory });
+    axios.create = mock((config: any) => realCreate({ ...config, adapter: store.adapter(fakeNetwork) })) as any;
+
+    await new TestApiClient({ retry: { maxRetries: 0 } }).testRequest('GET', 'issues?api_key=url-secret&project=PROJ');
+
+    const [file] = fs.readdirSync(directory);
+    const fixture = JSON.parse(fs.readFileSync(path.join(directory, file), 'utf-8'));
+    expect(fixture.request.url).toBe(`https://pve.example.com/api2/json/issues?api_key=${REDACTED}&project=PROJ`);
+    expect(fixture.response.data.data).toEqual([{ key: 'PROJ-1', token: 'build-42' }]);
+    expect(fixture.response.data.next).toBe(`https://pve.example.com/api2/json/issues?page=2&access_token=${REDACTED}`);
+    expect(fixture.response.headers.link).toContain(`X-Amz-Signature=${REDACTED}&page=2`);
+  });
+
+  it('should record and replay streamed responses', async () => {
+    const body = '{"id":1}\n{"id":2}\n';
+    const server = http.createServer((_req, res) => {
+      res.writeHead(200, { 'content-type': 'application/x-ndjson' });
+      res.end(body);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const url = `http://127.0.0.1:${(server.address() as any).port}/events`;
+    const directory = path.join(tmpDir, 'streams');
+
+    try {
+      const recorder = realCreate({ adapter: new FixtureStore({ mode: 'record', directory }).adapter() });
+      const recorded = await recorder.get(url, { responseType: 'stream' });
+      expect(await text(recorded.data)).toBe(body);
+    } finally {
+      server.close();
+    }
+
+    const replayer = realCreate({ adapter: new FixtureStore({ mode: 'replay', directory }).adapter() });
+    const replayed = await replayer.get(url, { responseType: 'stream' });
+    expect(await text(replayed.data)).toBe(body);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeAll, mock } from 'bun:test';
+import { z } from 'zod';
+import { paginate, parseLinkHeader, type PageFetcher } from '../pagination';
+import { LoggerFactory } from '../../logging/logger';
+
+const collect = async <T>(iterator: AsyncGenerator<T>): Promise<T[]> => {
+  const items: T[] = [];
+  for await (const item of iterator) items.push(item);
+  return items;
+};
+
+const range = (start: number, count: number) =>
+  Array.from({ length: count }, (_, i) => ({ id: start + i }));
+
+describe('pagination', () => {
+  beforeAll(() => {
+    if (!LoggerFactory.HasLogger()) {
+      LoggerFactory.CreateLogger('error').mute();
+    }
+  });
+
+  describe('parseLinkHeader', () => {
+    it('should parse multiple relations', () => {
+      const links = parseLinkHeader(
+        '<https://api.test/items?page=2>; rel="next", <https://api.test/items?page=5>; rel="last"'
+      );
+
+      expect(links).toEqual({
+        next: 'https://api.test/items?page=2',
+        last: 'https://api.test/items?page=5'
+      });
+    });
+
+    it('should return an empty map for missing headers', () => {
+      expect(parseLinkHeader(undefined)).toEqual({});
+      expect(parseLinkHeader('')).toEqual({});
+    });
+  });
+
+  describe('offset strategy', () => {
+    it('should request pages until a short page is returned', async () => {
+      const fetchPage = mock<PageFetcher>(async (config) => {
+        const { offset } = config.params;
+        return { data: range(offset, offset < 4 ? 2 : 1), headers: {} } as any;
+      });
+
+      const items = await collect(paginate(fetchPage, { type: 'offset', limit: 2 }));
+
+      expect(items.map(i => i.id)).toEqual([0, 1, 2, 3, 4]);
+      expect(fetchPage.mock.calls.map(([c]) => c.params)).toEqual([
+        { offset: 0, limit: 2 },
+        { offset: 2, limit: 2 },
+        { offset: 4, limit: 2 }
+      ]);
+    });
+  });
+
+  describe('page strategy', () => {
+    it('should stop on an empty page and keep caller params', async () => {
+      const fetchPage = mock<PageFetcher>(async (config) => ({
+        data: { results: config.params.page < 3 ? range(config.params.page * 10, 3) : [] },
+        headers: {}
+      }) as any);
+
+      const all = await collect(paginate(fetchPage, { type: 'page' }, {
+        getItems: (data) => data.results,
+        request: { params: { state: 'running' } }
+      }));
+
+      expect(all).toHaveLength(6);
+      expect(fetchPage.mock.calls.at(-1)![0].params).toEqual({ state: 'running', page: 3 });
+    });
+  });
+
+  describe('cursor strategy', () => {
+    it('should follow cursors until none is returned', async () => {
+      const pages: Record<string, any> = {
+        start: { items: [1, 2], next: 'abc' },
+        abc: { items: [3], next: 'def' },
+        def: { items: [4], next: null }
+      };
+
+      const fetchPage = mock<PageFetcher>(async (config) => ({
+        data: pages[config.params?.next_token ?? 'start'],
+        headers: {}
+      }) as any);
+
+      const items = await collect(paginate(fetchPage, {
+        type: 'cursor',
+        cursorParam: 'next_token',
+        getNextCursor: (data) => data.next
+      }, { getItems: (data) => data.items }));
+
+      expect(items).toEqual([1, 2, 3, 4]);
+      expect(fetchPage.mock.calls.length).toBe(3);
+    });
+  });
+
+  describe('link strategy', () => {
+    it('should follow rel="next" links', async () => {
+      const fetchPage = mock<PageFetcher>(async (config) => {
+        const page = config.url ? Number(new URL(config.url).searchParams.get('page')) : 1;
+        const headers = page < 3
+          ? { link: `<https://api.test/items?page=${page + 1}>; rel="next"` }
+          : {};
+
+        return { data: range(page * 10, 2), headers } as any;
+      });
+
+      const items = await collect(paginate(fetchPage, { type: 'link' }));
+
+      expect(items.map(i => i.id)).toEqual([10, 11, 20, 21, 30, 31]);
+      expect(fetchPage.mock.calls[1][0].url).toBe('https://api.test/items?page=2');
+    });
+  });
+
+  describe('validation and safety caps', () => {
+    it('should validate each page with the schema', async () => {
+      const fetchPage = mock<PageFetcher>(async () => ({ data: [{ id: 'nope' }], headers: {} }) as any);
+
+      await expect(collect(paginate(fetchPage, { type: 'offset', limit: 10 }, {
+        schema: z.array(z.object({ id: z.number() }))
+      }))).rejects.toThrow();
+    });
+
+    it('should stop at maxPages', async () => {
+      const fetchPage = mock<PageFetcher>(async () => ({ data: range(0, 2), headers: {} }) as any);
+
+      const items = await collect(paginate(fetchPage, { type: 'offset', limit: 2 }, { maxPages: 3 }));
+
+      expect(items).toHaveLength(6);
+      expect(fetchPage.mock.calls.length).toBe(3);
+    });
+
+    it('should stop at maxItems', async () => {
+      const fetchPage = mock<PageFetcher>(async () => ({ data: range(0, 2), headers: {} }) as any);
+
+      const items = await collect(paginate(fetchPage, { type: 'offset', limit: 2 }, { maxItems: 3 }));
+
+      expect(items).toHaveLength(3);
+      expect(fetchPage.mock.calls.length).toBe(2);
+    });
+
+    it('should not request another page when maxItems falls on a page boundary', async () => {
+      const fetchPage = mock<PageFetcher>(async () => ({ data: range(0, 2), headers: {} }) as any);
+
+      const items = await collect(paginate(fetchPage, { type: 'offset', limit: 2 }, { maxItems: 4 }));
+
+      expect(items).toHaveLength(4);
+      expect(fetchPage.mock.calls.length).toBe(2);
+    });
+  });
+});
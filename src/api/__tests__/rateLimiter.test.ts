@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeAll } from 'bun:test';
+import RateLimiter from '../rateLimiter';
+import { LoggerFactory } from '../../logging/logger';
+import { sleep } from '../../utils/util';
+
+describe('RateLimiter', () => {
+  beforeAll(() => {
+    if (!LoggerFactory.HasLogger()) {
+      LoggerFactory.CreateLogger('error').mute();
+    }
+  });
+
+  it('should pass requests through when no limits are set', async () => {
+    const limiter = new RateLimiter();
+    const results = await Promise.all([1, 2, 3].map(n => limiter.schedule(async () => n)));
+
+    expect(results).toEqual([1, 2, 3]);
+  });
+
+  it('should cap the number of requests in flight', async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 2 });
+
+    let active = 0;
+    let peak = 0;
+
+    await Promise.all(Array.from({ length: 6 }, () => limiter.schedule(async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await sleep(5);
+      active--;
+    })));
+
+    expect(peak).toBe(2);
+    expect(limiter.inFlight).toBe(0);
+    expect(limiter.queued).toBe(0);
+  });
+
+  it('should release slots when requests fail', async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 1 });
+
+    await expect(limiter.schedule(async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    expect(await limiter.schedule(async () => 'ok')).toBe('ok');
+  });
+
+  it('should throttle to the configured rate', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 50, burst: 1 });
+
+    const start = Date.now();
+    await Promise.all(Array.from({ length: 4 }, () => limiter.schedule(async () => null)));
+
+    // first token is available immediately, the remaining three take ~20ms each
+    expect(Date.now() - start).toBeGreaterThanOrEqual(50);
+  });
+
+  it('should only take tokens once every limit allows a request', async () => {
+    // two per second, and three per minute of which the third must not be spent while waiting on the first limit
+    const limiter = new RateLimiter({ requestsPerSecond: 2, requestsPerMinute: 3 });
+
+    const start = Date.now();
+    await Promise.all(Array.from({ length: 3 }, () => limiter.schedule(async () => null)));
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(400);
+    expect(Date.now() - start).toBeLessThan(1500);
+  });
+
+  it('should pause when the server reports an exhausted quota', async () => {
+    const limiter = new RateLimiter();
+
+    await limiter.schedule(async () => ({
+      status: 200,
+      headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '0.05' }
+    }));
+
+    const start = Date.now();
+    await limiter.schedule(async () => null);
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(40);
+  });
+
+  it('should ignore rate limit headers when not adaptive', async () => {
+    const limiter = new RateLimiter({ adaptive: false });
+
+    await limiter.schedule(async () => ({
+      status: 429,
+      headers: { 'retry-after': '5' }
+    }));
+
+    const start = Date.now();
+    await limiter.schedule(async () => null);
+
+    expect(Date.now() - start).toBeLessThan(100);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll, mock } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import axios, { AxiosHeaders } from 'axios';
+import ApiCollectorClient, { type ApiCollectorClientOpts } from '../apiCollectorClient';
+import { FileCacheStore, ResponseCache } from '../cache';
+import { LoggerFactory } from '../../logging/logger';
+
+class TestApiClient extends ApiCollectorClient {
+  constructor(opts: ApiCollectorClientOpts) {
+    super('https://api.example.com', new AxiosHeaders(), opts);
+  }
+
+  async getAllData() {
+    return {};
+  }
+
+  public async testRequest(method: string, endpoint: string, opts?: any) {
+    return this.request(method as any, endpoint, opts);
+  }
+}
+
+describe('ResponseCache', () => {
+  let mockAxiosInstance: any;
+  let tmpDir: string;
+
+  beforeAll(() => {
+    if (!LoggerFactory.HasLogger()) {
+      LoggerFactory.CreateLogger('error').mute();
+    }
+
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cache-test-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    mockAxiosInstance = {
+      request: mock(async (config: any) => {
+        if (config.headers?.['If-None-Match'] === '"v1"') {
+          if (!config.validateStatus(304)) throw new Error('304 rejected');
+          return { status: 304, data: '', headers: {}, config };
+        }
+
+        return { status: 200, data: { nodes: [1, 2, 3] }, headers: { ETag: '"v1"' }, config };
+      }),
+      defaults: { baseURL: 'https://api.example.com' },
+      interceptors: { request: { use: mock(() => {}) }, response: { use: mock(() => {}) } }
+    };
+
+    axios.create = mock(() => mockAxiosInstance) as any;
+  });
+
+  it('should revalidate with If-None-Match and serve the cached body on 304', async () => {
+    const client = new TestApiClient({ cache: {} });
+
+    const first = await client.testRequest('GET', 'nodes');
+    const second = await client.testRequest('GET', 'nodes');
+
+    expect(first.data).toEqual({ nodes: [1, 2, 3] });
+    expect(second.status).toBe(200);
+    expect(second.data).toEqual({ nodes: [1, 2, 3] });
+    expect(mockAxiosInstance.request.mock.calls[1][0].headers['If-None-Match']).toBe('"v1"');
+    expect(client.responseCache!.stats).toEqual({ fresh: 0, revalidated: 1, misses: 1 });
+  });
+
+  it('should serve fresh entries without a request', async () => {
+    const client = new TestApiClient({ cache: { maxAgeMs: 60000 } });
+
+    await client.testRequest('GET', 'nodes');
+    await client.testRequest('GET', 'nodes');
+
+    expect(mockAxiosInstance.request.mock.calls.length).toBe(1);
+    expect(client.responseCache!.stats.fresh).toBe(1);
+  });
+
+  it('should key entries by query parameters', async () => {
+    const client = new TestApiClient({ cache: {} });
+
+    await client.testRequest('GET', 'nodes', { params: { page: 1 } });
+    await client.testRequest('GET', 'nodes', { params: { page: 2 } });
+
+    expect(client.responseCache!.stats.misses).toBe(2);
+  });
+
+  it('should bypass the cache per request and for non-GET methods', async () => {
+    const client = new TestApiClient({ cache: {} });
+
+    await client.testRequest('GET', 'nodes');
+    await client.testRequest('GET', 'nodes', { bypassCache: true });
+    await client.testRequest('POST', 'nodes');
+
+    expect(mockAxiosInstance.request.mock.calls[1][0].headers).toBeUndefined();
+    expect(mockAxiosInstance.request.mock.calls[1][0].bypassCache).toBeUndefined();
+    expect(client.responseCache!.stats).toEqual({ fresh: 0, revalidated: 0, misses: 1 });
+  });
+
+  it('should discard entries older than the TTL', async () => {
+    const cache = new ResponseCache({ ttlMs: 1000 });
+    await cache.store.set({
+      key: ResponseCache.KeyFor({ url: '/nodes' }),
+      etag: '"old"',
+      status: 200,
+      headers: {},
+      data: {},
+      storedAt: Date.now() - 5000
+    });
+
+    const lookup = await cache.lookup({ url: '/nodes' });
+    expect(lookup.entry).toBeUndefined();
+  });
+
+  it('should persist entries on disk', async () => {
+    const store = new FileCacheStore(path.join(tmpDir, 'api'));
+    const entry = { key: 'GET /nodes', etag: '"v1"', status: 200, headers: {}, data: { a: 1 }, storedAt: Date.now() };
+
+    await store.set(entry);
+    expect(await new FileCacheStore(path.join(tmpDir, 'api')).get('GET /nodes')).toEqual(entry);
+
+    await store.delete('GET /nodes');
+    expect(await store.get('GET /nodes')).toBeUndefined();
+  });
+});
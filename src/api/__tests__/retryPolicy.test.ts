@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'bun:test';
+import { AxiosError, AxiosHeaders } from 'axios';
+import RetryPolicy from '../retryPolicy';
+
+const makeError = (status?: number, code?: string, headers: Record<string, string> = {}, method?: string) => {
+  const config: any = { url: '/test', method, headers: new AxiosHeaders() };
+  const response: any = status === undefined
+    ? undefined
+    : { status, headers, data: {}, statusText: '', config };
+
+  return new AxiosError('failed', code, config, {}, response);
+};
+
+describe('RetryPolicy', () => {
+  describe('isRetryable', () => {
+    const policy = new RetryPolicy();
+
+    it('should retry transient HTTP statuses', () => {
+      expect(policy.isRetryable(makeError(502))).toBe(true);
+      expect(policy.isRetryable(makeError(503))).toBe(true);
+      expect(policy.isRetryable(makeError(429))).toBe(true);
+    });
+
+    it('should not retry client errors', () => {
+      expect(policy.isRetryable(makeError(400))).toBe(false);
+      expect(policy.isRetryable(makeError(404))).toBe(false);
+    });
+
+    it('should retry configured network error codes', () => {
+      expect(policy.isRetryable(makeError(undefined, 'ECONNRESET'))).toBe(true);
+      expect(policy.isRetryable(makeError(undefined, 'ERR_BAD_OPTION'))).toBe(false);
+    });
+
+    it('should not retry errors without a request config', () => {
+      const error = Object.assign(new Error('Network Error'), {
+        isAxiosError: true,
+        response: { status: 503 }
+      });
+
+      expect(policy.isRetryable(error)).toBe(false);
+      expect(policy.isRetryable(new Error('boom'))).toBe(false);
+    });
+
+    it('should only retry non-idempotent methods when asked to retry later', () => {
+      expect(policy.isRetryable(makeError(502, undefined, {}, 'post'))).toBe(false);
+      expect(policy.isRetryable(makeError(undefined, 'ECONNRESET', {}, 'patch'))).toBe(false);
+      expect(policy.isRetryable(makeError(429, undefined, {}, 'post'))).toBe(false);
+      expect(policy.isRetryable(makeError(429, undefined, { 'retry-after': '1' }, 'post'))).toBe(true);
+      expect(policy.isRetryable(makeError(502, undefined, {}, 'put'))).toBe(true);
+
+      const optedIn = new RetryPolicy({ retryableMethods: ['GET', 'POST'] });
+      expect(optedIn.isRetryable(makeError(502, undefined, {}, 'post'))).toBe(true);
+      expect(optedIn.isRetryable(makeError(502, undefined, {}, 'delete'))).toBe(false);
+    });
+
+    it('should honor custom retryable statuses', () => {
+      const custom = new RetryPolicy({ retryableStatuses: [404] });
+      expect(custom.isRetryable(makeError(404))).toBe(true);
+      expect(custom.isRetryable(makeError(502))).toBe(false);
+    });
+  });
+
+  describe('getDelay', () => {
+    it('should back off exponentially without jitter', () => {
+      const policy = new RetryPolicy({ baseDelayMs: 100, jitter: 'none' });
+
+      expect(policy.getDelay(makeError(502), 1)).toBe(100);
+      expect(policy.getDelay(makeError(502), 2)).toBe(200);
+      expect(policy.getDelay(makeError(502), 4)).toBe(800);
+    });
+
+    it('should cap delays at maxDelayMs', () => {
+      const policy = new RetryPolicy({ baseDelayMs: 100, maxDelayMs: 250, jitter: 'none' });
+      expect(policy.getDelay(makeError(502), 10)).toBe(250);
+    });
+
+    it('should keep jittered delays within bounds', () => {
+      const full = new RetryPolicy({ baseDelayMs: 1000, jitter: 'full' });
+      const equal = new RetryPolicy({ baseDelayMs: 1000, jitter: 'equal' });
+
+      for (let i = 0; i < 50; i++) {
+        const fullDelay = full.getDelay(makeError(502), 1);
+        const equalDelay = equal.getDelay(makeError(502), 1);
+
+        expect(fullDelay).toBeGreaterThanOrEqual(0);
+        expect(fullDelay).toBeLessThanOrEqual(1000);
+        expect(equalDelay).toBeGreaterThanOrEqual(500);
+        expect(equalDelay).toBeLessThanOrEqual(1000);
+      }
+    });
+
+    it('should honor Retry-After on 429 and 503', () => {
+      const policy = new RetryPolicy({ jitter: 'none' });
+
+      expect(policy.getDelay(makeError(429, undefined, { 'retry-after': '7' }), 1)).toBe(7000);
+      expect(policy.getDelay(makeError(503, undefined, { 'retry-after': '2' }), 1)).toBe(2000);
+      expect(policy.getDelay(makeError(502, undefined, { 'retry-after': '7' }), 1)).toBe(500);
+    });
+
+    it('should ignore Retry-After when disabled', () => {
+      const policy = new RetryPolicy({ jitter: 'none', respectRetryAfter: false });
+      expect(policy.getDelay(makeError(429, undefined, { 'retry-after': '7' }), 1)).toBe(500);
+    });
+  });
+
+  describe('nextDelay', () => {
+    it('should give up once retries are exhausted', () => {
+      const policy = new RetryPolicy({ maxRetries: 2, jitter: 'none' });
+
+      expect(policy.nextDelay(makeError(502), 2, 0)).toBe(1000);
+      expect(policy.nextDelay(makeError(502), 3, 0)).toBeNull();
+    });
+
+    it('should give up when the delay exceeds the time budget', () => {
+      const policy = new RetryPolicy({ jitter: 'none', maxElapsedMs: 1000 });
+
+      expect(policy.nextDelay(makeError(502), 1, 400)).toBe(500);
+      expect(policy.nextDelay(makeError(502), 1, 600)).toBeNull();
+    });
+  });
+
+  describe('ParseRetryAfter', () => {
+    it('should parse delay-seconds', () => {
+      expect(RetryPolicy.ParseRetryAfter('120')).toBe(120000);
+    });
+
+    it('should parse HTTP dates', () => {
+      const future = new Date(Date.now() + 10000).toUTCString();
+      const delay = RetryPolicy.ParseRetryAfter(future)!;
+
+      expect(delay).toBeGreaterThan(8000);
+      expect(delay).toBeLessThanOrEqual(10000);
+    });
+
+    it('should return undefined for missing or invalid values', () => {
+      expect(RetryPolicy.ParseRetryAfter(undefined)).toBeUndefined();
+      expect(RetryPolicy.ParseRetryAfter('soon')).toBeUndefined();
+    });
+  });
+});
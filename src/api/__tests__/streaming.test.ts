@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeAll } from 'bun:test';
+import { Readable } from 'stream';
+import { z } from 'zod';
+import { JsonArrayParser, streamItems } from '../streaming';
+import { SchemaValidationError } from '../../errors';
+import { LoggerFactory } from '../../logging/logger';
+import { toNDJSONStream } from '../../utils/data.utils';
+
+const collect = async <T>(iterator: AsyncIterable<T>): Promise<T[]> => {
+  const items: T[] = [];
+  for await (const item of iterator) items.push(item);
+  return items;
+};
+
+/** Splits text into a byte stream with tiny chunks to exercise chunk boundaries */
+const chunked = (text: string, size = 3) => {
+  const bytes = Buffer.from(text, 'utf-8');
+  const chunks: Buffer[] = [];
+  for (let i = 0; i < bytes.length; i += size) chunks.push(bytes.subarray(i, i + size));
+  return Readable.from(chunks);
+};
+
+describe('streaming', () => {
+  beforeAll(() => {
+    if (!LoggerFactory.HasLogger()) {
+      LoggerFactory.CreateLogger('error').mute();
+    }
+  });
+
+  describe('JsonArrayParser', () => {
+    it('should emit elements as soon as they are complete', () => {
+      const parser = new JsonArrayParser();
+
+      expect(parser.push('[{"id":1},{"id"')).toEqual([{ id: 1 }]);
+      expect(parser.push(':2}, 3, "a,]b"]')).toEqual([{ id: 2 }, 3, 'a,]b']);
+      expect(() => parser.end()).not.toThrow();
+    });
+
+    it('should find a nested array and skip everything else', () => {
+      const parser = new JsonArrayParser(['result', 'items']);
+      const body = '{"meta":{"items":[0]},"note":"[\\"x\\"]","result":{"total":2,"items":[{"a":[1,2]},{"b":{"c":"}"}}]},"tail":[9]}';
+
+      expect(parser.push(body)).toEqual([{ a: [1, 2] }, { b: { c: '}' } }]);
+    });
+
+    it('should give the same elements however the body is split', () => {
+      const body = '{"meta":{"items":[0]},"re\\"sult":{"items":[{"a":"x\\"]y"},[1,[2]],"z"]}}';
+      const expected = [{ a: 'x"]y' }, [1, [2]], 'z'];
+
+      for (const size of [1, 2, 3, 7, body.length]) {
+        const parser = new JsonArrayParser(['re"sult', 'items']);
+        const items: unknown[] = [];
+        for (let i = 0; i < body.length; i += size) {
+          items.push(...parser.push(body.slice(i, i + size)));
+        }
+
+        expect(items).toEqual(expected);
+        expect(() => parser.end()).not.toThrow();
+      }
+    });
+
+    it('should reject bodies without the target array', () => {
+      const parser = new JsonArrayParser(['data']);
+      parser.push('{"other":[1]}');
+
+      expect(() => parser.end()).toThrow("no JSON array at 'data'");
+    });
+  });
+
+  describe('streamItems', () => {
+    it('should parse a chunked JSON body including multi-byte characters', async () => {
+      const body = JSON.stringify({ data: [{ name: 'Zürich 🚀' }, { name: 'Oslo' }] });
+
+      const items = await collect(streamItems(chunked(body), 'application/json', { path: 'data' }));
+
+      expect(items).toEqual([{ name: 'Zürich 🚀' }, { name: 'Oslo' }]);
+    });
+
+    it('should detect NDJSON from the content type', async () => {
+      const body = '{"id":1}\n\n{"id":2}\n{"id":3}';
+
+      const items = await collect(streamItems(chunked(body, 5), 'application/x-ndjson'));
+
+      expect(items).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+    });
+
+    it('should accept already-parsed bodies', async () => {
+      const items = await collect(streamItems({ data: [1, 2] }, undefined, { path: ['data'] }));
+
+      expect(items).toEqual([1, 2]);
+    });
+
+    it('should validate items and throw with the item index', async () => {
+      const schema = z.object({ id: z.number() });
+      const error = await collect(streamItems(chunked('[{"id":1},{"id":"x"}]'), undefined, { schema }, 'events'))
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(SchemaValidationError);
+      expect(error.paths).toEqual(['1.id']);
+      expect(error.route).toBe('events');
+    });
+
+    it('should skip invalid items when asked to', async () => {
+      const schema = z.object({ id: z.number() });
+
+      const items = await collect(streamItems('[{"id":1},{"id":"x"},{"id":3}]', undefined, { schema, onInvalid: 'skip' }));
+
+      expect(items).toEqual([{ id: 1 }, { id: 3 }]);
+    });
+  });
+
+  it('should pipe streamed items into an NDJSON stream', async () => {
+    const items = streamItems(chunked('[{"id":1},{"id":2}]'), 'application/json');
+
+    const chunks = await collect(toNDJSONStream(items));
+
+    expect(chunks.join('')).toBe('{"id":1}\n{"id":2}');
+  });
+});
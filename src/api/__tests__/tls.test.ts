@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as tls from 'tls';
+import { createHttpsAgent } from '../tls';
+import { LoggerFactory } from '../../logging/logger';
+
+describe('createHttpsAgent', () => {
+  let tmpDir: string;
+
+  beforeAll(() => {
+    if (!LoggerFactory.HasLogger()) {
+      LoggerFactory.CreateLogger('error').mute();
+    }
+
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tls-test-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should verify certificates by default', () => {
+    const agent = createHttpsAgent({});
+    expect(agent.options.rejectUnauthorized).not.toBe(false);
+  });
+
+  it('should disable verification in insecure mode', () => {
+    const agent = createHttpsAgent({ insecure: true });
+    expect(agent.options.rejectUnauthorized).toBe(false);
+  });
+
+  it('should add the CA bundle to the system roots', () => {
+    const caPath = path.join(tmpDir, 'ca.pem');
+    fs.writeFileSync(caPath, '-----BEGIN CERTIFICATE-----\nTEST\n-----END CERTIFICATE-----\n');
+
+    const agent = createHttpsAgent({ caPath });
+    const ca = agent.options.ca as string[];
+
+    expect(ca.length).toBe(tls.rootCertificates.length + 1);
+    expect(ca.at(-1)).toContain('TEST');
+  });
+
+  it('should require certificate and key together', () => {
+    expect(() => createHttpsAgent({ certPath: path.join(tmpDir, 'cert.pem') })).toThrow(
+      'TLS client certificate and key must be provided together'
+    );
+  });
+
+  it('should fail when the CA bundle is missing', () => {
+    expect(() => createHttpsAgent({ caPath: path.join(tmpDir, 'missing.pem') })).toThrow();
+  });
+});
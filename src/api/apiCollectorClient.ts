@@ -1,5 +1,6 @@
 import axios, { 
     AxiosHeaders,
+    isAxiosError,
     AxiosInstance,
     Method,
     type AxiosRequestConfig,
@@ -8,8 +9,78 @@ import axios, {
 
 import z from "zod";
 
+import type { ApiConfig } from "../config/modules/api";
 import { InvalidAPIResponseError } from "../errors";
 import { LoggerFactory } from "../logging/logger";
+import { sleep } from "../utils/util";
+import { toApiRequestError } from "../utils/axios.utils";
+import {
+    zParseArrayLeniently,
+    zParseUsing,
+    type LenientValidationOpts,
+    type ValidationReport
+} from "../utils/zod.utils";
+import RetryPolicy, { type RetryPolicyOpts } from "./retryPolicy";
+import { AuthProvider } from "./auth";
+import RateLimiter, { type RateLimiterOpts } from "./rateLimiter";
+import { createHttpsAgent, type TlsOpts } from "./tls";
+import { FileCacheStore, ResponseCache, type ResponseCacheOpts } from "./cache";
+import FixtureStore, { type FixtureOpts } from "./fixtures";
+import { paginate as paginatePages, type PaginateOpts, type PaginationStrategy } from "./pagination";
+import { streamItems, type StreamOpts } from "./streaming";
+
+/**
+ * Optional behaviour settings for an {@link ApiCollectorClient}.
+ */
+export interface ApiCollectorClientOpts {
+    /**
+     * Retry policy instance, or overrides for the default policy.
+     */
+    retry?: RetryPolicy | Partial<RetryPolicyOpts>;
+
+    /**
+     * Rate limiter instance (e.g. shared between clients), or limiter settings.
+     * Requests are not throttled when omitted.
+     */
+    rateLimit?: RateLimiter | RateLimiterOpts;
+
+    /**
+     * Authentication strategy applied to every request, on top of the persistent headers.
+     */
+    auth?: AuthProvider;
+
+    /**
+     * TLS settings for HTTPS endpoints (custom CA, mTLS, pinning, insecure mode).
+     */
+    tls?: TlsOpts;
+
+    /**
+     * Conditional-request (ETag / Last-Modified) cache for GET responses,
+     * or cache settings. Responses are not cached when omitted.
+     */
+    cache?: ResponseCache | ResponseCacheOpts;
+
+    /**
+     * Record-and-replay fixture settings, for offline collector tests.
+     */
+    fixtures?: FixtureOpts;
+}
+
+/**
+ * Per-request options accepted by {@link ApiCollectorClient.request}.
+ */
+export interface ApiRequestOpts extends AxiosRequestConfig {
+    /** Skip the response cache for this request */
+    bypassCache?: boolean;
+}
+
+/**
+ * Options accepted by {@link ApiCollectorClient.requestAndParseEach}.
+ */
+export interface LenientParseOpts extends LenientValidationOpts {
+    /** Extracts the array of records from the response body (default: the body itself) */
+    getItems?: (data: any) => unknown;
+}
 
 
 /**
@@ -19,7 +90,11 @@ import { LoggerFactory } from "../logging/logger";
  * - common HTTP request logic
  * - retry & exponential backoff
  * - authentication injection
+ * - client-side rate limiting & concurrency control
+ * - conditional-request response caching
  * - optional Zod validation
+ * - pagination helpers
+ * - streaming of large JSON / NDJSON responses
  *
  * Subclasses implement API-specific logic and data retrieval.
  */
@@ -27,26 +102,59 @@ export default abstract class ApiCollectorClient {
     /** Persistent axios object */
     #axiosClient: AxiosInstance;
 
-    #MAX_RETRIES=10;
+    /** Policy deciding which failed requests are retried */
+    #retryPolicy: RetryPolicy;
+
+    /** Optional limiter throttling outgoing requests */
+    #rateLimiter?: RateLimiter;
+
+    /** Optional authentication strategy */
+    #authProvider?: AuthProvider;
+
+    /** Optional conditional-request cache */
+    #responseCache?: ResponseCache;
 
     /**
      * Constructs a new API client.
      *
      * @param baseUrl Base endpoint URL for API requests
      * @param persistentHeaders Persistent headers to be used in every request - intended for auth
-     * @param needsDisconnect Whether subclass must implement disconnect logic
+     * @param opts Client options, or the maximum number of retries for backwards compatibility
      */
-    protected constructor(baseUrl: string, persistentHeaders: AxiosHeaders, maxRetries: number = 10) {
+    protected constructor(baseUrl: string, persistentHeaders: AxiosHeaders, opts: ApiCollectorClientOpts | number = {}) {
+        const { retry, rateLimit, auth, tls, cache, fixtures } = typeof opts === "number"
+            ? { retry: { maxRetries: opts } } as ApiCollectorClientOpts
+            : opts;
+
         this.#axiosClient = axios.create({
             baseURL: baseUrl,
             headers: {
                 "Content-Type": "application/json",
                 ...persistentHeaders
             },
-            timeout: 30 * 1000 // 30 seconds
+            timeout: 30 * 1000, // 30 seconds
+            ...(tls ? { httpsAgent: createHttpsAgent(tls, baseUrl) } : {}),
+            ...(fixtures && fixtures.mode !== "off" ? { adapter: new FixtureStore(fixtures, auth).adapter() } : {})
         })
 
-        this.#MAX_RETRIES = maxRetries;
+        this.#retryPolicy = retry instanceof RetryPolicy
+            ? retry
+            : new RetryPolicy(retry);
+
+        if (rateLimit) {
+            this.#rateLimiter = rateLimit instanceof RateLimiter
+                ? rateLimit
+                : new RateLimiter(rateLimit);
+        }
+
+        this.#authProvider = auth;
+
+        if (cache) {
+            this.#responseCache = cache instanceof ResponseCache
+                ? cache
+                : new ResponseCache(cache);
+        }
+
         this.initInterceptors();
     }
 
@@ -54,6 +162,22 @@ export default abstract class ApiCollectorClient {
         return this.#axiosClient;
     }
 
+    public get retryPolicy() {
+        return this.#retryPolicy;
+    }
+
+    public get rateLimiter() {
+        return this.#rateLimiter;
+    }
+
+    public get authProvider() {
+        return this.#authProvider;
+    }
+
+    public get responseCache() {
+        return this.#responseCache;
+    }
+
     private initInterceptors() {
         const methodEmojiMap: Record<string,string> = {
             GET: "💌",
@@ -76,46 +200,6 @@ export default abstract class ApiCollectorClient {
             LoggerFactory.GetLogger().http(`[${emoji} ${httpMethod}] ${baseURL}${url}${paramStr}`);
             return config;
         });
-        
-        // this.axiosClient.interceptors.response.use(async error => { 
-        //     return this.retryOrThrow(error) 
-        // })
-    }
-
-    /**
-     * Retry logic with exponential backoff.
-     *
-     * @param error The Axios error object
-     * @returns A Promise that resolves to the response if successful, or rejects with an error if all retries fail
-     */
-    private async retryOrThrow(error: any) {
-        const config = error.config;
-
-        if (!config) throw error;
-
-        config.__retryCount = config.__retryCount || 0;
-
-        const status = error.response?.status;
-
-        const shouldRetry =
-            (!status || status >= 500 || status === 429) &&
-            config.__retryCount < this.#MAX_RETRIES;
-
-        if (!shouldRetry) {
-            throw error;
-        }
-
-        config.__retryCount++;
-
-        const delay = 500 * 2 ** config.__retryCount;
-
-        LoggerFactory.GetLogger().warn(
-            `Retry ${config.__retryCount}/${this.#MAX_RETRIES} -> ${config.url}`
-        );
-
-        await new Promise(r => setTimeout(r, delay));
-
-        return this.axiosClient(config);
     }
 
     /**
@@ -136,17 +220,96 @@ export default abstract class ApiCollectorClient {
         throw new Error("Create() must be implemented by subclass");
     }
 
+    /**
+     * Builds client options from the collector's API configuration.
+     *
+     * Intended for use in subclass {@link Create} implementations.
+     *
+     * @param config Parsed API configuration
+     * @returns Client options derived from the configuration
+     */
+    static OptsFromConfig(config: ApiConfig): ApiCollectorClientOpts {
+        const {
+            API_RATE_LIMIT_PER_SECOND,
+            API_RATE_LIMIT_PER_MINUTE,
+            API_MAX_CONCURRENCY,
+            API_TLS_CA_PATH,
+            API_TLS_CERT_PATH,
+            API_TLS_KEY_PATH,
+            API_TLS_KEY_PASSPHRASE,
+            API_TLS_FINGERPRINTS,
+            API_TLS_INSECURE,
+            API_CACHE,
+            API_CACHE_DIR,
+            API_CACHE_TTL_SECONDS,
+            API_FIXTURE_MODE,
+            API_FIXTURE_DIR,
+            API_FIXTURE_REDACT_HEADERS,
+            API_FIXTURE_REDACT_FIELDS
+        } = config;
+
+        const opts: ApiCollectorClientOpts = {};
+
+        if (API_RATE_LIMIT_PER_SECOND || API_RATE_LIMIT_PER_MINUTE || API_MAX_CONCURRENCY) {
+            opts.rateLimit = {
+                requestsPerSecond: API_RATE_LIMIT_PER_SECOND,
+                requestsPerMinute: API_RATE_LIMIT_PER_MINUTE,
+                maxConcurrency: API_MAX_CONCURRENCY
+            };
+        }
+
+        if (API_TLS_CA_PATH || API_TLS_CERT_PATH || API_TLS_KEY_PATH || API_TLS_FINGERPRINTS || API_TLS_INSECURE) {
+            opts.tls = {
+                caPath: API_TLS_CA_PATH,
+                certPath: API_TLS_CERT_PATH,
+                keyPath: API_TLS_KEY_PATH,
+                passphrase: API_TLS_KEY_PASSPHRASE,
+                fingerprints: API_TLS_FINGERPRINTS,
+                insecure: API_TLS_INSECURE
+            };
+        }
+
+        if (API_CACHE !== "none") {
+            opts.cache = {
+                store: API_CACHE === "disk" ? new FileCacheStore(API_CACHE_DIR) : undefined,
+                ttlMs: API_CACHE_TTL_SECONDS !== undefined ? API_CACHE_TTL_SECONDS * 1000 : undefined
+            };
+        }
+
+        if (API_FIXTURE_MODE !== "off") {
+            opts.fixtures = {
+                mode: API_FIXTURE_MODE,
+                directory: API_FIXTURE_DIR,
+                redactHeaders: API_FIXTURE_REDACT_HEADERS,
+                redactFields: API_FIXTURE_REDACT_FIELDS
+            };
+        }
+
+        return opts;
+    }
+
     /**
      * Disconnect hook.
      *
-     * Subclasses override this when persistent sessions or sockets are used.
+     * Logs out of the authentication provider's session where supported
+     * and logs the response cache hit/miss counters.
+     * Subclasses override this when persistent sessions or sockets are used
+     * and should call `super.disconnect()`.
      */
-    async disconnect() { }
+    async disconnect() {
+        await this.#authProvider?.logout(this.axiosClient);
+        this.#responseCache?.logStats(this.constructor.name);
+    }
 
     /**
      * Performs an authenticated HTTP request.
      *
      * Automatically injects authentication headers/body and applies retry logic.
+     * A `401` response triggers one re-authentication and replay when the
+     * client's {@link AuthProvider} supports it. GET requests go through the
+     * response cache when one is configured, unless `opts.bypassCache` is set.
+     * Transient failures are retried according to the client's {@link RetryPolicy}
+     * until it runs out of attempts or the request's time budget is exhausted.
      *
      * @param method HTTP method
      * @param endpoint Endpoint path relative to base URL
@@ -154,28 +317,111 @@ export default abstract class ApiCollectorClient {
      * @returns Axios response or null
      *
      * @throws InvalidAPIResponseError If response status is not successful
-     * @throws AxiosError if axios errors
+     * @throws ApiRequestError (or a subclass such as AuthenticationError, NotFoundError,
+     * RateLimitedError or TimeoutError) if the request fails and is not retryable or retries are exhausted
      */
     public async request<T = any>(
         method: Method,
         endpoint: string,
-        opts?: AxiosRequestConfig
+        opts?: ApiRequestOpts
     ): Promise<AxiosResponse> {
-        const response = await this.axiosClient.request<T>({
+        const { bypassCache, ...axiosOpts } = opts ?? {};
+
+        const config: AxiosRequestConfig = {
             method,
             url: `/${endpoint}`,
-            ...opts
-        });
+            ...axiosOpts
+        };
+
+        const response = this.#responseCache && !bypassCache && method.toUpperCase() === "GET"
+            ? await this.sendCached<T>(this.#responseCache, config)
+            : await this.sendWithRetry<T>(config);
 
         if (response.status < 200 || response.status >= 300) {
             throw new InvalidAPIResponseError(
-                endpoint, `HTTP ${response.status}`
+                endpoint, `HTTP ${response.status}`, { status: response.status }
             );
         }
 
         return response;
     }
 
+    /**
+     * Sends a GET request through the response cache.
+     *
+     * Fresh entries are served directly; stale entries are revalidated with a
+     * conditional request and served again on `304 Not Modified`.
+     *
+     * @param cache Response cache
+     * @param config Axios request configuration
+     * @returns Cached or downloaded response
+     */
+    private async sendCached<T>(cache: ResponseCache, config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+        const lookup = await cache.lookup({ ...config, baseURL: config.baseURL ?? this.axiosClient.defaults?.baseURL });
+
+        if (lookup.entry && lookup.fresh) {
+            return cache.serveFresh(lookup, config);
+        }
+
+        const response = await this.sendWithRetry<T>(
+            lookup.entry ? ResponseCache.Conditional(config, lookup.entry) : config
+        );
+
+        return cache.resolve(lookup, response);
+    }
+
+    /**
+     * Sends a request, retrying transient failures per the retry policy.
+     *
+     * @param config Axios request configuration
+     * @returns Axios response of the first successful attempt
+     * @throws ApiRequestError Built from the last axios error once the policy gives up
+     */
+    private async sendWithRetry<T>(config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+        const startedAt = Date.now();
+        let reauthenticated = false;
+
+        for (let attempt = 1; ; attempt++) {
+            try {
+                const authedConfig = this.#authProvider
+                    ? await this.#authProvider.apply(config, this.axiosClient)
+                    : config;
+
+                return this.#rateLimiter
+                    ? await this.#rateLimiter.schedule(() => this.axiosClient.request<T>(authedConfig), config.url)
+                    : await this.axiosClient.request<T>(authedConfig);
+            } catch (error: any) {
+                if (
+                    !reauthenticated &&
+                    this.#authProvider &&
+                    isAxiosError(error) &&
+                    error.response?.status === 401 &&
+                    await this.#authProvider.handleUnauthorized()
+                ) {
+                    // replay immediately with fresh credentials without consuming a retry
+                    reauthenticated = true;
+                    attempt--;
+                    continue;
+                }
+
+                const delay = this.#retryPolicy.nextDelay(error, attempt, Date.now() - startedAt);
+                if (delay === null) {
+                    // only errors raised by the axios request pipeline are classified
+                    throw isAxiosError(error) && error.config
+                        ? toApiRequestError(error, attempt, this.#retryPolicy.isRetryable(error))
+                        : error;
+                }
+
+                const reason = error.response?.status ?? error.code;
+                LoggerFactory.GetLogger().warn(
+                    `Retry ${attempt}/${this.#retryPolicy.opts.maxRetries} -> ${config.url} (${reason}) in ${delay}ms`
+                );
+
+                await sleep(delay);
+            }
+        }
+    }
+
     /**
      * Executes a request and validates the result with Zod.
      *
@@ -187,15 +433,154 @@ export default abstract class ApiCollectorClient {
      * @returns Parsed and validated data
      *
      * @throws InvalidAPIResponseError If response status is not successful
-     * @throws AxiosError if axios errors
+     * @throws ApiRequestError if the request fails
+     * @throws SchemaValidationError If the response does not match the schema
      */
     protected async requestAndParse<S extends z.ZodTypeAny>(
         method: "GET" | "POST" | "PUT" | "DELETE",
         endpoint: string,
         schema: S,
-        opts?: AxiosRequestConfig
+        opts?: ApiRequestOpts
     ): Promise<z.infer<S>> {
         const response = await this.request(method, endpoint, opts);
-        return schema.parse(response.data);
+        return zParseUsing(schema, response.data, endpoint) as z.infer<S>;
+    }
+
+    /**
+     * Executes a request and validates an array response record by record.
+     *
+     * Unlike {@link requestAndParse}, one malformed record does not discard the
+     * whole payload: valid records are returned and invalid ones are reported
+     * (index, issue paths and a truncated sample) and logged as a summary.
+     *
+     * @template S Zod schema type of a single record
+     * @param method HTTP method
+     * @param endpoint API endpoint path
+     * @param itemSchema Zod schema used to validate each record
+     * @param validation Record extraction, failure threshold and reporting options
+     * @param opts Optional Axios configuration
+     * @returns Valid records and a report of the invalid ones
+     *
+     * @throws InvalidAPIResponseError If response status is not successful
+     * @throws ApiRequestError if the request fails
+     * @throws SchemaValidationError If the records are not an array or too many are invalid
+     *
+     * @example
+     * ```ts
+     * const { valid: vms } = await this.requestAndParseEach("GET", "cluster/resources", zVm, {
+     *     getItems: (body) => body.data,
+     *     maxInvalidRatio: 0.05
+     * });
+     * ```
+     */
+    protected async requestAndParseEach<S extends z.ZodTypeAny>(
+        method: "GET" | "POST" | "PUT" | "DELETE",
+        endpoint: string,
+        itemSchema: S,
+        validation: LenientParseOpts = {},
+        opts?: ApiRequestOpts
+    ): Promise<ValidationReport<z.infer<S>>> {
+        const { getItems, ...validationOpts } = validation;
+
+        const response = await this.request(method, endpoint, opts);
+        const items = getItems ? getItems(response.data) : response.data;
+
+        return zParseArrayLeniently(itemSchema, items, validationOpts, endpoint) as ValidationReport<z.infer<S>>;
+    }
+
+    /**
+     * Streams the items of a large JSON array or NDJSON response.
+     *
+     * The body is requested with `responseType: "stream"` and parsed
+     * incrementally, so only the item being read is held in memory. Retries,
+     * authentication and rate limiting apply to obtaining the response; the
+     * response cache is bypassed.
+     *
+     * @param method HTTP method
+     * @param endpoint API endpoint path
+     * @param streamOpts Body format, array location and per-item validation options
+     * @param opts Optional Axios configuration
+     * @returns Async iterator over (validated) items
+     *
+     * @throws InvalidAPIResponseError If response status is not successful
+     * @throws ApiRequestError if the request fails
+     * @throws SchemaValidationError If an item fails validation and `onInvalid` is `"throw"`
+     *
+     * @example
+     * ```ts
+     * const events = this.requestStream("GET", "events/export", { path: "data", schema: zEvent });
+     * await exportData(toNDJSONStream(events), ...);
+     * ```
+     */
+    protected async *requestStream<T = any>(
+        method: Method,
+        endpoint: string,
+        streamOpts: StreamOpts<T> = {},
+        opts?: ApiRequestOpts
+    ): AsyncGenerator<T> {
+        const response = await this.request(method, endpoint, {
+            ...opts,
+            responseType: "stream",
+            bypassCache: true
+        });
+
+        const contentType = response.headers?.["content-type"]?.toString();
+        yield* streamItems<T>(response.data, contentType, streamOpts, endpoint);
+    }
+
+    /**
+     * Iterates over every item of a paginated endpoint.
+     *
+     * Each page is fetched through {@link request} (so retries apply) and
+     * optionally validated with `opts.schema` before items are extracted.
+     *
+     * @param method HTTP method
+     * @param endpoint API endpoint path
+     * @param strategy Pagination strategy (offset, page, cursor or link header)
+     * @param opts Validation, item extraction and safety cap options
+     * @returns Async iterator over all items
+     *
+     * @example
+     * ```ts
+     * for await (const vm of this.paginate("GET", "vms", { type: "offset", limit: 100 })) {
+     *     vms.push(vm);
+     * }
+     * ```
+     */
+    protected paginate<T = any>(
+        method: Method,
+        endpoint: string,
+        strategy: PaginationStrategy,
+        opts?: PaginateOpts<T>
+    ): AsyncGenerator<T> {
+        return paginatePages<T>(
+            (config) => this.request(method, endpoint, config),
+            strategy,
+            opts,
+            endpoint
+        );
+    }
+
+    /**
+     * Fetches every item of a paginated endpoint into an array.
+     *
+     * @param method HTTP method
+     * @param endpoint API endpoint path
+     * @param strategy Pagination strategy (offset, page, cursor or link header)
+     * @param opts Validation, item extraction and safety cap options
+     * @returns All items across every page
+     */
+    protected async paginateAll<T = any>(
+        method: Method,
+        endpoint: string,
+        strategy: PaginationStrategy,
+        opts?: PaginateOpts<T>
+    ): Promise<T[]> {
+        const items: T[] = [];
+        for await (const item of this.paginate<T>(method, endpoint, strategy, opts)) {
+            items.push(item);
+        }
+
+        return items;
     }
 }
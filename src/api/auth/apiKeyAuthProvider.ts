@@ -0,0 +1,71 @@
+import { type AxiosRequestConfig } from "axios";
+
+import AuthProvider, { type CredentialNames } from "./authProvider";
+
+/**
+ * Where an API key is sent.
+ */
+export const ApiKeyLocation = ["header", "query"] as const;
+export type ApiKeyLocation = typeof ApiKeyLocation[number];
+
+/**
+ * Options for {@link ApiKeyAuthProvider}.
+ */
+export interface ApiKeyAuthOpts {
+    /** The API key */
+    key: string;
+
+    /** Send the key as a header or a query parameter (default `"header"`) */
+    in?: ApiKeyLocation;
+
+    /** Header or query parameter name (default `"X-API-Key"` / `"api_key"`) */
+    name?: string;
+
+    /** Optional value prefix, e.g. `"Bearer "` or `"PVEAPIToken="` */
+    prefix?: string;
+}
+
+/**
+ * API key authentication via a request header or query parameter.
+ *
+ * @example
+ * ```ts
+ * const auth = new ApiKeyAuthProvider({ key: token, in: "query", name: "apikey" });
+ * ```
+ */
+export default class ApiKeyAuthProvider extends AuthProvider {
+    /** Resolved options */
+    #opts: Required<ApiKeyAuthOpts>;
+
+    /**
+     * @param opts - Key, location and parameter name
+     */
+    constructor(opts: ApiKeyAuthOpts) {
+        super("API key");
+
+        const location = opts.in ?? "header";
+        this.#opts = {
+            key: opts.key,
+            in: location,
+            name: opts.name ?? (location === "header" ? "X-API-Key" : "api_key"),
+            prefix: opts.prefix ?? ""
+        };
+    }
+
+    async apply(config: AxiosRequestConfig): Promise<AxiosRequestConfig> {
+        const { key, name, prefix } = this.#opts;
+        const value = `${prefix}${key}`;
+
+        if (this.#opts.in === "query") {
+            return { ...config, params: { ...config.params, [name]: value } };
+        }
+
+        return AuthProvider.WithHeader(config, name, value);
+    }
+
+    override credentialNames(): CredentialNames {
+        return this.#opts.in === "query"
+            ? { headers: [], fields: [this.#opts.name] }
+            : { headers: [this.#opts.name], fields: [] };
+    }
+}
@@ -0,0 +1,97 @@
+import { type AxiosInstance, type AxiosRequestConfig } from "axios";
+
+/**
+ * Names of the request headers and fields a provider puts credentials in.
+ */
+export interface CredentialNames {
+    /** Header names */
+    headers: string[];
+
+    /** Query parameter and body field names */
+    fields: string[];
+}
+
+/**
+ * Base abstraction for API authentication strategies.
+ *
+ * An {@link ApiCollectorClient} calls {@link apply} before every request
+ * attempt, {@link handleUnauthorized} once per request when the API answers
+ * `401`, and {@link logout} from `disconnect()`.
+ *
+ * Providers that need to talk to the API themselves (token endpoints, login
+ * routes) receive the client's axios instance, which bypasses authentication
+ * and retries.
+ *
+ * @example
+ * ```ts
+ * class MyClient extends ApiCollectorClient {
+ *     static override async Create(host: string, user: string, pass: string) {
+ *         return new MyClient(`https://${host}/api`, new AxiosHeaders(), {
+ *             auth: new BasicAuthProvider(user, pass)
+ *         });
+ *     }
+ * }
+ * ```
+ */
+export default abstract class AuthProvider {
+    /**
+     * Human-readable provider name.
+     */
+    #name: string;
+
+    /**
+     * @param name - Display name of the authentication strategy
+     */
+    protected constructor(name: string) { this.#name = name; }
+
+    /**
+     * Returns the provider name.
+     */
+    get name() { return this.#name };
+
+    /**
+     * Returns a copy of the request config with credentials applied.
+     *
+     * @param config - Request configuration about to be sent
+     * @param http - Client axios instance, for providers that must log in first
+     * @returns Request configuration including credentials
+     */
+    abstract apply(config: AxiosRequestConfig, http: AxiosInstance): Promise<AxiosRequestConfig>;
+
+    /**
+     * Invalidates cached credentials after the API rejected them.
+     *
+     * @returns `true` if the request should be replayed with fresh credentials
+     */
+    async handleUnauthorized(): Promise<boolean> {
+        return false;
+    }
+
+    /**
+     * Returns where this provider puts credentials, so recorded fixtures can
+     * redact them. Standard locations (`Authorization`, cookies, ...) are
+     * redacted anyway.
+     *
+     * @returns Header and field names carrying credentials
+     */
+    credentialNames(): CredentialNames {
+        return { headers: [], fields: [] };
+    }
+
+    /**
+     * Logs out or revokes the session where supported.
+     *
+     * @param _http - Client axios instance
+     */
+    async logout(_http: AxiosInstance): Promise<void> { }
+
+    /**
+     * Returns a copy of the config with an extra request header.
+     */
+    protected static WithHeader(config: AxiosRequestConfig, name: string, value: string): AxiosRequestConfig {
+        return {
+            ...config,
+            headers: { ...(config.headers as Record<string, any>), [name]: value }
+        };
+    }
+}
@@ -0,0 +1,29 @@
+import { type AxiosRequestConfig } from "axios";
+
+import AuthProvider from "./authProvider";
+
+/**
+ * HTTP Basic authentication (`Authorization: Basic base64(user:pass)`).
+ *
+ * @example
+ * ```ts
+ * const auth = new BasicAuthProvider("admin", process.env.API_PASSWORD!);
+ * ```
+ */
+export default class BasicAuthProvider extends AuthProvider {
+    /** Precomputed `Authorization` header value */
+    #header: string;
+
+    /**
+     * @param username - Account username
+     * @param password - Account password
+     */
+    constructor(username: string, password: string) {
+        super("Basic");
+        this.#header = `Basic ${Buffer.from(`${username}:${password}`).toString("base64")}`;
+    }
+
+    async apply(config: AxiosRequestConfig): Promise<AxiosRequestConfig> {
+        return AuthProvider.WithHeader(config, "Authorization", this.#header);
+    }
+}
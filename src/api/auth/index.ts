@@ -0,0 +1,19 @@
+import AuthProvider, { type CredentialNames } from "./authProvider";
+import BasicAuthProvider from "./basicAuthProvider";
+import ApiKeyAuthProvider, { ApiKeyLocation, type ApiKeyAuthOpts } from "./apiKeyAuthProvider";
+import OAuth2ClientCredentialsProvider, { type OAuth2ClientCredentialsOpts } from "./oauth2ClientCredentialsProvider";
+import SessionAuthProvider, { type SessionAuthOpts, type SessionCredentials } from "./sessionAuthProvider";
+
+export {
+    AuthProvider,
+    BasicAuthProvider,
+    ApiKeyAuthProvider,
+    ApiKeyLocation,
+    OAuth2ClientCredentialsProvider,
+    SessionAuthProvider,
+    type CredentialNames,
+    type ApiKeyAuthOpts,
+    type OAuth2ClientCredentialsOpts,
+    type SessionAuthOpts,
+    type SessionCredentials
+}
@@ -0,0 +1,199 @@
+import { type AxiosInstance, type AxiosRequestConfig, type AxiosResponse, type Method } from "axios";
+
+import { AuthenticationError } from "../../errors";
+import { LoggerFactory } from "../../logging/logger";
+import AuthProvider, { type CredentialNames } from "./authProvider";
+
+/**
+ * Credentials extracted from a successful login response.
+ */
+export interface SessionCredentials {
+    /** Cookies sent with every request */
+    cookies?: Record<string, string>;
+
+    /** Headers sent with every request */
+    headers?: Record<string, string>;
+
+    /** Headers only sent with non-GET requests (e.g. CSRF tokens) */
+    writeHeaders?: Record<string, string>;
+}
+
+/**
+ * Options for {@link SessionAuthProvider}.
+ */
+export interface SessionAuthOpts {
+    /** Login route, relative to the client base URL or absolute */
+    loginPath: string;
+
+    /** Login request body */
+    loginData: Record<string, any>;
+
+    /** Login HTTP method (default `"POST"`) */
+    loginMethod?: Method;
+
+    /** Extracts session credentials from the login response; defaults to its `Set-Cookie` headers */
+    extractSession?: (response: AxiosResponse) => SessionCredentials;
+
+    /** Optional logout route called on disconnect */
+    logoutPath?: string;
+
+    /** Logout HTTP method (default `"POST"`) */
+    logoutMethod?: Method;
+
+    /** Log in again proactively after this long (e.g. ticket lifetime) */
+    sessionTtlMs?: number;
+}
+
+/**
+ * Collects `Set-Cookie` response headers into a cookie map.
+ */
+const cookiesFromResponse = (response: AxiosResponse): SessionCredentials => {
+    const setCookie = response.headers?.["set-cookie"];
+    const raw: string[] = Array.isArray(setCookie) ? setCookie : setCookie ? [setCookie] : [];
+
+    const cookies = Object.fromEntries(
+        raw.map(cookie => cookie.split(";")[0].split("="))
+            .filter(([name]) => name)
+            .map(([name, ...value]) => [name.trim(), value.join("=").trim()])
+    );
+
+    return { cookies };
+}
+
+/**
+ * Session / ticket based authentication.
+ *
+ * Logs in lazily on the first request, attaches the session cookies and
+ * headers to every request, logs in again when the API answers `401` or
+ * the session TTL elapses, and logs out on disconnect when a logout route
+ * is configured.
+ *
+ * @example
+ * ```ts
+ * const auth = SessionAuthProvider.Proxmox("root", process.env.PVE_PASSWORD!, "pam");
+ * ```
+ */
+export default class SessionAuthProvider extends AuthProvider {
+    /** Provider options */
+    #opts: SessionAuthOpts;
+
+    /** Current session */
+    #session?: SessionCredentials & { createdAt: number };
+
+    /** In-flight login shared by concurrent callers */
+    #pending?: Promise<void>;
+
+    /**
+     * @param opts - Login route, body and session extraction
+     */
+    constructor(opts: SessionAuthOpts) {
+        super("Session");
+        this.#opts = opts;
+    }
+
+    /**
+     * Creates a provider for the Proxmox VE ticket API.
+     *
+     * Uses `POST /access/ticket`, the `PVEAuthCookie` cookie and the
+     * `CSRFPreventionToken` header for write requests. Tickets are renewed
+     * after 90 minutes (they expire after two hours).
+     *
+     * @param username - Proxmox user name, without realm
+     * @param password - Proxmox password
+     * @param realm - Authentication realm (default `"pam"`)
+     */
+    static Proxmox(username: string, password: string, realm: string = "pam"): SessionAuthProvider {
+        return new SessionAuthProvider({
+            loginPath: "/access/ticket",
+            loginData: { username: `${username}@${realm}`, password },
+            sessionTtlMs: 90 * 60 * 1000,
+            extractSession: (response) => {
+                const { ticket, CSRFPreventionToken } = response.data?.data ?? {};
+                if (!ticket) {
+                    throw new AuthenticationError("Proxmox login response did not include a ticket", {
+                        route: "/access/ticket",
+                        status: response.status
+                    });
+                }
+
+                return {
+                    cookies: { PVEAuthCookie: ticket },
+                    writeHeaders: CSRFPreventionToken ? { CSRFPreventionToken } : {}
+                };
+            }
+        });
+    }
+
+    async apply(config: AxiosRequestConfig, http: AxiosInstance): Promise<AxiosRequestConfig> {
+        const { sessionTtlMs } = this.#opts;
+        const expired = sessionTtlMs !== undefined && this.#session !== undefined
+            && this.#session.createdAt + sessionTtlMs <= Date.now();
+
+        if (!this.#session || expired) {
+            this.#pending ??= this.login(http).finally(() => this.#pending = undefined);
+            await this.#pending;
+        }
+
+        const { cookies = {}, headers = {}, writeHeaders = {} } = this.#session!;
+        const isWrite = (config.method ?? "GET").toUpperCase() !== "GET";
+
+        const cookieHeader = Object.entries(cookies)
+            .map(([name, value]) => `${name}=${value}`)
+            .join("; ");
+
+        return {
+            ...config,
+            headers: {
+                ...(config.headers as Record<string, any>),
+                ...headers,
+                ...(isWrite ? writeHeaders : {}),
+                ...(cookieHeader ? { Cookie: cookieHeader } : {})
+            }
+        };
+    }
+
+    override credentialNames(): CredentialNames {
+        const { headers = {}, writeHeaders = {} } = this.#session ?? {};
+
+        return {
+            headers: [...Object.keys(headers), ...Object.keys(writeHeaders)],
+            fields: Object.keys(this.#opts.loginData)
+        };
+    }
+
+    override async handleUnauthorized(): Promise<boolean> {
+        LoggerFactory.GetLogger().debug("Session rejected by API; logging in again");
+        this.#session = undefined;
+        return true;
+    }
+
+    override async logout(http: AxiosInstance): Promise<void> {
+        const { logoutPath, logoutMethod = "POST" } = this.#opts;
+        if (!logoutPath || !this.#session) return;
+
+        try {
+            await http.request(await this.apply({ method: logoutMethod, url: logoutPath }, http));
+            LoggerFactory.GetLogger().debug("Logged out of API session");
+        } catch (e: any) {
+            LoggerFactory.GetLogger().warn(`Failed to log out of API session - ${e.message}`);
+        } finally {
+            this.#session = undefined;
+        }
+    }
+
+    /**
+     * Performs the login request and stores the resulting session.
+     */
+    private async login(http: AxiosInstance) {
+        const { loginPath, loginData, loginMethod = "POST", extractSession = cookiesFromResponse } = this.#opts;
+
+        const response = await http.request({
+            method: loginMethod,
+            url: loginPath,
+            data: loginData
+        });
+
+        this.#session = { ...extractSession(response), createdAt: Date.now() };
+        LoggerFactory.GetLogger().debug(`Logged in to API session via '${loginPath}'`);
+    }
+}
@@ -0,0 +1,66 @@
+import { createHash } from "crypto";
+import * as fs from "fs/promises";
+import * as path from "path";
+
+import ResponseCacheStore, { type CacheEntry } from "./responseCacheStore";
+
+/**
+ * On-disk {@link ResponseCacheStore}, persisting entries across runs.
+ *
+ * Each entry is written as a JSON file named after the SHA-256 of its key.
+ * Writes go to a temporary file first and are renamed into place so an
+ * interrupted run never leaves a truncated entry behind.
+ */
+export default class FileCacheStore extends ResponseCacheStore {
+    /** Directory holding the cache files */
+    #directory: string;
+
+    /**
+     * @param directory - Directory holding the cache files; created on first write
+     */
+    constructor(directory: string) {
+        super("disk");
+        this.#directory = directory;
+    }
+
+    /**
+     * Returns the cache directory.
+     */
+    get directory() {
+        return this.#directory;
+    }
+
+    async get(key: string): Promise<CacheEntry | undefined> {
+        try {
+            const entry: CacheEntry = JSON.parse(await fs.readFile(this.pathFor(key), "utf-8"));
+            return entry.key === key ? entry : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    async set(entry: CacheEntry): Promise<void> {
+        await fs.mkdir(this.#directory, { recursive: true });
+
+        const filePath = this.pathFor(entry.key);
+        const tmpPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+
+        await fs.writeFile(tmpPath, JSON.stringify(entry), "utf-8");
+        await fs.rename(tmpPath, filePath);
+    }
+
+    async delete(key: string): Promise<void> {
+        await fs.rm(this.pathFor(key), { force: true });
+    }
+
+    async clear(): Promise<void> {
+        await fs.rm(this.#directory, { recursive: true, force: true });
+    }
+
+    /**
+     * Returns the file path for a cache key.
+     */
+    private pathFor(key: string) {
+        return path.join(this.#directory, `${createHash("sha256").update(key).digest("hex")}.json`);
+    }
+}
@@ -0,0 +1,15 @@
+import ResponseCache, { type ResponseCacheOpts, type CacheStats, type CacheLookup } from "./responseCache";
+import ResponseCacheStore, { type CacheEntry } from "./responseCacheStore";
+import MemoryCacheStore from "./memoryCacheStore";
+import FileCacheStore from "./fileCacheStore";
+
+export {
+    ResponseCache,
+    ResponseCacheStore,
+    MemoryCacheStore,
+    FileCacheStore,
+    type ResponseCacheOpts,
+    type CacheStats,
+    type CacheLookup,
+    type CacheEntry
+}
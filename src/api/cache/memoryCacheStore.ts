@@ -0,0 +1,29 @@
+import ResponseCacheStore, { type CacheEntry } from "./responseCacheStore";
+
+/**
+ * In-memory {@link ResponseCacheStore}, scoped to the process lifetime.
+ */
+export default class MemoryCacheStore extends ResponseCacheStore {
+    /** Stored entries by key */
+    #entries = new Map<string, CacheEntry>();
+
+    constructor() {
+        super("memory");
+    }
+
+    async get(key: string): Promise<CacheEntry | undefined> {
+        return this.#entries.get(key);
+    }
+
+    async set(entry: CacheEntry): Promise<void> {
+        this.#entries.set(entry.key, entry);
+    }
+
+    async delete(key: string): Promise<void> {
+        this.#entries.delete(key);
+    }
+
+    async clear(): Promise<void> {
+        this.#entries.clear();
+    }
+}
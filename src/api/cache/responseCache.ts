@@ -0,0 +1,257 @@
+import { type AxiosRequestConfig, type AxiosResponse } from "axios";
+
+import { LoggerFactory } from "../../logging/logger";
+import ResponseCacheStore, { type CacheEntry } from "./responseCacheStore";
+import MemoryCacheStore from "./memoryCacheStore";
+
+/**
+ * Options for {@link ResponseCache}.
+ */
+export interface ResponseCacheOpts {
+    /** Storage backend (default in-memory) */
+    store?: ResponseCacheStore;
+
+    /** How long entries are kept and revalidated before being discarded (default 24 hours) */
+    ttlMs?: number;
+
+    /** How long entries are served without contacting the API at all (default 0 - always revalidate) */
+    maxAgeMs?: number;
+}
+
+/**
+ * Cache hit/miss counters.
+ */
+export interface CacheStats {
+    /** Responses served from the cache without a request */
+    fresh: number;
+
+    /** Conditional requests answered with `304 Not Modified` */
+    revalidated: number;
+
+    /** Requests that downloaded a full response */
+    misses: number;
+}
+
+/**
+ * Result of looking up a request in the cache.
+ */
+export interface CacheLookup {
+    /** Cache key of the request */
+    key: string;
+
+    /** Stored entry, if any */
+    entry?: CacheEntry;
+
+    /** Whether the entry may be served without revalidation */
+    fresh: boolean;
+}
+
+/**
+ * Builds a stable query string with sorted parameter names.
+ */
+const stableQuery = (params: Record<string, any> | undefined): string => {
+    if (!params) return "";
+
+    const entries = Object.entries(params)
+        .filter(([, value]) => value !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([name, value]) => [name, String(value)]);
+
+    return entries.length > 0 ? `?${new URLSearchParams(entries).toString()}` : "";
+}
+
+/**
+ * Conditional-request cache for GET responses.
+ *
+ * Stores `ETag`/`Last-Modified` validators per URL and query parameters,
+ * sends `If-None-Match`/`If-Modified-Since` on subsequent requests and
+ * serves the stored body when the API answers `304 Not Modified`.
+ *
+ * @example
+ * ```ts
+ * const cache = new ResponseCache({ store: new FileCacheStore(".cache/api"), ttlMs: 7 * 24 * 3600 * 1000 });
+ * ```
+ */
+export default class ResponseCache {
+    /** Storage backend */
+    #store: ResponseCacheStore;
+
+    /** Entry lifetime */
+    #ttlMs: number;
+
+    /** Revalidation-free lifetime */
+    #maxAgeMs: number;
+
+    /** Hit/miss counters */
+    #stats: CacheStats = { fresh: 0, revalidated: 0, misses: 0 };
+
+    /**
+     * @param opts - Store and expiry settings
+     */
+    constructor(opts: ResponseCacheOpts = {}) {
+        this.#store = opts.store ?? new MemoryCacheStore();
+        this.#ttlMs = opts.ttlMs ?? 24 * 60 * 60 * 1000;
+        this.#maxAgeMs = opts.maxAgeMs ?? 0;
+    }
+
+    /**
+     * Returns a copy of the hit/miss counters.
+     */
+    get stats(): CacheStats {
+        return { ...this.#stats };
+    }
+
+    /**
+     * Returns the storage backend.
+     */
+    get store() {
+        return this.#store;
+    }
+
+    /**
+     * Builds the cache key of a request.
+     *
+     * @param config - Request configuration
+     * @returns Key made of the method, base URL, URL and sorted query parameters
+     */
+    static KeyFor(config: AxiosRequestConfig): string {
+        const method = (config.method ?? "GET").toUpperCase();
+        return `${method} ${config.baseURL ?? ""}${config.url ?? ""}${stableQuery(config.params)}`;
+    }
+
+    /**
+     * Looks up a request, discarding expired entries.
+     *
+     * @param config - Request configuration
+     * @returns Lookup result including the stored entry, if any
+     */
+    async lookup(config: AxiosRequestConfig): Promise<CacheLookup> {
+        const key = ResponseCache.KeyFor(config);
+        const entry = await this.#store.get(key);
+
+        if (!entry) {
+            return { key, fresh: false };
+        }
+
+        const age = Date.now() - entry.storedAt;
+        if (age > this.#ttlMs) {
+            await this.#store.delete(key);
+            return { key, fresh: false };
+        }
+
+        return { key, entry, fresh: age < this.#maxAgeMs };
+    }
+
+    /**
+     * Returns a copy of the request config with conditional headers added
+     * and `304` accepted as a valid status.
+     *
+     * @param config - Request configuration
+     * @param entry - Stored entry to revalidate
+     * @returns Conditional request configuration
+     */
+    static Conditional(config: AxiosRequestConfig, entry: CacheEntry): AxiosRequestConfig {
+        const validateStatus = config.validateStatus ?? ((status: number) => status >= 200 && status < 300);
+
+        return {
+            ...config,
+            headers: {
+                ...(config.headers as Record<string, any>),
+                ...(entry.etag ? { "If-None-Match": entry.etag } : {}),
+                ...(entry.lastModified ? { "If-Modified-Since": entry.lastModified } : {})
+            },
+            validateStatus: (status) => status === 304 || validateStatus(status)
+        };
+    }
+
+    /**
+     * Serves a fresh entry without contacting the API.
+     *
+     * @param lookup - Lookup result holding a fresh entry
+     * @param config - Request configuration
+     * @returns Response rebuilt from the cache
+     */
+    serveFresh(lookup: CacheLookup, config: AxiosRequestConfig): AxiosResponse {
+        this.#stats.fresh++;
+        LoggerFactory.GetLogger().debug(`Cache hit (fresh) for ${lookup.key}`);
+
+        return ResponseCache.ToResponse(lookup.entry!, config);
+    }
+
+    /**
+     * Records the API response for a request and returns the response to use.
+     *
+     * A `304` is answered with the stored body; other successful responses
+     * carrying an `ETag` or `Last-Modified` header (or any response when
+     * `maxAgeMs` is set) are stored.
+     *
+     * @param lookup - Lookup result from before the request
+     * @param response - API response
+     * @returns The response to hand to the caller
+     */
+    async resolve(lookup: CacheLookup, response: AxiosResponse): Promise<AxiosResponse> {
+        const logger = LoggerFactory.GetLogger();
+
+        if (response.status === 304 && lookup.entry) {
+            this.#stats.revalidated++;
+            logger.debug(`Cache hit (304 Not Modified) for ${lookup.key}`);
+
+            const entry = { ...lookup.entry, storedAt: Date.now() };
+            await this.#store.set(entry);
+            return ResponseCache.ToResponse(entry, response.config);
+        }
+
+        this.#stats.misses++;
+        logger.debug(`Cache miss for ${lookup.key}`);
+
+        const headers = Object.fromEntries(
+            Object.entries(response.headers ?? {}).map(([name, value]) => [name.toLowerCase(), String(value)])
+        );
+
+        const etag = headers["etag"];
+        const lastModified = headers["last-modified"];
+
+        if (response.status >= 200 && response.status < 300 && (etag || lastModified || this.#maxAgeMs > 0)) {
+            await this.#store.set({
+                key: lookup.key,
+                etag,
+                lastModified,
+                status: response.status,
+                headers,
+                data: response.data,
+                storedAt: Date.now()
+            });
+        }
+
+        return response;
+    }
+
+    /**
+     * Logs the hit/miss counters at `info` level.
+     *
+     * @param label - Cache owner description
+     */
+    logStats(label: string = "API") {
+        const { fresh, revalidated, misses } = this.#stats;
+        const total = fresh + revalidated + misses;
+        if (total === 0) return;
+
+        const hitRate = Math.round((fresh + revalidated) / total * 100);
+        LoggerFactory.GetLogger().info(
+            `${label} response cache (${this.#store.name}): ${fresh + revalidated} hits (${fresh} fresh, ${revalidated} revalidated), ${misses} misses - ${hitRate}% hit rate`
+        );
+    }
+
+    /**
+     * Rebuilds an axios response from a cache entry.
+     */
+    private static ToResponse(entry: CacheEntry, config: AxiosRequestConfig): AxiosResponse {
+        return {
+            status: entry.status,
+            statusText: "OK",
+            headers: entry.headers,
+            data: entry.data,
+            config: config as any
+        };
+    }
+}
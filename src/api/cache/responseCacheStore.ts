@@ -0,0 +1,68 @@
+/**
+ * A cached API response and the validators used to revalidate it.
+ */
+export interface CacheEntry {
+    /** Cache key (method, URL and query parameters) */
+    key: string;
+
+    /** `ETag` header returned with the response */
+    etag?: string;
+
+    /** `Last-Modified` header returned with the response */
+    lastModified?: string;
+
+    /** Response status */
+    status: number;
+
+    /** Response headers */
+    headers: Record<string, string>;
+
+    /** Response body */
+    data: any;
+
+    /** Epoch millis when the response was stored or last revalidated */
+    storedAt: number;
+}
+
+/**
+ * Storage backend for {@link ResponseCache}.
+ *
+ * Implementations must be safe to call concurrently; they do not need to
+ * handle expiry, which is enforced by the cache itself.
+ */
+export default abstract class ResponseCacheStore {
+    /**
+     * Human-readable store name.
+     */
+    #name: string;
+
+    /**
+     * @param name - Display name of the store
+     */
+    protected constructor(name: string) { this.#name = name; }
+
+    /**
+     * Returns the store name.
+     */
+    get name() { return this.#name };
+
+    /**
+     * Returns the entry stored under `key`, if any.
+     */
+    abstract get(key: string): Promise<CacheEntry | undefined>;
+
+    /**
+     * Stores an entry, replacing any previous entry with the same key.
+     */
+    abstract set(entry: CacheEntry): Promise<void>;
+
+    /**
+     * Removes the entry stored under `key`.
+     */
+    abstract delete(key: string): Promise<void>;
+
+    /**
+     * Removes every entry.
+     */
+    abstract clear(): Promise<void>;
+}
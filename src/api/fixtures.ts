@@ -0,0 +1,380 @@
+import axios, {
+    AxiosError,
+    AxiosHeaders,
+    isAxiosError,
+    type AxiosAdapter,
+    type AxiosResponse,
+    type InternalAxiosRequestConfig
+} from "axios";
+import { createHash } from "crypto";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { Readable } from "stream";
+import { buffer } from "stream/consumers";
+
+import { FixtureMode } from "../config/types";
+import { LoggerFactory } from "../logging/logger";
+import type AuthProvider from "./auth/authProvider";
+
+/**
+ * Options for record-and-replay fixtures.
+ */
+export interface FixtureOpts {
+    /** Fixture mode */
+    mode: FixtureMode;
+
+    /** Directory holding the fixture files */
+    directory: string;
+
+    /** Additional header names to redact (case-insensitive) */
+    redactHeaders?: string[];
+
+    /** Body, query and form field names to redact anywhere in the payload (case-insensitive) */
+    redactFields?: string[];
+}
+
+/**
+ * A recorded request/response exchange.
+ */
+export interface Fixture {
+    request: {
+        method: string;
+        url: string;
+        params?: Record<string, any>;
+        headers: Record<string, string>;
+        data?: any;
+    };
+    response: {
+        status: number;
+        statusText: string;
+        headers: Record<string, string>;
+        data: any;
+    };
+    recordedAt: string;
+}
+
+/** Placeholder written in place of redacted values */
+export const REDACTED = "[REDACTED]";
+
+/** Headers that always carry credentials */
+const DefaultRedactedHeaders = ["authorization", "proxy-authorization", "cookie", "set-cookie", "x-api-key"];
+
+/** Field names that commonly carry credentials */
+const DefaultRedactedFields = [
+    "password", "client_secret", "access_token", "refresh_token", "ticket", "CSRFPreventionToken",
+    "api_key", "apikey"
+];
+
+/** Query parameters of signed URLs (S3, GCS, Azure SAS), redacted in URLs only */
+const SignedUrlParams = new Set([
+    "x-amz-signature", "x-amz-credential", "x-amz-security-token", "x-goog-signature", "x-goog-credential", "sig"
+]);
+
+/**
+ * Redacts credential query parameters in a URL, leaving the rest of it untouched.
+ */
+const redactQuery = (url: string, fields: Set<string>): string => {
+    if (!url.includes("?")) return url;
+
+    return url.replace(/([?&])([^=&#]+)=([^&#]*)/g, (match, separator: string, name: string) => {
+        const lower = name.toLowerCase();
+        return fields.has(lower) || SignedUrlParams.has(lower) ? `${separator}${name}=${REDACTED}` : match;
+    });
+}
+
+/**
+ * Replaces the values of redacted fields anywhere in a JSON-like value, and
+ * redacts credential query parameters of URLs in it (e.g. next-page links).
+ */
+const redactValue = (value: any, fields: Set<string>): any => {
+    if (Array.isArray(value)) {
+        return value.map(item => redactValue(item, fields));
+    }
+
+    if (value !== null && typeof value === "object") {
+        return Object.fromEntries(Object.entries(value).map(([key, inner]) => [
+            key,
+            fields.has(key.toLowerCase()) ? REDACTED : redactValue(inner, fields)
+        ]));
+    }
+
+    return typeof value === "string" ? redactQuery(value, fields) : value;
+}
+
+/**
+ * Decodes a raw request/response body into a JSON-like value where possible.
+ */
+const decodeBody = (data: any, contentType: string | undefined): any => {
+    if (data === undefined || data === null || data === "") return undefined;
+    if (Buffer.isBuffer(data)) data = data.toString("utf-8");
+    if (typeof data !== "string") return data;
+
+    try {
+        return JSON.parse(data);
+    } catch {
+        if (contentType?.includes("application/x-www-form-urlencoded")) {
+            return Object.fromEntries(new URLSearchParams(data));
+        }
+        return data;
+    }
+}
+
+/**
+ * Returns headers as a plain object with lower-case names and redacted values;
+ * URLs in other headers (`Link`, `Location`) get their credential query parameters redacted.
+ */
+const redactHeaders = (headers: any, names: Set<string>, fields: Set<string>): Record<string, string> => {
+    const plain = headers instanceof AxiosHeaders ? headers.toJSON() : headers ?? {};
+
+    return Object.fromEntries(
+        Object.entries(plain)
+            .filter(([, value]) => value !== undefined && value !== null)
+            .map(([name, value]) => {
+                const lower = name.toLowerCase();
+                return [lower, names.has(lower) ? REDACTED : redactQuery(String(value), fields)];
+            })
+    );
+}
+
+/**
+ * Reads a streamed response body (`responseType: "stream"`) into memory so it
+ * can be recorded, and hands the response back with a fresh stream of the same bytes.
+ */
+const bufferStreamedBody = async (response: AxiosResponse): Promise<Buffer | undefined> => {
+    if (!(response.data instanceof Readable)) {
+        return undefined;
+    }
+
+    const body = await buffer(response.data);
+    response.data = Readable.from([body]);
+    return body;
+}
+
+/**
+ * Turns a recorded body back into the stream a `responseType: "stream"` request expects.
+ */
+const toStreamedBody = (data: any): Readable => {
+    const text = data === undefined || data === null ? "" : typeof data === "string" ? data : JSON.stringify(data);
+    return Readable.from([Buffer.from(text, "utf-8")]);
+}
+
+/**
+ * Resolves the absolute request URL the way axios combines `baseURL` and `url`.
+ */
+const fullUrl = (config: InternalAxiosRequestConfig): string => {
+    const url = config.url ?? "";
+    if (/^[a-z][a-z\d+\-.]*:\/\//i.test(url) || !config.baseURL) return url;
+
+    return `${config.baseURL.replace(/\/+$/, "")}/${url.replace(/^\/+/, "")}`;
+}
+
+/**
+ * Record-and-replay store for API exchanges.
+ *
+ * Used as an axios adapter so that every request made by the client - API
+ * calls as well as authentication logins - is recorded or replayed.
+ * Credentials are redacted before anything is written - common credential
+ * headers and fields, those the client's {@link AuthProvider} uses, and the
+ * configured ones, including query parameters of the request URL and of URLs
+ * in headers and bodies - and requests are matched on method, redacted URL,
+ * redacted query parameters and redacted body, so replay works regardless of
+ * the secrets used at replay time.
+ *
+ * Repeated identical requests share one fixture (the latest recording).
+ * Streamed responses (`responseType: "stream"`) are read to the end before
+ * they are recorded, and replayed as streams.
+ *
+ * @example
+ * ```ts
+ * const client = new ProxmoxClient(baseUrl, headers, {
+ *     fixtures: { mode: "replay", directory: "src/__tests__/fixtures/proxmox" }
+ * });
+ * ```
+ */
+export default class FixtureStore {
+    /** Store options */
+    #opts: FixtureOpts;
+
+    /** Lower-case header names to redact */
+    #headers: Set<string>;
+
+    /** Lower-case field names to redact */
+    #fields: Set<string>;
+
+    /** Authentication provider whose credential headers and fields are redacted too */
+    #auth?: AuthProvider;
+
+    /**
+     * @param opts - Mode, directory and redaction settings
+     * @param auth - Authentication provider of the client, if any
+     */
+    constructor(opts: FixtureOpts, auth?: AuthProvider) {
+        this.#opts = opts;
+        this.#auth = auth;
+        this.#headers = new Set([...DefaultRedactedHeaders, ...(opts.redactHeaders ?? [])].map(h => h.toLowerCase()));
+        this.#fields = new Set([...DefaultRedactedFields, ...(opts.redactFields ?? [])].map(f => f.toLowerCase()));
+    }
+
+    /**
+     * Returns the fixture mode.
+     */
+    get mode() {
+        return this.#opts.mode;
+    }
+
+    /**
+     * Builds an axios adapter recording to or replaying from this store.
+     *
+     * @param networkAdapter - Adapter used to reach the network in record mode
+     * @returns Axios adapter
+     */
+    adapter(networkAdapter: AxiosAdapter = axios.getAdapter(axios.defaults.adapter)): AxiosAdapter {
+        return async (config) => {
+            if (this.#opts.mode === "replay") {
+                return this.replay(config);
+            }
+
+            try {
+                const response = await networkAdapter(config);
+                await this.record(config, response);
+                return response;
+            } catch (error) {
+                if (isAxiosError(error) && error.response) {
+                    await this.record(config, error.response);
+                }
+                throw error;
+            }
+        };
+    }
+
+    /**
+     * Returns the fixture file path of a request.
+     *
+     * @param config - Request configuration as seen by the adapter
+     * @returns Absolute or relative path inside the fixture directory
+     */
+    pathFor(config: InternalAxiosRequestConfig): string {
+        const request = this.describeRequest(config);
+
+        const hash = createHash("sha256")
+            .update(JSON.stringify([request.method, request.url, request.params ?? null, request.data ?? null]))
+            .digest("hex")
+            .slice(0, 12);
+
+        const slug = new URL(request.url, "http://fixture").pathname
+            .replace(/[^a-zA-Z0-9]+/g, "_")
+            .replace(/^_+|_+$/g, "")
+            .slice(0, 80);
+
+        return path.join(this.#opts.directory, `${request.method}_${slug || "root"}_${hash}.json`);
+    }
+
+    /**
+     * Saves a request/response exchange.
+     */
+    private async record(config: InternalAxiosRequestConfig, response: AxiosResponse) {
+        const filePath = this.pathFor(config);
+        const contentType = response.headers?.["content-type"]?.toString();
+        const streamed = await bufferStreamedBody(response);
+        const fields = this.redactedFields();
+
+        const fixture: Fixture = {
+            request: this.describeRequest(config),
+            response: {
+                status: response.status,
+                statusText: response.statusText,
+                headers: redactHeaders(response.headers, this.redactedHeaders(), fields),
+                data: redactValue(decodeBody(streamed ?? response.data, contentType), fields)
+            },
+            recordedAt: new Date().toISOString()
+        };
+
+        await fs.mkdir(this.#opts.directory, { recursive: true });
+        await fs.writeFile(filePath, JSON.stringify(fixture, null, 2), "utf-8");
+
+        LoggerFactory.GetLogger().debug(`Recorded fixture ${filePath}`);
+    }
+
+    /**
+     * Answers a request from its fixture, applying `validateStatus` like a real adapter.
+     *
+     * @throws Error If no fixture was recorded for the request
+     */
+    private async replay(config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+        const filePath = this.pathFor(config);
+
+        let contents: string;
+        try {
+            contents = await fs.readFile(filePath, "utf-8");
+        } catch (error: any) {
+            if (error?.code !== "ENOENT") throw error;
+
+            const { method, url } = this.describeRequest(config);
+            throw new Error(`No fixture recorded for ${method} ${url} (expected '${filePath}')`);
+        }
+
+        const fixture: Fixture = JSON.parse(contents);
+        LoggerFactory.GetLogger().debug(`Replaying fixture ${filePath}`);
+
+        const response: AxiosResponse = {
+            status: fixture.response.status,
+            statusText: fixture.response.statusText,
+            headers: AxiosHeaders.from(fixture.response.headers),
+            data: config.responseType === "stream" ? toStreamedBody(fixture.response.data) : fixture.response.data,
+            config,
+            request: {}
+        };
+
+        const validateStatus = config.validateStatus;
+        if (!validateStatus || validateStatus(response.status)) {
+            return response;
+        }
+
+        throw new AxiosError(
+            `Request failed with status code ${response.status}`,
+            response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+            config,
+            response.request,
+            response
+        );
+    }
+
+    /**
+     * Returns the lower-case header names to redact, including the auth provider's.
+     */
+    private redactedHeaders(): Set<string> {
+        const names = this.#auth?.credentialNames().headers ?? [];
+        return names.length > 0 ? new Set([...this.#headers, ...names.map(h => h.toLowerCase())]) : this.#headers;
+    }
+
+    /**
+     * Returns the lower-case field names to redact, including the auth provider's.
+     */
+    private redactedFields(): Set<string> {
+        const names = this.#auth?.credentialNames().fields ?? [];
+        return names.length > 0 ? new Set([...this.#fields, ...names.map(f => f.toLowerCase())]) : this.#fields;
+    }
+
+    /**
+     * Describes a request with credentials redacted.
+     */
+    private describeRequest(config: InternalAxiosRequestConfig): Fixture["request"] {
+        const contentType = config.headers?.["Content-Type"] ?? config.headers?.["content-type"];
+        const fields = this.redactedFields();
+        const params = config.params
+            ? redactValue(Object.fromEntries(
+                Object.entries(config.params)
+                    .filter(([, value]) => value !== undefined)
+                    .sort(([a], [b]) => a.localeCompare(b))
+            ), fields)
+            : undefined;
+
+        return {
+            method: (config.method ?? "GET").toUpperCase(),
+            url: redactQuery(fullUrl(config), fields),
+            params,
+            headers: redactHeaders(config.headers, this.redactedHeaders(), fields),
+            data: redactValue(decodeBody(config.data, contentType as string | undefined), fields)
+        };
+    }
+}
@@ -1,2 +1,50 @@
-import ApiCollectorClient from "./apiCollectorClient";
-export default ApiCollectorClient;
\ No newline at end of file
+import ApiCollectorClient, { type ApiCollectorClientOpts, type ApiRequestOpts, type LenientParseOpts } from "./apiCollectorClient";
+import * as Auth from "./auth";
+import * as Cache from "./cache";
+import {
+    parseLinkHeader,
+    type PaginateOpts,
+    type PaginationStrategy,
+    type OffsetPagination,
+    type PageNumberPagination,
+    type CursorPagination,
+    type LinkHeaderPagination
+} from "./pagination";
+import { JsonArrayParser, StreamFormat, streamItems, type StreamOpts } from "./streaming";
+import RateLimiter, { type RateLimiterOpts } from "./rateLimiter";
+import { createHttpsAgent, type TlsOpts } from "./tls";
+import FixtureStore, { REDACTED, type Fixture, type FixtureOpts } from "./fixtures";
+import RetryPolicy, { DefaultRetryPolicyOpts, RetryJitter, type RetryPolicyOpts } from "./retryPolicy";
+
+export {
+    Auth,
+    Cache,
+    RetryPolicy,
+    DefaultRetryPolicyOpts,
+    RetryJitter,
+    type RetryPolicyOpts,
+    RateLimiter,
+    type RateLimiterOpts,
+    parseLinkHeader,
+    type PaginateOpts,
+    type PaginationStrategy,
+    type OffsetPagination,
+    type PageNumberPagination,
+    type CursorPagination,
+    type LinkHeaderPagination,
+    JsonArrayParser,
+    StreamFormat,
+    streamItems,
+    type StreamOpts,
+    FixtureStore,
+    REDACTED,
+    type Fixture,
+    type FixtureOpts,
+    createHttpsAgent,
+    type TlsOpts,
+    type ApiCollectorClientOpts,
+    type ApiRequestOpts,
+    type LenientParseOpts
+};
+
+export default ApiCollectorClient;
@@ -0,0 +1,253 @@
+import { type AxiosRequestConfig, type AxiosResponse } from "axios";
+import z from "zod";
+
+import { LoggerFactory } from "../logging/logger";
+import { zParseUsing } from "../utils/zod.utils";
+
+/**
+ * Offset/limit pagination, e.g. `?offset=200&limit=100`.
+ *
+ * Stops when a page returns fewer than `limit` items.
+ */
+export interface OffsetPagination {
+    type: "offset";
+    /** Number of items requested per page */
+    limit: number;
+    /** Query parameter carrying the offset (default `"offset"`) */
+    offsetParam?: string;
+    /** Query parameter carrying the page size (default `"limit"`) */
+    limitParam?: string;
+    /** Offset of the first page (default `0`) */
+    startOffset?: number;
+}
+
+/**
+ * Page-number pagination, e.g. `?page=3&per_page=50`.
+ *
+ * Stops on an empty page, or on a short page when `pageSize` is known.
+ */
+export interface PageNumberPagination {
+    type: "page";
+    /** Query parameter carrying the page number (default `"page"`) */
+    pageParam?: string;
+    /** Query parameter carrying the page size; omitted when not set */
+    pageSizeParam?: string;
+    /** Number of items requested per page */
+    pageSize?: number;
+    /** Number of the first page (default `1`) */
+    startPage?: number;
+}
+
+/**
+ * Cursor / next-token pagination.
+ *
+ * Stops when `getNextCursor` returns no cursor.
+ */
+export interface CursorPagination {
+    type: "cursor";
+    /** Query parameter carrying the cursor (default `"cursor"`) */
+    cursorParam?: string;
+    /** Extracts the next cursor from the (validated) page body and raw response */
+    getNextCursor: (data: any, response: AxiosResponse) => string | number | null | undefined;
+}
+
+/**
+ * RFC 5988 `Link: <...>; rel="next"` header pagination.
+ *
+ * Stops when the response carries no `next` link.
+ */
+export interface LinkHeaderPagination {
+    type: "link";
+}
+
+/**
+ * Supported pagination strategies.
+ */
+export type PaginationStrategy =
+    | OffsetPagination
+    | PageNumberPagination
+    | CursorPagination
+    | LinkHeaderPagination;
+
+/**
+ * Options shared by all pagination strategies.
+ */
+export interface PaginateOpts<T = any> {
+    /** Optional Zod schema used to validate every page body */
+    schema?: z.ZodTypeAny;
+    /** Extracts the items from a page body; defaults to the body itself when it is an array */
+    getItems?: (data: any) => T[];
+    /** Maximum number of pages to fetch (default `1000`) */
+    maxPages?: number;
+    /** Maximum number of items to yield */
+    maxItems?: number;
+    /** Additional Axios configuration applied to every page request */
+    request?: AxiosRequestConfig;
+}
+
+/**
+ * Fetches a single page given per-page request overrides.
+ */
+export type PageFetcher = (config: AxiosRequestConfig) => Promise<AxiosResponse>;
+
+/** Default safety cap on the number of fetched pages */
+const DEFAULT_MAX_PAGES = 1000;
+
+/**
+ * Parses an RFC 5988 `Link` header into a map of relation → URL.
+ *
+ * @param header - Raw `Link` header value
+ * @returns Map of relation names to URLs
+ *
+ * @example
+ * ```ts
+ * parseLinkHeader('<https://api/x?page=2>; rel="next", <https://api/x?page=9>; rel="last"');
+ * // { next: "https://api/x?page=2", last: "https://api/x?page=9" }
+ * ```
+ */
+export const parseLinkHeader = (header: unknown): Record<string, string> => {
+    if (typeof header !== "string" || header.trim() === "") {
+        return {};
+    }
+
+    const links: Record<string, string> = {};
+
+    for (const part of header.split(/,(?=\s*<)/)) {
+        const match = part.match(/<([^>]*)>(.*)/);
+        if (!match) continue;
+
+        const [, url, rest] = match;
+        const rel = rest.match(/rel\s*=\s*"?([^";]+)"?/i);
+        if (!rel) continue;
+
+        rel[1].trim().split(/\s+/).forEach(name => links[name.toLowerCase()] = url);
+    }
+
+    return links;
+}
+
+/**
+ * Default item extractor: arrays are treated as the page items.
+ */
+const defaultGetItems = (data: any): any[] => Array.isArray(data) ? data : [];
+
+/**
+ * Iterates over every item of a paginated resource.
+ *
+ * @param fetchPage - Performs the request for one page
+ * @param strategy - Pagination strategy
+ * @param opts - Validation, extraction and safety cap options
+ * @param label - Resource name used in progress logs
+ * @returns Async iterator over all items
+ */
+export async function* paginate<T = any>(
+    fetchPage: PageFetcher,
+    strategy: PaginationStrategy,
+    opts: PaginateOpts<T> = {},
+    label: string = "resource"
+): AsyncGenerator<T> {
+    const logger = LoggerFactory.GetLogger();
+
+    const {
+        schema,
+        getItems = defaultGetItems,
+        maxPages = DEFAULT_MAX_PAGES,
+        maxItems = Infinity,
+        request = {}
+    } = opts;
+
+    let offset = strategy.type === "offset" ? strategy.startOffset ?? 0 : 0;
+    let page = strategy.type === "page" ? strategy.startPage ?? 1 : 1;
+    let cursor: string | number | undefined = undefined;
+    let nextUrl: string | undefined = undefined;
+
+    let pageCount = 0;
+    let itemCount = 0;
+
+    while (true) {
+        if (pageCount >= maxPages) {
+            logger.warn(`Stopped paginating ${label} after reaching the ${maxPages} page limit`);
+            return;
+        }
+
+        // a page ending exactly at the limit doesn't need a request for the next one
+        if (itemCount >= maxItems) {
+            logger.warn(`Stopped paginating ${label} after reaching the ${maxItems} item limit`);
+            return;
+        }
+
+        const config: AxiosRequestConfig = { ...request };
+
+        switch (strategy.type) {
+            case "offset":
+                config.params = {
+                    ...request.params,
+                    [strategy.offsetParam ?? "offset"]: offset,
+                    [strategy.limitParam ?? "limit"]: strategy.limit
+                };
+                break;
+            case "page":
+                config.params = {
+                    ...request.params,
+                    [strategy.pageParam ?? "page"]: page,
+                    ...(strategy.pageSizeParam && strategy.pageSize !== undefined
+                        ? { [strategy.pageSizeParam]: strategy.pageSize }
+                        : {})
+                };
+                break;
+            case "cursor":
+                config.params = cursor === undefined
+                    ? request.params
+                    : { ...request.params, [strategy.cursorParam ?? "cursor"]: cursor };
+                break;
+            case "link":
+                if (nextUrl) {
+                    // the next link already carries every query parameter
+                    config.url = nextUrl;
+                    config.params = undefined;
+                }
+                break;
+        }
+
+        const response = await fetchPage(config);
+        const data = schema ? zParseUsing(schema, response.data, label) : response.data;
+        const items = getItems(data);
+
+        pageCount++;
+        logger.debug(`Fetched page ${pageCount} of ${label} (${items.length} items, ${itemCount + items.length} total)`);
+
+        for (const item of items) {
+            if (itemCount >= maxItems) {
+                logger.warn(`Stopped paginating ${label} after reaching the ${maxItems} item limit`);
+                return;
+            }
+
+            itemCount++;
+            yield item;
+        }
+
+        switch (strategy.type) {
+            case "offset":
+                if (items.length < strategy.limit) return;
+                offset += items.length;
+                break;
+            case "page":
+                if (items.length === 0) return;
+                if (strategy.pageSize !== undefined && items.length < strategy.pageSize) return;
+                page++;
+                break;
+            case "cursor": {
+                const next = strategy.getNextCursor(data, response);
+                if (next === null || next === undefined || next === "" || next === cursor) return;
+                cursor = next;
+                break;
+            }
+            case "link": {
+                const next = parseLinkHeader(response.headers?.["link"]).next;
+                if (!next || next === nextUrl) return;
+                nextUrl = next;
+                break;
+            }
+        }
+    }
+}
@@ -0,0 +1,266 @@
+import { isAxiosError, type AxiosResponse } from "axios";
+
+import { LoggerFactory } from "../logging/logger";
+import { sleep } from "../utils/util";
+import RetryPolicy from "./retryPolicy";
+
+/**
+ * Options for client-side rate limiting and concurrency control.
+ */
+export interface RateLimiterOpts {
+    /** Sustained request rate per second */
+    requestsPerSecond?: number;
+
+    /** Sustained request rate per minute */
+    requestsPerMinute?: number;
+
+    /** Bucket size allowing short bursts above the sustained rate (default: one second/minute worth of tokens) */
+    burst?: number;
+
+    /** Maximum number of requests in flight at once */
+    maxConcurrency?: number;
+
+    /** Pause automatically based on `X-RateLimit-Remaining`/`X-RateLimit-Reset` and `Retry-After` headers (default `true`) */
+    adaptive?: boolean;
+}
+
+/**
+ * Classic token bucket refilled continuously at a fixed rate.
+ */
+class TokenBucket {
+    #capacity: number;
+    #tokens: number;
+    #refillPerMs: number;
+    #lastRefill: number;
+
+    /**
+     * @param ratePerMs - Tokens added per millisecond
+     * @param capacity - Maximum number of stored tokens
+     */
+    constructor(ratePerMs: number, capacity: number) {
+        this.#refillPerMs = ratePerMs;
+        this.#capacity = Math.max(1, capacity);
+        this.#tokens = this.#capacity;
+        this.#lastRefill = Date.now();
+    }
+
+    /**
+     * Returns how long until a token is available, without taking it.
+     *
+     * @returns `0` if a token is available, otherwise milliseconds until one is
+     */
+    waitTime(): number {
+        const now = Date.now();
+        this.#tokens = Math.min(this.#capacity, this.#tokens + (now - this.#lastRefill) * this.#refillPerMs);
+        this.#lastRefill = now;
+
+        return this.#tokens >= 1 ? 0 : Math.ceil((1 - this.#tokens) / this.#refillPerMs);
+    }
+
+    /**
+     * Takes a token; only call after `waitTime()` returned `0`.
+     */
+    take() {
+        this.#tokens -= 1;
+    }
+}
+
+/**
+ * Per-client rate limiter combining token buckets and a max-in-flight cap.
+ *
+ * Requests are admitted in FIFO order. When adaptive mode is enabled the
+ * limiter also pauses admissions when the server reports an exhausted
+ * quota (`X-RateLimit-Remaining: 0`) or asks to back off (`Retry-After`).
+ *
+ * @example
+ * ```ts
+ * const limiter = new RateLimiter({ requestsPerSecond: 5, maxConcurrency: 4 });
+ *
+ * const response = await limiter.schedule(() => axios.get(url), url);
+ * ```
+ */
+export default class RateLimiter {
+    /** Token buckets that must all grant a token before a request starts */
+    #buckets: TokenBucket[] = [];
+
+    /** Maximum requests in flight */
+    #maxConcurrency: number;
+
+    /** Number of requests currently in flight */
+    #inFlight = 0;
+
+    /** Requests waiting for a concurrency slot */
+    #waiting: (() => void)[] = [];
+
+    /** Serializes token acquisition so requests are admitted in order */
+    #admission: Promise<void> = Promise.resolve();
+
+    /** Whether to react to rate limit response headers */
+    #adaptive: boolean;
+
+    /** Epoch millis until which no new requests are admitted */
+    #pausedUntil = 0;
+
+    /**
+     * Creates a rate limiter.
+     *
+     * @param opts - Rate and concurrency settings; unset limits are not enforced
+     */
+    constructor(opts: RateLimiterOpts = {}) {
+        const { requestsPerSecond, requestsPerMinute, burst, maxConcurrency, adaptive = true } = opts;
+
+        if (requestsPerSecond) {
+            this.#buckets.push(new TokenBucket(requestsPerSecond / 1000, burst ?? requestsPerSecond));
+        }
+
+        if (requestsPerMinute) {
+            this.#buckets.push(new TokenBucket(requestsPerMinute / 60000, burst ?? requestsPerMinute));
+        }
+
+        this.#maxConcurrency = maxConcurrency ?? Infinity;
+        this.#adaptive = adaptive;
+    }
+
+    /**
+     * Number of requests currently in flight.
+     */
+    get inFlight() {
+        return this.#inFlight;
+    }
+
+    /**
+     * Number of requests waiting for a concurrency slot.
+     */
+    get queued() {
+        return this.#waiting.length;
+    }
+
+    /**
+     * Runs a request once the rate and concurrency limits allow it.
+     *
+     * @param fn - Function performing the request
+     * @param label - Request description used in queue logs
+     * @returns Result of `fn`
+     */
+    async schedule<T>(fn: () => Promise<T>, label: string = "request"): Promise<T> {
+        await this.acquireSlot(label);
+
+        try {
+            const turn = this.#admission.then(() => this.waitForToken(label));
+            this.#admission = turn.catch(() => { });
+            await turn;
+
+            const result = await fn();
+            this.observe(result);
+            return result;
+        } catch (error: any) {
+            if (isAxiosError(error) && error.response) {
+                this.observe(error.response);
+            }
+            throw error;
+        } finally {
+            this.releaseSlot();
+        }
+    }
+
+    /**
+     * Pauses admissions until the given time.
+     *
+     * @param until - Epoch millis to resume at
+     */
+    pauseUntil(until: number) {
+        if (until > this.#pausedUntil) {
+            this.#pausedUntil = until;
+            LoggerFactory.GetLogger().debug(`Rate limiter paused for ${until - Date.now()}ms`);
+        }
+    }
+
+    /**
+     * Waits for a free concurrency slot.
+     */
+    private async acquireSlot(label: string) {
+        if (this.#inFlight < this.#maxConcurrency) {
+            this.#inFlight++;
+            return;
+        }
+
+        LoggerFactory.GetLogger().debug(
+            `Queued ${label} - ${this.#inFlight} in flight, ${this.#waiting.length + 1} waiting`
+        );
+
+        // the releasing request hands its slot over directly
+        await new Promise<void>(resolve => this.#waiting.push(resolve));
+    }
+
+    /**
+     * Releases a concurrency slot, handing it to the next waiter if any.
+     */
+    private releaseSlot() {
+        const next = this.#waiting.shift();
+        if (next) {
+            next();
+        } else {
+            this.#inFlight--;
+        }
+    }
+
+    /**
+     * Waits until every bucket has a token and any pause has elapsed, then
+     * takes one token from each bucket.
+     *
+     * Tokens are only taken once all buckets have one, so a bucket that forces
+     * a wait doesn't drain the others.
+     */
+    private async waitForToken(label: string) {
+        let logged = false;
+
+        while (true) {
+            const paused = this.#pausedUntil - Date.now();
+            if (paused > 0) {
+                await sleep(paused);
+                continue;
+            }
+
+            const wait = this.#buckets.reduce((max, bucket) => Math.max(max, bucket.waitTime()), 0);
+            if (wait === 0) {
+                this.#buckets.forEach(bucket => bucket.take());
+                return;
+            }
+
+            if (!logged) {
+                LoggerFactory.GetLogger().debug(`Throttled ${label} - next token in ${wait}ms`);
+                logged = true;
+            }
+
+            await sleep(wait);
+        }
+    }
+
+    /**
+     * Adapts to rate limit headers returned by the server.
+     */
+    private observe(response: unknown) {
+        if (!this.#adaptive) return;
+
+        const { status, headers } = (response ?? {}) as Partial<AxiosResponse>;
+        if (!headers) return;
+
+        if (status === 429 || status === 503) {
+            const retryAfter = RetryPolicy.ParseRetryAfter(headers["retry-after"]);
+            if (retryAfter !== undefined) {
+                this.pauseUntil(Date.now() + retryAfter);
+                return;
+            }
+        }
+
+        const remaining = headers["x-ratelimit-remaining"];
+        if (remaining === undefined || Number(remaining) > 0) return;
+
+        const reset = Number(headers["x-ratelimit-reset"]);
+        if (isNaN(reset) || reset <= 0) return;
+
+        // reset is either an epoch timestamp in seconds or a delay in seconds
+        const resetAt = reset > 1e9 ? reset * 1000 : Date.now() + reset * 1000;
+        this.pauseUntil(resetAt);
+    }
+}
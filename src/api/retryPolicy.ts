@@ -0,0 +1,224 @@
+import { isAxiosError } from "axios";
+
+/**
+ * Jitter strategies applied to computed backoff delays.
+ *
+ * - `"none"`: use the exact exponential delay
+ * - `"full"`: random delay between 0 and the exponential delay
+ * - `"equal"`: half the exponential delay plus a random half
+ */
+export const RetryJitter = ["none", "full", "equal"] as const;
+export type RetryJitter = typeof RetryJitter[number];
+
+/**
+ * Options controlling when and how failed requests are retried.
+ */
+export interface RetryPolicyOpts {
+    /** Maximum number of retries after the initial attempt (0 disables retrying) */
+    maxRetries: number;
+
+    /** Delay before the first retry, doubled on every subsequent retry */
+    baseDelayMs: number;
+
+    /** Upper bound for a single computed backoff delay */
+    maxDelayMs: number;
+
+    /** Jitter strategy applied to the computed backoff delay */
+    jitter: RetryJitter;
+
+    /** HTTP statuses that are considered transient */
+    retryableStatuses: number[];
+
+    /**
+     * HTTP methods retried on any transient failure (default: the idempotent
+     * methods). Other methods, such as `POST` and `PATCH`, are only retried on
+     * 429/503 responses with a `Retry-After` header, since the failed attempt
+     * may already have taken effect; add them here to retry them regardless.
+     */
+    retryableMethods: string[];
+
+    /** Network error codes (e.g. `ECONNRESET`) that are considered transient */
+    retryableErrorCodes: string[];
+
+    /** Whether to honor the `Retry-After` header on 429 and 503 responses */
+    respectRetryAfter: boolean;
+
+    /** Total time budget per request, including every attempt and delay */
+    maxElapsedMs: number;
+}
+
+/**
+ * Default retry behaviour used by {@link ApiCollectorClient}.
+ */
+export const DefaultRetryPolicyOpts: RetryPolicyOpts = {
+    maxRetries: 10,
+    baseDelayMs: 500,
+    maxDelayMs: 30 * 1000,
+    jitter: "full",
+    retryableStatuses: [408, 425, 429, 500, 502, 503, 504],
+    retryableMethods: ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"],
+    retryableErrorCodes: [
+        "ECONNABORTED",
+        "ECONNRESET",
+        "ECONNREFUSED",
+        "EPIPE",
+        "ETIMEDOUT",
+        "ENOTFOUND",
+        "EAI_AGAIN",
+        "ERR_NETWORK"
+    ],
+    respectRetryAfter: true,
+    maxElapsedMs: 5 * 60 * 1000
+};
+
+/**
+ * Statuses for which a `Retry-After` header is honored.
+ */
+const RetryAfterStatuses = [429, 503];
+
+/**
+ * Decides whether a failed request should be retried and how long to wait.
+ *
+ * Subclass and override {@link isRetryable} or {@link getDelay} to plug in
+ * API-specific behaviour, then pass the instance to the client constructor.
+ *
+ * @example
+ * ```ts
+ * const policy = new RetryPolicy({ maxRetries: 3, jitter: "none" });
+ *
+ * const delay = policy.nextDelay(error, 1, elapsedMs);
+ * if (delay === null) throw error;
+ * ```
+ */
+export default class RetryPolicy {
+    /** Resolved policy options */
+    readonly #opts: RetryPolicyOpts;
+
+    /**
+     * Creates a retry policy.
+     *
+     * @param opts - Overrides applied on top of {@link DefaultRetryPolicyOpts}
+     */
+    constructor(opts: Partial<RetryPolicyOpts> = {}) {
+        this.#opts = { ...DefaultRetryPolicyOpts, ...opts };
+    }
+
+    /**
+     * Returns the resolved policy options.
+     */
+    get opts(): Readonly<RetryPolicyOpts> {
+        return this.#opts;
+    }
+
+    /**
+     * Determines whether an error represents a transient failure.
+     *
+     * Only errors carrying the original request config can be replayed, and
+     * requests with methods missing from `retryableMethods` only when the
+     * server asked to retry later (429/503 with `Retry-After`).
+     *
+     * @param error - Error thrown by the request
+     * @returns `true` if the request may be retried
+     */
+    isRetryable(error: unknown): boolean {
+        if (!isAxiosError(error) || !error.config) {
+            return false;
+        }
+
+        const status = error.response?.status;
+        const method = (error.config.method ?? "GET").toUpperCase();
+
+        if (!this.#opts.retryableMethods.some(retryable => retryable.toUpperCase() === method)) {
+            return status !== undefined
+                && RetryAfterStatuses.includes(status)
+                && this.#opts.retryableStatuses.includes(status)
+                && RetryPolicy.ParseRetryAfter(error.response?.headers?.["retry-after"]) !== undefined;
+        }
+
+        if (status !== undefined) {
+            return this.#opts.retryableStatuses.includes(status);
+        }
+
+        return error.code !== undefined && this.#opts.retryableErrorCodes.includes(error.code);
+    }
+
+    /**
+     * Computes the delay before the given retry attempt.
+     *
+     * Uses the `Retry-After` header when present and enabled, otherwise an
+     * exponential backoff capped at `maxDelayMs` with jitter applied.
+     *
+     * @param error - Error thrown by the previous attempt
+     * @param attempt - 1-based retry attempt number
+     * @returns Delay in milliseconds
+     */
+    getDelay(error: unknown, attempt: number): number {
+        if (this.#opts.respectRetryAfter && isAxiosError(error)) {
+            const status = error.response?.status;
+            if (status !== undefined && RetryAfterStatuses.includes(status)) {
+                const retryAfter = RetryPolicy.ParseRetryAfter(error.response?.headers?.["retry-after"]);
+                if (retryAfter !== undefined) {
+                    return retryAfter;
+                }
+            }
+        }
+
+        const { baseDelayMs, maxDelayMs, jitter } = this.#opts;
+        const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+
+        switch (jitter) {
+            case "full": return Math.floor(Math.random() * backoff);
+            case "equal": return Math.floor(backoff / 2 + Math.random() * backoff / 2);
+            default: return backoff;
+        }
+    }
+
+    /**
+     * Returns the delay before the next retry, or `null` when the request
+     * should not be retried (not retryable, out of retries, or the delay
+     * would exceed the remaining time budget).
+     *
+     * @param error - Error thrown by the previous attempt
+     * @param attempt - 1-based retry attempt number
+     * @param elapsedMs - Time spent on the request so far
+     * @returns Delay in milliseconds, or `null` to give up
+     */
+    nextDelay(error: unknown, attempt: number, elapsedMs: number): number | null {
+        if (attempt > this.#opts.maxRetries || !this.isRetryable(error)) {
+            return null;
+        }
+
+        const delay = this.getDelay(error, attempt);
+        if (elapsedMs + delay > this.#opts.maxElapsedMs) {
+            return null;
+        }
+
+        return delay;
+    }
+
+    /**
+     * Parses a `Retry-After` header value.
+     *
+     * Supports both delay-seconds and HTTP-date formats.
+     *
+     * @param value - Raw header value
+     * @returns Delay in milliseconds, or `undefined` if missing or invalid
+     */
+    static ParseRetryAfter(value: unknown): number | undefined {
+        if (value === undefined || value === null || value === "") {
+            return undefined;
+        }
+
+        const raw = String(value).trim();
+        if (/^\d+$/.test(raw)) {
+            return parseInt(raw) * 1000;
+        }
+
+        const date = Date.parse(raw);
+        if (isNaN(date)) {
+            return undefined;
+        }
+
+        return Math.max(0, date - Date.now());
+    }
+}
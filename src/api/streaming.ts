@@ -0,0 +1,379 @@
+import { StringDecoder } from "string_decoder";
+import z from "zod";
+
+import { SchemaValidationError } from "../errors";
+import { LoggerFactory } from "../logging/logger";
+
+/**
+ * Supported streamed body formats.
+ *
+ * `auto` picks NDJSON when the response `Content-Type` says so
+ * (`application/x-ndjson`, `application/jsonl`, ...) and JSON otherwise.
+ */
+export const StreamFormat = ["auto", "json", "ndjson"] as const;
+export type StreamFormat = typeof StreamFormat[number];
+
+/**
+ * Options for streaming the items of a response body.
+ */
+export interface StreamOpts<T = any> {
+    /** Body format (default `"auto"`) */
+    format?: StreamFormat;
+
+    /**
+     * Object keys leading to the array to stream in a JSON body, e.g. `["data"]`
+     * for `{ "data": [...] }` or `"result.items"`. Defaults to a top-level array.
+     */
+    path?: string | string[];
+
+    /** Optional Zod schema validating every item */
+    schema?: z.ZodType<T>;
+
+    /** What to do with items failing `schema`: throw (default) or log and skip */
+    onInvalid?: "throw" | "skip";
+}
+
+/**
+ * Stack frame of the JSON scanner.
+ */
+interface Frame {
+    kind: "object" | "array";
+    /** Most recent key read in an object */
+    key?: string;
+    /** Whether the next string in an object is a key */
+    expectingKey?: boolean;
+}
+
+/**
+ * Incremental parser extracting the elements of one JSON array from a
+ * chunked body without holding the whole body in memory.
+ *
+ * Only the element currently being read is buffered. Everything outside
+ * the target array is scanned and discarded.
+ *
+ * @example
+ * ```ts
+ * const parser = new JsonArrayParser(["data"]);
+ * parser.push('{"data":[{"id":1},{"i');   // → [{ id: 1 }]
+ * parser.push('d":2}]}');                 // → [{ id: 2 }]
+ * parser.end();
+ * ```
+ */
+export class JsonArrayParser {
+    /** Object keys leading to the target array */
+    #path: string[];
+
+    /** Containers enclosing the scan position, outside the target array */
+    #stack: Frame[] = [];
+
+    /** Whether the scan position is inside a string */
+    #inString = false;
+
+    /** Whether the previous character was an unescaped backslash */
+    #escaped = false;
+
+    /** Raw text of the object key being read, if any */
+    #key: string | null = null;
+
+    /** Raw text of the element being read, while inside the target array */
+    #element: string | null = null;
+
+    /** Nesting depth inside the current element */
+    #depth = 0;
+
+    /** Whether the target array was found / fully read */
+    #state: "searching" | "reading" | "done" = "searching";
+
+    /**
+     * @param path - Object keys leading to the target array (empty for a top-level array)
+     */
+    constructor(path: string[] = []) {
+        this.#path = path;
+    }
+
+    /**
+     * Scans a chunk of the body.
+     *
+     * @param chunk - Next chunk of body text
+     * @returns Elements completed by this chunk
+     * @throws SyntaxError If an element is not valid JSON
+     */
+    push(chunk: string): unknown[] {
+        const items: unknown[] = [];
+        let index = 0;
+
+        while (index < chunk.length && this.#state !== "done") {
+            index = this.#state === "reading"
+                ? this.readElements(chunk, index, items)
+                : this.scan(chunk, index);
+        }
+
+        return items;
+    }
+
+    /**
+     * Signals the end of the body.
+     *
+     * @throws SyntaxError If the target array was not found or not closed
+     */
+    end() {
+        if (this.#state === "searching") {
+            const where = this.#path.length > 0 ? `at '${this.#path.join(".")}'` : "at the top level";
+            throw new SyntaxError(`Response body has no JSON array ${where}`);
+        }
+
+        if (this.#state === "reading") {
+            throw new SyntaxError("Response body ended inside a JSON array");
+        }
+    }
+
+    /**
+     * Scans a chunk outside the target array, from `start` until the target
+     * array opens or the chunk ends.
+     *
+     * @returns Index to continue at
+     */
+    private scan(chunk: string, start: number): number {
+        // keys are appended once per key or chunk, not per character
+        let keyStart = start;
+
+        for (let i = start; i < chunk.length; i++) {
+            const char = chunk[i];
+            const top = this.#stack[this.#stack.length - 1];
+
+            if (this.#inString) {
+                if (this.#escaped) {
+                    this.#escaped = false;
+                } else if (char === "\\") {
+                    this.#escaped = true;
+                } else if (char === "\"") {
+                    this.#inString = false;
+                    if (this.#key !== null && top) {
+                        top.key = JSON.parse(`"${this.#key + chunk.slice(keyStart, i)}"`);
+                        this.#key = null;
+                    }
+                }
+                continue;
+            }
+
+            switch (char) {
+                case "\"":
+                    this.#inString = true;
+                    if (top?.kind === "object" && top.expectingKey) {
+                        this.#key = "";
+                        keyStart = i + 1;
+                    }
+                    break;
+                case "{":
+                    this.#stack.push({ kind: "object", expectingKey: true });
+                    break;
+                case "[":
+                    if (this.isTargetPosition()) {
+                        this.#state = "reading";
+                        this.#element = "";
+                        return i + 1;
+                    }
+                    this.#stack.push({ kind: "array" });
+                    break;
+                case "}":
+                case "]":
+                    this.#stack.pop();
+                    break;
+                case ":":
+                    if (top) top.expectingKey = false;
+                    break;
+                case ",":
+                    if (top?.kind === "object") top.expectingKey = true;
+                    break;
+            }
+        }
+
+        if (this.#key !== null) this.#key += chunk.slice(keyStart);
+        return chunk.length;
+    }
+
+    /**
+     * Reads elements of the target array from `start` until it closes or the
+     * chunk ends. Only depth and string state are tracked per character; element
+     * text is appended as slices once per element or chunk.
+     *
+     * @returns Index to continue at
+     */
+    private readElements(chunk: string, start: number, items: unknown[]): number {
+        let elementStart = start;
+
+        for (let i = start; i < chunk.length; i++) {
+            const char = chunk[i];
+
+            if (this.#inString) {
+                if (this.#escaped) {
+                    this.#escaped = false;
+                } else if (char === "\\") {
+                    this.#escaped = true;
+                } else if (char === "\"") {
+                    this.#inString = false;
+                }
+                continue;
+            }
+
+            if (this.#depth === 0 && (char === "," || char === "]")) {
+                const text = (this.#element + chunk.slice(elementStart, i)).trim();
+                if (text) items.push(JSON.parse(text));
+
+                this.#element = "";
+                elementStart = i + 1;
+
+                if (char === "]") {
+                    this.#state = "done";
+                    return i + 1;
+                }
+                continue;
+            }
+
+            switch (char) {
+                case "\"": this.#inString = true; break;
+                case "{": case "[": this.#depth++; break;
+                case "}": case "]": this.#depth--; break;
+            }
+        }
+
+        this.#element += chunk.slice(elementStart);
+        return chunk.length;
+    }
+
+    /**
+     * Whether an array opened at the current position is the target array.
+     */
+    private isTargetPosition(): boolean {
+        return this.#stack.length === this.#path.length &&
+            this.#stack.every((frame, i) => frame.kind === "object" && frame.key === this.#path[i]);
+    }
+}
+
+/**
+ * Decides whether a body is NDJSON from the requested format and its content type.
+ */
+const isNdjson = (format: StreamFormat, contentType: string | undefined): boolean => {
+    if (format !== "auto") return format === "ndjson";
+    return /ndjson|jsonl|json-seq|jsonlines/i.test(contentType ?? "");
+}
+
+/**
+ * Yields raw items from a chunked JSON array or NDJSON body.
+ */
+async function* parseChunks(
+    chunks: AsyncIterable<Buffer | string>,
+    ndjson: boolean,
+    path: string[]
+): AsyncGenerator<unknown> {
+    const decoder = new StringDecoder("utf-8");
+
+    if (ndjson) {
+        let pending = "";
+
+        for await (const chunk of chunks) {
+            pending += typeof chunk === "string" ? chunk : decoder.write(chunk);
+
+            const lines = pending.split("\n");
+            pending = lines.pop()!;
+
+            for (const line of lines) {
+                if (line.trim()) yield JSON.parse(line);
+            }
+        }
+
+        pending += decoder.end();
+        if (pending.trim()) yield JSON.parse(pending);
+        return;
+    }
+
+    const parser = new JsonArrayParser(path);
+
+    for await (const chunk of chunks) {
+        yield* parser.push(typeof chunk === "string" ? chunk : decoder.write(chunk));
+    }
+
+    yield* parser.push(decoder.end());
+    parser.end();
+}
+
+/**
+ * Returns the items of an already-buffered body (e.g. a replayed fixture).
+ */
+const bufferedItems = (data: any, ndjson: boolean, path: string[]): unknown[] | undefined => {
+    if (typeof data === "string" || Buffer.isBuffer(data) || typeof data?.[Symbol.asyncIterator] === "function") {
+        return undefined;
+    }
+
+    if (ndjson || path.length === 0) {
+        return Array.isArray(data) ? data : [data];
+    }
+
+    const items = path.reduce((value, key) => value?.[key], data);
+    if (!Array.isArray(items)) {
+        throw new SyntaxError(`Response body has no JSON array at '${path.join(".")}'`);
+    }
+    return items;
+}
+
+/**
+ * Iterates over the items of a streamed response body.
+ *
+ * Accepts a Node stream (`responseType: "stream"`), a string or Buffer, or
+ * an already-parsed body, so replayed fixtures and mocks work unchanged.
+ *
+ * @param data - Response body
+ * @param contentType - Response `Content-Type`, used to detect NDJSON
+ * @param opts - Format, array location and validation options
+ * @param label - Resource name used in logs and errors
+ * @returns Async iterator over (validated) items
+ *
+ * @throws SyntaxError If the body is not valid JSON / NDJSON
+ * @throws SchemaValidationError If an item fails validation and `onInvalid` is `"throw"`
+ */
+export async function* streamItems<T = any>(
+    data: any,
+    contentType: string | undefined,
+    opts: StreamOpts<T> = {},
+    label: string = "resource"
+): AsyncGenerator<T> {
+    const logger = LoggerFactory.GetLogger();
+    const { format = "auto", schema, onInvalid = "throw" } = opts;
+    const path = typeof opts.path === "string" ? opts.path.split(".") : opts.path ?? [];
+    const ndjson = isNdjson(format, contentType);
+
+    const source = bufferedItems(data, ndjson, path)
+        ?? parseChunks(typeof data === "string" || Buffer.isBuffer(data) ? [data] as any : data, ndjson, path);
+
+    let index = 0;
+    let skipped = 0;
+
+    for await (const item of source as AsyncIterable<unknown>) {
+        const current = index++;
+
+        if (!schema) {
+            yield item as T;
+            continue;
+        }
+
+        const result = schema.safeParse(item);
+        if (result.success) {
+            yield result.data;
+            continue;
+        }
+
+        const error = new SchemaValidationError(
+            new z.ZodError(result.error.issues.map(issue => ({ ...issue, path: [current, ...issue.path] }))),
+            { route: label }
+        );
+
+        if (onInvalid === "throw") {
+            throw error;
+        }
+
+        skipped++;
+        logger.warn(`Skipping invalid item ${current} of ${label}: ${error.paths.join(", ")}`);
+    }
+
+    logger.debug(`Streamed ${index} items of ${label}${skipped > 0 ? ` (${skipped} invalid skipped)` : ""}`);
+}
@@ -0,0 +1,122 @@
+import * as fs from "fs";
+import * as https from "https";
+import * as tls from "tls";
+import type { ClientRequestArgs } from "http";
+import type { Duplex } from "stream";
+
+import { ConfigurationError } from "../errors";
+import { LoggerFactory } from "../logging/logger";
+
+/**
+ * Per-client TLS settings for HTTPS APIs.
+ */
+export interface TlsOpts {
+    /** Path to a PEM CA bundle trusted in addition to the system CAs */
+    caPath?: string;
+
+    /** Path to a PEM client certificate for mTLS */
+    certPath?: string;
+
+    /** Path to the PEM private key matching `certPath` */
+    keyPath?: string;
+
+    /** Passphrase for an encrypted private key */
+    passphrase?: string;
+
+    /**
+     * SHA-256 certificate fingerprint(s) to pin, hex with or without colons.
+     * A matching certificate is trusted even when self-signed; any other
+     * certificate is rejected.
+     */
+    fingerprints?: string[];
+
+    /** Disable certificate verification entirely. Logs a warning for every client. */
+    insecure?: boolean;
+}
+
+/**
+ * Normalizes a fingerprint to upper-case hex without separators.
+ */
+const normalizeFingerprint = (fingerprint: string) => fingerprint.replace(/[^a-fA-F0-9]/g, "").toUpperCase();
+
+/**
+ * HTTPS agent that trusts servers by certificate fingerprint.
+ *
+ * The socket is only handed to the request once the peer certificate has
+ * been checked, so nothing is sent to a server with an unexpected certificate.
+ */
+class PinnedHttpsAgent extends https.Agent {
+    /** Accepted normalized SHA-256 fingerprints */
+    #fingerprints: string[];
+
+    constructor(options: https.AgentOptions, fingerprints: string[]) {
+        super({ ...options, rejectUnauthorized: false });
+        this.#fingerprints = fingerprints.map(normalizeFingerprint);
+    }
+
+    override createConnection(
+        options: ClientRequestArgs,
+        callback?: (err: Error | null, stream: Duplex) => void
+    ): Duplex | null | undefined {
+        const socket = tls.connect({
+            ...(options as tls.ConnectionOptions),
+            servername: (options as tls.ConnectionOptions).servername ?? options.host ?? undefined,
+            rejectUnauthorized: false
+        });
+
+        socket.once("error", (err) => callback?.(err, socket));
+        socket.once("secureConnect", () => {
+            const fingerprint = normalizeFingerprint(socket.getPeerCertificate()?.fingerprint256 ?? "");
+
+            if (!this.#fingerprints.includes(fingerprint)) {
+                const err = new Error(`Certificate fingerprint ${fingerprint || "(none)"} for ${options.host} does not match any pinned fingerprint`);
+                socket.destroy(err);
+                return;
+            }
+
+            callback?.(null, socket);
+        });
+
+        return undefined;
+    }
+}
+
+/**
+ * Builds an HTTPS agent from {@link TlsOpts}.
+ *
+ * @param opts - TLS settings
+ * @param label - Client description used in log messages
+ * @returns HTTPS agent to pass to axios as `httpsAgent`
+ *
+ * @throws ConfigurationError If only one of `certPath`/`keyPath` is provided
+ * @throws Error If a certificate, key or CA file cannot be read
+ */
+export const createHttpsAgent = (opts: TlsOpts, label: string = "API client"): https.Agent => {
+    const { caPath, certPath, keyPath, passphrase, fingerprints, insecure } = opts;
+
+    if (Boolean(certPath) !== Boolean(keyPath)) {
+        throw new ConfigurationError("TLS client certificate and key must be provided together", ["certPath", "keyPath"]);
+    }
+
+    const agentOpts: https.AgentOptions = {
+        keepAlive: true,
+        ...(caPath ? { ca: [...tls.rootCertificates, fs.readFileSync(caPath, "utf-8")] } : {}),
+        ...(certPath && keyPath
+            ? { cert: fs.readFileSync(certPath), key: fs.readFileSync(keyPath), passphrase }
+            : {})
+    };
+
+    if (insecure) {
+        LoggerFactory.GetLogger().warn(
+            `🚨 TLS CERTIFICATE VERIFICATION IS DISABLED for ${label} - connections can be intercepted. Do not use this in production.`
+        );
+        return new https.Agent({ ...agentOpts, rejectUnauthorized: false });
+    }
+
+    if (fingerprints && fingerprints.length > 0) {
+        LoggerFactory.GetLogger().debug(`Pinning ${fingerprints.length} TLS certificate fingerprint(s) for ${label}`);
+        return new PinnedHttpsAgent(agentOpts, fingerprints);
+    }
+
+    return new https.Agent(agentOpts);
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import AWS3UploadClient from '../clients/aws3UploadClient';
+import CloudUploadClientCollection from '../cloudUploadClientCollection';
+import { zCloudConfig } from '../../config/modules/cloud';
+import { LoggerFactory } from '../../logging/logger';
+
+describe('AWS3UploadClient with an S3-compatible endpoint', () => {
+  const requests: { method: string, url: string, body: string }[] = [];
+  let server: http.Server;
+  let endpoint: string;
+
+  beforeAll(async () => {
+    if (!LoggerFactory.HasLogger()) {
+      LoggerFactory.CreateLogger('error').mute();
+    }
+
+    // minimal stand-in answering PutObject like MinIO would
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        requests.push({ method: req.method!, url: req.url!, body });
+        res.writeHead(200, { ETag: '"abc"' }).end();
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  it('should upload to the custom endpoint with path-style addressing', async () => {
+    const client = await AWS3UploadClient.Create('collector', 'us-east-1', 'minio', 'minio123', {
+      endpoint,
+      forcePathStyle: true
+    });
+
+    await client.uploadFile('{"ok":true}', { filePath: 'exports/data.json', serviceLocation: 'global', serviceName: 'svc' });
+    client.Disconnect();
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].method).toBe('PUT');
+    expect(requests[0].url.split('?')[0]).toBe('/collector/exports/data.json');
+    expect(requests[0].body).toBe('{"ok":true}');
+    expect(client.name).toBe(`S3 (${new URL(endpoint).host})`);
+  });
+
+  it('should plumb the endpoint settings through the collection builders', async () => {
+    const collection = await CloudUploadClientCollection.FromConfig(zCloudConfig.parse({
+      CLOUD_PROVIDERS: 'aws_s3',
+      AWS_ACCESS_KEY_ID: 'minio',
+      AWS_SECRET_ACCESS_KEY: 'minio123',
+      AWS_S3_BUCKET_NAME: 'from-config',
+      AWS_S3_ENDPOINT: endpoint
+    }));
+
+    await collection.upload('hello', { filePath: 'a/b.txt', serviceLocation: 'global', serviceName: 'svc' });
+    collection.DisconnectClients();
+
+    expect(requests.at(-1)!.url.split('?')[0]).toBe('/from-config/a/b.txt');
+  });
+
+  it('should not require a region when an endpoint is configured', () => {
+    const config = zCloudConfig.parse({
+      CLOUD_PROVIDERS: 'aws_s3',
+      AWS_ACCESS_KEY_ID: 'minio',
+      AWS_SECRET_ACCESS_KEY: 'minio123',
+      AWS_S3_BUCKET_NAME: 'collector',
+      AWS_S3_ENDPOINT: endpoint,
+      AWS_S3_TLS_INSECURE: 'yes'
+    });
+
+    expect(config.AWS_REGION).toBeUndefined();
+    expect(config.AWS_S3_FORCE_PATH_STYLE).toBeUndefined();
+    expect(config.AWS_S3_TLS_INSECURE).toBe(true);
+
+    expect(() => zCloudConfig.parse({
+      CLOUD_PROVIDERS: 'aws_s3',
+      AWS_ACCESS_KEY_ID: 'minio',
+      AWS_SECRET_ACCESS_KEY: 'minio123',
+      AWS_S3_BUCKET_NAME: 'collector',
+      AWS_S3_ENDPOINT: 'not a url'
+    })).toThrow();
+  });
+});
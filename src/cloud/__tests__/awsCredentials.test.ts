@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'bun:test';
+import { awsCredentialsFromConfig, createAwsCredentials } from '../clients/awsCredentials';
+import { zCloudConfig } from '../../config/modules/cloud';
+
+const base = {
+  CLOUD_PROVIDERS: 'aws_s3',
+  AWS_S3_BUCKET_NAME: 'bucket',
+  AWS_REGION: 'eu-west-1'
+};
+
+const issuesFor = (input: Record<string, string>) => {
+  const result = zCloudConfig.safeParse({ ...base, ...input });
+  return result.success ? [] : result.error.issues.map(issue => issue.path.join('.'));
+};
+
+describe('AWS credentials', () => {
+  describe('config validation', () => {
+    it('should keep requiring static keys by default', () => {
+      expect(issuesFor({})).toEqual(['AWS_SECRET_ACCESS_KEY', 'AWS_ACCESS_KEY_ID']);
+    });
+
+    it('should only require the fields of the chosen mode', () => {
+      expect(issuesFor({ AWS_AUTH_MODE: 'default_chain' })).toEqual([]);
+      expect(issuesFor({ AWS_AUTH_MODE: 'profile' })).toEqual(['AWS_PROFILE']);
+      expect(issuesFor({ AWS_AUTH_MODE: 'profile', AWS_PROFILE: 'collector' })).toEqual([]);
+      expect(issuesFor({ AWS_AUTH_MODE: 'assume_role' })).toEqual(['AWS_ROLE_ARN']);
+    });
+
+    it('should validate role settings', () => {
+      expect(issuesFor({ AWS_AUTH_MODE: 'assume_role', AWS_ROLE_ARN: 'not-an-arn' })).toContain('AWS_ROLE_ARN');
+      expect(issuesFor({
+        AWS_AUTH_MODE: 'assume_role',
+        AWS_ROLE_ARN: 'arn:aws:iam::123456789012:role/upload',
+        AWS_ROLE_DURATION_SECONDS: '60'
+      })).toEqual(['AWS_ROLE_DURATION_SECONDS']);
+    });
+  });
+
+  describe('awsCredentialsFromConfig', () => {
+    it('should build assume-role settings with the best available source', () => {
+      const config = zCloudConfig.parse({
+        ...base,
+        AWS_AUTH_MODE: 'assume_role',
+        AWS_ROLE_ARN: 'arn:aws:iam::123456789012:role/upload',
+        AWS_ROLE_EXTERNAL_ID: 'inventory',
+        AWS_ROLE_SESSION_NAME: 'collector-proxmox',
+        AWS_PROFILE: 'ops'
+      });
+
+      expect(awsCredentialsFromConfig(config)).toEqual({
+        mode: 'assume_role',
+        roleArn: 'arn:aws:iam::123456789012:role/upload',
+        externalId: 'inventory',
+        sessionName: 'collector-proxmox',
+        durationSeconds: undefined,
+        source: { mode: 'profile', profile: 'ops' }
+      });
+    });
+
+    it('should map static keys', () => {
+      const config = zCloudConfig.parse({ ...base, AWS_ACCESS_KEY_ID: 'id', AWS_SECRET_ACCESS_KEY: 'secret' });
+
+      expect(awsCredentialsFromConfig(config)).toEqual({
+        mode: 'static',
+        accessKeyId: 'id',
+        secretAccessKey: 'secret',
+        sessionToken: undefined
+      });
+    });
+  });
+
+  describe('createAwsCredentials', () => {
+    it('should return static identities and lazy providers', () => {
+      expect(createAwsCredentials({ mode: 'static', accessKeyId: 'id', secretAccessKey: 'secret' }))
+        .toEqual({ accessKeyId: 'id', secretAccessKey: 'secret' });
+
+      expect(typeof createAwsCredentials({ mode: 'default_chain' })).toBe('function');
+      expect(typeof createAwsCredentials({ mode: 'profile', profile: 'ops' })).toBe('function');
+      expect(typeof createAwsCredentials({
+        mode: 'assume_role',
+        roleArn: 'arn:aws:iam::123456789012:role/upload',
+        source: { mode: 'static', accessKeyId: 'id', secretAccessKey: 'secret' }
+      }, 'eu-west-1')).toBe('function');
+    });
+  });
+});
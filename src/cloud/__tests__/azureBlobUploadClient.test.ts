@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'bun:test';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { Readable } from 'stream';
+import AzureBlobUploadClient, { azureCredentialsFromConfig } from '../clients/azureBlobUploadClient';
+import CloudUploadClientCollection from '../cloudUploadClientCollection';
+import { zCloudConfig } from '../../config/modules/cloud';
+import { UploadError } from '../../errors';
+import { LoggerFactory } from '../../logging/logger';
+
+// Azurite's well-known development account
+const account = 'devstoreaccount1';
+const accountKey = 'Eby8vdM02xNOcqFlqUwJPLlmEtlCDXJ1OUzFT50uSRZ6IFsuFq2UVErCz4I6tq/K1SZFPTOtr/KBHBeksoGMGw==';
+
+describe('AzureBlobUploadClient', () => {
+  const requests: { method: string, url: string, headers: http.IncomingHttpHeaders, body: string }[] = [];
+  let server: http.Server;
+  let endpoint: string;
+  let failWith: number | undefined;
+
+  beforeAll(async () => {
+    if (!LoggerFactory.HasLogger()) {
+      LoggerFactory.CreateLogger('error').mute();
+    }
+
+    // minimal stand-in answering blob uploads like Azurite would
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        requests.push({ method: req.method!, url: req.url!, headers: req.headers, body });
+        if (failWith) {
+          res.writeHead(failWith, { 'x-ms-error-code': 'ServerBusy' }).end();
+          return;
+        }
+        res.writeHead(201, { ETag: '"0x1"', 'x-ms-request-server-encrypted': 'true' }).end();
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/${account}`;
+  });
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  beforeEach(() => {
+    requests.length = 0;
+    failWith = undefined;
+  });
+
+  it('should upload small payloads in a single request', async () => {
+    const client = await AzureBlobUploadClient.Create('collector', { mode: 'shared_key', accountName: account, accountKey }, { endpoint });
+
+    await client.uploadFile('{"ok":true}', { filePath: 'exports/data.json', serviceLocation: 'global', serviceName: 'svc' });
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].method).toBe('PUT');
+    expect(requests[0].url).toBe(`/${account}/collector/exports/data.json`);
+    expect(requests[0].headers['x-ms-blob-type']).toBe('BlockBlob');
+    expect(requests[0].headers['authorization']).toStartWith(`SharedKey ${account}:`);
+    expect(requests[0].body).toBe('{"ok":true}');
+    expect(client.name).toBe(`Azure Blob (${account})`);
+  });
+
+  it('should stage blocks and commit them for large payloads and streams', async () => {
+    const client = await AzureBlobUploadClient.Create('collector', { mode: 'sas', accountName: account, sasToken: '?sv=2024&sig=abc' }, {
+      endpoint,
+      thresholdBytes: 8,
+      blockSizeBytes: 4,
+      concurrency: 2
+    });
+
+    await client.uploadFile('0123456789', { filePath: 'big.txt', serviceLocation: 'global', serviceName: 'svc' });
+
+    const blocks = requests.filter(r => r.url.includes('comp=block&'));
+    expect(blocks.map(r => r.body).sort()).toEqual(['0123', '4567', '89']);
+    expect(requests.at(-1)!.url).toContain('comp=blocklist');
+    expect(requests.every(r => r.url.includes('sig=abc'))).toBe(true);
+
+    requests.length = 0;
+    await client.uploadFile(Readable.from(['ab', 'cdef', 'g']), { filePath: 'stream.txt', serviceLocation: 'global', serviceName: 'svc' });
+
+    expect(requests.filter(r => r.url.includes('comp=block&')).map(r => r.body).join('')).toBe('abcdefg');
+    expect(requests.at(-1)!.url).toContain('comp=blocklist');
+  });
+
+  it('should report rejected uploads as upload errors', async () => {
+    const client = await AzureBlobUploadClient.Create('collector', { mode: 'shared_key', accountName: account, accountKey }, { endpoint });
+    failWith = 403;
+
+    const error = await client.uploadFile('x', { filePath: 'denied.json', serviceLocation: 'global', serviceName: 'svc' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(UploadError);
+    expect(error.status).toBe(403);
+    expect(error.retryable).toBe(false);
+    expect(error.route).toBe(`${endpoint}/collector/denied.json`);
+  });
+
+  it('should be built from config', async () => {
+    const config = zCloudConfig.parse({
+      CLOUD_PROVIDERS: 'azure_blob',
+      AZURE_STORAGE_CONTAINER: 'from-config',
+      AZURE_STORAGE_ACCOUNT: account,
+      AZURE_STORAGE_ACCOUNT_KEY: accountKey,
+      AZURE_STORAGE_ENDPOINT: endpoint
+    });
+    const collection = await CloudUploadClientCollection.FromConfig(config);
+
+    await collection.upload('hello', { filePath: 'a/b.txt', serviceLocation: 'global', serviceName: 'svc' });
+
+    expect(requests.map(r => r.url)).toEqual([`/${account}/from-config/a/b.txt`]);
+  });
+
+  describe('config', () => {
+    const issuesFor = (input: Record<string, string>) => {
+      const result = zCloudConfig.safeParse({ CLOUD_PROVIDERS: 'azure_blob', ...input });
+      return result.success ? [] : result.error.issues.map(issue => issue.path.join('.'));
+    };
+
+    it('should require a container and one way to authenticate', () => {
+      expect(issuesFor({})).toEqual(['AZURE_STORAGE_CONTAINER', 'AZURE_STORAGE_CONNECTION_STRING']);
+      expect(issuesFor({ AZURE_STORAGE_CONTAINER: 'data', AZURE_STORAGE_ACCOUNT: account })).toEqual(['AZURE_STORAGE_CONNECTION_STRING']);
+      expect(issuesFor({ AZURE_STORAGE_CONTAINER: 'data', AZURE_STORAGE_CONNECTION_STRING: 'UseDevelopmentStorage=true' })).toEqual([]);
+      expect(issuesFor({ AZURE_STORAGE_CONTAINER: 'Bad_Name', AZURE_STORAGE_CONNECTION_STRING: 'x' })).toEqual(['AZURE_STORAGE_CONTAINER']);
+    });
+
+    it('should prefer a connection string, then a shared key, then a SAS token', () => {
+      const parse = (input: Record<string, string>) =>
+        azureCredentialsFromConfig(zCloudConfig.parse({ CLOUD_PROVIDERS: 'azure_blob', AZURE_STORAGE_CONTAINER: 'data', ...input }));
+
+      expect(parse({ AZURE_STORAGE_CONNECTION_STRING: 'UseDevelopmentStorage=true', AZURE_STORAGE_ACCOUNT: account, AZURE_STORAGE_ACCOUNT_KEY: 'k' }).mode)
+        .toBe('connection_string');
+      expect(parse({ AZURE_STORAGE_ACCOUNT: account, AZURE_STORAGE_ACCOUNT_KEY: 'k', AZURE_STORAGE_SAS_TOKEN: 's' }).mode).toBe('shared_key');
+      expect(parse({ AZURE_STORAGE_ACCOUNT: account, AZURE_STORAGE_SAS_TOKEN: 's' })).toEqual({ mode: 'sas', accountName: account, sasToken: 's' });
+    });
+  });
+});
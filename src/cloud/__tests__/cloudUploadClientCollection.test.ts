@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeAll } from 'bun:test';
+import { Readable } from 'stream';
+import z from 'zod';
+import CloudUploadClient, { type CloudUploadOptsOut, type UploadBody } from '../cloudUploadClient';
+import CloudUploadClientCollection from '../cloudUploadClientCollection';
+import { zCloudConfig } from '../../config/modules/cloud';
+import { UploadError } from '../../errors';
+import { LoggerFactory } from '../../logging/logger';
+
+class FakeUploadClient extends CloudUploadClient {
+  readonly received: string[] = [];
+
+  constructor(name: string, private readonly failure?: Error) {
+    super(name);
+  }
+
+  Disconnect(): void {}
+
+  protected async upload(data: UploadBody, _opts: CloudUploadOptsOut) {
+    if (this.failure) throw this.failure;
+
+    let content = '';
+    if (data instanceof Readable) {
+      for await (const chunk of data) content += chunk;
+    } else {
+      content = String(data);
+    }
+    this.received.push(content);
+
+    return { etag: `"${this.name}"`, versionId: '1' };
+  }
+
+  static override validateConfig = (_data: any, _ctx: z.RefinementCtx) => true;
+}
+
+describe('CloudUploadClientCollection', () => {
+  const opts = { serviceLocation: 'global' as const, serviceName: 'inventory', dataSourceName: 'vms' };
+
+  beforeAll(() => {
+    if (!LoggerFactory.HasLogger()) {
+      LoggerFactory.CreateLogger('error').mute();
+    }
+  });
+
+  it('should report key, bytes, duration and receipt per provider', async () => {
+    const collection = new CloudUploadClientCollection([new FakeUploadClient('a'), new FakeUploadClient('b')]);
+
+    const report = await collection.upload('héllo', opts);
+
+    expect(report).toMatchObject({ succeeded: 2, failed: 0, satisfied: true });
+    expect(report.results.map(r => r.provider)).toEqual(['a', 'b']);
+    expect(report.results[0]).toMatchObject({ bytes: 6, etag: '"a"', versionId: '1' });
+    expect(report.results[0].key).toStartWith('global/inventory/inventory_vms/');
+    expect(report.results[1].key).toBe(report.results[0].key!);
+    expect(report.results[0].durationMs).toBeGreaterThanOrEqual(0);
+    expect(report.results[0].error).toBeUndefined();
+  });
+
+  it('should count the bytes of streamed uploads', async () => {
+    const clients = [new FakeUploadClient('a'), new FakeUploadClient('b')];
+    const collection = new CloudUploadClientCollection(clients);
+
+    const report = await collection.upload(Readable.from(['ab', 'cde']), opts);
+
+    expect(report.results.map(r => r.bytes)).toEqual([5, 5]);
+    expect(clients.map(c => c.received)).toEqual([['abcde'], ['abcde']]);
+  });
+
+  it('should report failures instead of throwing', async () => {
+    const collection = new CloudUploadClientCollection([
+      new FakeUploadClient('a'),
+      new FakeUploadClient('b', new Error('disk full'))
+    ]);
+
+    const report = await collection.upload('x', opts);
+
+    expect(report).toMatchObject({ succeeded: 1, failed: 1, satisfied: false });
+    expect(report.results[1].error).toBeInstanceOf(UploadError);
+    expect(report.results[1].error!.message).toContain('disk full');
+    await expect(collection.clients[1].uploadFile('x', opts)).rejects.toThrow('disk full');
+  });
+
+  it('should not stall streamed uploads when a provider fails without reading', async () => {
+    const clients = [new FakeUploadClient('a', new Error('connection refused')), new FakeUploadClient('b')];
+    const collection = new CloudUploadClientCollection(clients, { mode: 'best_effort' });
+    const chunks = Array.from({ length: 64 }, () => 'x'.repeat(64 * 1024));
+
+    const report = await collection.upload(Readable.from(chunks), opts);
+
+    expect(report).toMatchObject({ succeeded: 1, failed: 1, satisfied: true });
+    expect(clients[1].received[0]).toHaveLength(4 * 1024 * 1024);
+  }, 5000);
+
+  it('should apply the upload policy', async () => {
+    const clients = [new FakeUploadClient('a'), new FakeUploadClient('b', new Error('down')), new FakeUploadClient('c', new Error('down'))];
+    const collection = new CloudUploadClientCollection(clients, { mode: 'at_least', minSuccesses: 1 });
+
+    expect((await collection.upload('x', opts)).satisfied).toBe(true);
+
+    collection.policy = { mode: 'at_least', minSuccesses: 2 };
+    expect((await collection.upload('x', opts)).satisfied).toBe(false);
+
+    collection.policy = { mode: 'best_effort' };
+    collection.remove(clients[0]);
+    expect((await collection.upload('x', opts)).satisfied).toBe(true);
+  });
+
+  it('should read the upload policy from the configuration', async () => {
+    const config = zCloudConfig.parse({ CLOUD_PROVIDERS: 'local_fs', UPLOAD_POLICY: 'at_least' });
+    const collection = await CloudUploadClientCollection.FromConfig(config);
+
+    expect(collection.policy).toEqual({ mode: 'at_least', minSuccesses: undefined });
+    expect(collection.localRootDir).toBe('data');
+    expect(zCloudConfig.parse({ CLOUD_PROVIDERS: 'local_fs' }).UPLOAD_POLICY).toBe('all');
+
+    const result = zCloudConfig.safeParse({ CLOUD_PROVIDERS: 'local_fs', UPLOAD_POLICY: 'at_least', UPLOAD_MIN_SUCCESSES: '2' });
+    expect(result.success).toBe(false);
+    expect(result.error!.issues.map(i => i.path.join('.'))).toContain('UPLOAD_MIN_SUCCESSES');
+  });
+
+  it('should read the local export directory from the configuration', async () => {
+    const config = zCloudConfig.parse({ CLOUD_PROVIDERS: 'local_fs', LOCAL_FS_ROOT_DIR: '/var/lib/exports' });
+    const collection = await CloudUploadClientCollection.FromConfig(config);
+
+    expect(collection.localRootDir).toBe('/var/lib/exports');
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'bun:test';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { Readable } from 'stream';
+import { CRC32C } from '@google-cloud/storage';
+import GCSUploadClient from '../clients/gcsUploadClient';
+import CloudUploadClientCollection from '../cloudUploadClientCollection';
+import { zCloudConfig } from '../../config/modules/cloud';
+import { UploadError } from '../../errors';
+import { LoggerFactory } from '../../logging/logger';
+
+/**
+ * Extracts the object content from a simple (multipart/related) or resumable upload body.
+ */
+const payloadOf = (headers: http.IncomingHttpHeaders, body: string): string => {
+  const boundary = /boundary=([^;]+)/.exec(headers['content-type'] ?? '')?.[1];
+  if (!boundary) return body;
+
+  const parts = body.split(`--${boundary}`);
+  return parts[2].slice(parts[2].indexOf('\r\n\r\n') + 4, -2);
+}
+
+describe('GCSUploadClient', () => {
+  const requests: { method: string, url: string, headers: http.IncomingHttpHeaders, body: string }[] = [];
+  let server: http.Server;
+  let endpoint: string;
+  let failWith: number | undefined;
+
+  beforeAll(async () => {
+    if (!LoggerFactory.HasLogger()) {
+      LoggerFactory.CreateLogger('error').mute();
+    }
+
+    // minimal stand-in answering simple and resumable uploads like fake-gcs-server would
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        requests.push({ method: req.method!, url: req.url!, headers: req.headers, body });
+        const url = new URL(req.url!, endpoint);
+
+        if (failWith) {
+          res.writeHead(failWith, { 'Content-Type': 'application/json' })
+            .end(JSON.stringify({ error: { code: failWith, message: 'denied' } }));
+          return;
+        }
+
+        if (url.searchParams.get('uploadType') === 'resumable') {
+          res.writeHead(200, { Location: `${endpoint}/upload/resumable/session-1` }).end();
+          return;
+        }
+
+        // the client verifies the checksum of what was stored
+        const crc32c = new CRC32C();
+        crc32c.update(Buffer.from(payloadOf(req.headers, body)));
+        res.writeHead(200, { 'Content-Type': 'application/json' })
+          .end(JSON.stringify({ bucket: 'collector', name: url.searchParams.get('name') ?? 'session', generation: '1', crc32c: crc32c.toString() }));
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  beforeEach(() => {
+    requests.length = 0;
+    failWith = undefined;
+  });
+
+  it('should upload small payloads in a single request', async () => {
+    const client = await GCSUploadClient.Create('collector', { projectId: 'test' }, { endpoint });
+
+    await client.uploadFile('{"ok":true}', { filePath: 'exports/data.json', serviceLocation: 'global', serviceName: 'svc' });
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].method).toBe('POST');
+    expect(requests[0].url).toStartWith('/upload/storage/v1/b/collector/o?');
+    expect(new URL(requests[0].url, endpoint).searchParams.get('uploadType')).toBe('multipart');
+    expect(new URL(requests[0].url, endpoint).searchParams.get('name')).toBe('exports/data.json');
+    expect(payloadOf(requests[0].headers, requests[0].body)).toBe('{"ok":true}');
+    expect(client.name).toBe(`GCS (${new URL(endpoint).host})`);
+  });
+
+  it('should use resumable uploads for large payloads and streams', async () => {
+    const client = await GCSUploadClient.Create('collector', { projectId: 'test' }, { endpoint, resumableThresholdBytes: 4 });
+
+    await client.uploadFile('0123456789', { filePath: 'big.txt', serviceLocation: 'global', serviceName: 'svc' });
+
+    expect(new URL(requests[0].url, endpoint).searchParams.get('uploadType')).toBe('resumable');
+    expect(requests.at(-1)!.method).toBe('PUT');
+    expect(requests.at(-1)!.url).toBe('/upload/resumable/session-1');
+    expect(requests.at(-1)!.body).toBe('0123456789');
+
+    requests.length = 0;
+    await client.uploadFile(Readable.from(['ab', 'cdef', 'g']), { filePath: 'stream.txt', serviceLocation: 'global', serviceName: 'svc' });
+
+    expect(new URL(requests[0].url, endpoint).searchParams.get('uploadType')).toBe('resumable');
+    expect(requests.filter(r => r.method === 'PUT').map(r => r.body).join('')).toBe('abcdefg');
+  });
+
+  it('should report rejected uploads as upload errors', async () => {
+    const client = await GCSUploadClient.Create('collector', { projectId: 'test' }, { endpoint });
+    failWith = 403;
+
+    const error = await client.uploadFile('x', { filePath: 'denied.json', serviceLocation: 'global', serviceName: 'svc' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(UploadError);
+    expect(error.status).toBe(403);
+    expect(error.retryable).toBe(false);
+    expect(error.route).toBe('gs://collector/denied.json');
+  });
+
+  it('should be built from config', async () => {
+    const config = zCloudConfig.parse({
+      CLOUD_PROVIDERS: 'gcs',
+      GCS_BUCKET_NAME: 'from-config',
+      GCS_PROJECT_ID: 'test',
+      GCS_ENDPOINT: endpoint
+    });
+    const collection = await CloudUploadClientCollection.FromConfig(config);
+
+    await collection.upload('hello', { filePath: 'a/b.txt', serviceLocation: 'global', serviceName: 'svc' });
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toStartWith('/upload/storage/v1/b/from-config/o?');
+  });
+
+  it('should validate config', () => {
+    const issuesFor = (input: Record<string, string>) => {
+      const result = zCloudConfig.safeParse({ CLOUD_PROVIDERS: 'gcs', ...input });
+      return result.success ? [] : result.error.issues.map(issue => issue.path.join('.'));
+    };
+    const key = JSON.stringify({ type: 'service_account', client_email: 'collector@test.iam.gserviceaccount.com', private_key: 'pem' });
+
+    expect(issuesFor({})).toEqual(['GCS_BUCKET_NAME']);
+    expect(issuesFor({ GCS_BUCKET_NAME: 'b' })).toEqual([]);
+    expect(issuesFor({ GCS_BUCKET_NAME: 'b', GCS_CREDENTIALS_JSON: key })).toEqual([]);
+    expect(issuesFor({ GCS_BUCKET_NAME: 'b', GCS_CREDENTIALS_JSON: '{not json' })).toEqual(['GCS_CREDENTIALS_JSON']);
+    expect(issuesFor({ GCS_BUCKET_NAME: 'b', GCS_CREDENTIALS_JSON: key, GCS_KEY_FILE: 'key.json' })).toEqual(['GCS_CREDENTIALS_JSON']);
+    expect(issuesFor({ GCS_BUCKET_NAME: 'b', GCS_CHUNK_SIZE_MB: '0.3' })).toEqual(['GCS_CHUNK_SIZE_MB']);
+  });
+});
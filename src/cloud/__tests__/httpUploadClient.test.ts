@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'bun:test';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { Readable } from 'stream';
+import { gunzipSync } from 'zlib';
+import HttpUploadClient from '../clients/httpUploadClient';
+import CloudUploadClientCollection from '../cloudUploadClientCollection';
+import { zCloudConfig } from '../../config/modules/cloud';
+import { UploadError } from '../../errors';
+import { LoggerFactory } from '../../logging/logger';
+
+describe('HttpUploadClient', () => {
+  const requests: { method: string, url: string, headers: http.IncomingHttpHeaders, body: Buffer }[] = [];
+  const statuses: number[] = [];
+  let server: http.Server;
+  let endpoint: string;
+
+  const fastRetry = { baseDelayMs: 1, jitter: 'none' as const };
+
+  beforeAll(async () => {
+    if (!LoggerFactory.HasLogger()) {
+      LoggerFactory.CreateLogger('error').mute();
+    }
+
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        requests.push({ method: req.method!, url: req.url!, headers: req.headers, body: Buffer.concat(chunks) });
+        res.writeHead(statuses.shift() ?? 202).end();
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  beforeEach(() => {
+    requests.length = 0;
+    statuses.length = 0;
+  });
+
+  it('should send gzipped bodies to the filled URL template', async () => {
+    const client = await HttpUploadClient.Create(`${endpoint}/ingest/{serviceName}/{dataSourceName}?file={filename}`, {
+      headers: { Authorization: 'Bearer token' }
+    });
+
+    await client.uploadFile('{"ok":true}', { serviceLocation: 'global', serviceName: 'inventory', dataSourceName: 'vm hosts' });
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].method).toBe('POST');
+    expect(requests[0].url).toMatch(/^\/ingest\/inventory\/vm%20hosts\?file=inventory-vm%20hosts-.+\.json$/);
+    expect(requests[0].headers['content-encoding']).toBe('gzip');
+    expect(requests[0].headers['content-type']).toBe('application/json');
+    expect(requests[0].headers['authorization']).toBe('Bearer token');
+    expect(requests[0].headers['x-object-path']).toStartWith('global/inventory/inventory_vm hosts/');
+    expect(gunzipSync(requests[0].body).toString()).toBe('{"ok":true}');
+  });
+
+  it('should put the object path and send streams uncompressed when gzip is off', async () => {
+    const client = await HttpUploadClient.Create(`${endpoint}/objects/{path}`, { method: 'PUT', gzip: false });
+
+    await client.uploadFile(Readable.from(['a', 'b']), { filePath: 'exports/site a/data.json', serviceLocation: 'global', serviceName: 'svc' });
+
+    expect(requests[0].method).toBe('PUT');
+    expect(requests[0].url).toBe('/objects/exports/site%20a/data.json');
+    expect(requests[0].headers['content-encoding']).toBeUndefined();
+    expect(requests[0].body.toString()).toBe('ab');
+  });
+
+  it('should not compress payloads compressed by the upload pipeline twice', async () => {
+    const client = await HttpUploadClient.Create(`${endpoint}/objects/{path}`);
+
+    await client.uploadFile('{"a":1}', { serviceLocation: 'global', serviceName: 'svc', dataSourceName: 'events', extension: 'ndjson', compression: 'gzip' });
+
+    expect(requests[0].url).toEndWith('.json.gz');
+    expect(requests[0].headers['content-type']).toBe('application/x-ndjson');
+    expect(requests[0].headers['content-encoding']).toBe('gzip');
+    expect(gunzipSync(requests[0].body).toString()).toBe('{"a":1}');
+  });
+
+  it('should retry transient failures', async () => {
+    const client = await HttpUploadClient.Create(`${endpoint}/ingest`, { retry: fastRetry });
+    statuses.push(503, 500);
+
+    await client.uploadFile('x', { filePath: 'a.json', serviceLocation: 'global', serviceName: 'svc' });
+
+    expect(requests).toHaveLength(3);
+    expect(requests.every(r => gunzipSync(r.body).toString() === 'x')).toBe(true);
+  });
+
+  it('should give up on rejected uploads and exhausted retries', async () => {
+    const client = await HttpUploadClient.Create(`${endpoint}/ingest`, { retry: { ...fastRetry, maxRetries: 1 } });
+
+    statuses.push(400);
+    const rejected = await client.uploadFile('x', { filePath: 'a.json', serviceLocation: 'global', serviceName: 'svc' }).catch(e => e);
+
+    expect(rejected).toBeInstanceOf(UploadError);
+    expect(rejected.status).toBe(400);
+    expect(rejected.retryable).toBe(false);
+    expect(requests).toHaveLength(1);
+
+    statuses.push(502, 502);
+    const exhausted = await client.uploadFile('x', { filePath: 'a.json', serviceLocation: 'global', serviceName: 'svc' }).catch(e => e);
+
+    expect(exhausted.status).toBe(502);
+    expect(exhausted.attempts).toBe(2);
+    expect(exhausted.retryable).toBe(true);
+  });
+
+  it('should be built from config', async () => {
+    const config = zCloudConfig.parse({
+      CLOUD_PROVIDERS: 'http',
+      HTTP_UPLOAD_URL: `${endpoint}/v1/{path}`,
+      HTTP_UPLOAD_METHOD: 'PUT',
+      HTTP_UPLOAD_AUTH_HEADER: 'X-Api-Key: secret',
+      HTTP_UPLOAD_GZIP: 'no'
+    });
+    const collection = await CloudUploadClientCollection.FromConfig(config);
+
+    await collection.upload('hello', { filePath: 'a/b.txt', serviceLocation: 'global', serviceName: 'svc' });
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].method).toBe('PUT');
+    expect(requests[0].url).toBe('/v1/a/b.txt');
+    expect(requests[0].headers['x-api-key']).toBe('secret');
+    expect(requests[0].body.toString()).toBe('hello');
+  });
+
+  it('should validate config', () => {
+    const parse = (input: Record<string, string>) => zCloudConfig.safeParse({ CLOUD_PROVIDERS: 'http', ...input });
+
+    expect(parse({}).error?.issues.map(i => i.path.join('.'))).toEqual(['HTTP_UPLOAD_URL']);
+    expect(parse({ HTTP_UPLOAD_URL: 'ftp://example.com' }).success).toBe(false);
+    expect(parse({ HTTP_UPLOAD_URL: 'https://example.com/{path}', HTTP_UPLOAD_AUTH_HEADER: 'Bearer abc' }).data?.HTTP_UPLOAD_AUTH_HEADER)
+      .toEqual({ Authorization: 'Bearer abc' });
+  });
+});
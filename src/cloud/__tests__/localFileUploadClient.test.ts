@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import LocalFileUploadClient from '../clients/localFileUploadClient';
+import CloudUploadClientCollection from '../cloudUploadClientCollection';
+import { zCloudConfig } from '../../config/modules/cloud';
+import { UploadError } from '../../errors';
+import { LoggerFactory } from '../../logging/logger';
+
+describe('LocalFileUploadClient', () => {
+  let rootDir: string;
+
+  beforeAll(() => {
+    if (!LoggerFactory.HasLogger()) {
+      LoggerFactory.CreateLogger('error').mute();
+    }
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'collector-local-fs-'));
+  });
+
+  afterAll(() => fs.rmSync(rootDir, { recursive: true, force: true }));
+
+  const filesBelow = (dir: string): string[] =>
+    fs.readdirSync(dir, { recursive: true, withFileTypes: true })
+      .filter(entry => entry.isFile())
+      .map(entry => path.relative(dir, path.join(entry.parentPath, entry.name)))
+      .sort();
+
+  it('should write to the same generated paths as the cloud providers', async () => {
+    const client = await LocalFileUploadClient.Create(path.join(rootDir, 'generated'));
+
+    await client.uploadFile('[1,2]', { serviceLocation: 'global', serviceName: 'inventory', dataSourceName: 'proxmox' });
+    await client.uploadFile('{"site":1}', { serviceLocation: 'site', siteName: 'lab', serviceName: 'inventory', dataSourceName: 'vms' });
+
+    const files = filesBelow(client.rootDir);
+    expect(files).toHaveLength(2);
+    expect(files[0]).toMatch(/^global\/inventory\/inventory_proxmox\/inventory-proxmox-.+\.json$/);
+    expect(files[1]).toMatch(/^site\/vms\/site=lab\/date=\d{4}-\d{2}-\d{2}\/data\.json$/);
+    expect(fs.readFileSync(path.join(client.rootDir, files[0]), 'utf-8')).toBe('[1,2]');
+  });
+
+  it('should write streams and replace existing files without leaving temporary files', async () => {
+    const client = await LocalFileUploadClient.Create(path.join(rootDir, 'streams'));
+    const opts = { filePath: 'exports/events.ndjson', serviceLocation: 'global' as const, serviceName: 'svc' };
+
+    await client.uploadFile('old', opts);
+    await client.uploadFile(Readable.from(['{"a":1}\n', '{"a":2}']), opts);
+
+    expect(filesBelow(client.rootDir)).toEqual(['exports/events.ndjson']);
+    expect(fs.readFileSync(path.join(client.rootDir, 'exports/events.ndjson'), 'utf-8')).toBe('{"a":1}\n{"a":2}');
+  });
+
+  it('should clean up and report failed writes', async () => {
+    const client = await LocalFileUploadClient.Create(path.join(rootDir, 'failing'));
+    const failing = new Readable({ read() { this.destroy(new Error('source broke')); } });
+
+    const error = await client.uploadFile(failing, { filePath: 'broken.json', serviceLocation: 'global', serviceName: 'svc' })
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(UploadError);
+    expect(error.message).toContain('source broke');
+    expect(filesBelow(client.rootDir)).toEqual([]);
+  });
+
+  it('should refuse paths outside the root directory', async () => {
+    const client = await LocalFileUploadClient.Create(path.join(rootDir, 'jail'));
+
+    const error = await client.uploadFile('x', { filePath: '../escaped.json', serviceLocation: 'global', serviceName: 'svc' })
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(UploadError);
+    expect(fs.existsSync(path.join(rootDir, 'escaped.json'))).toBe(false);
+  });
+
+  it('should be built from config', async () => {
+    const config = zCloudConfig.parse({ CLOUD_PROVIDERS: 'local_fs', LOCAL_FS_ROOT_DIR: path.join(rootDir, 'configured') });
+    const collection = await CloudUploadClientCollection.FromConfig(config);
+
+    await collection.upload('hello', { filePath: 'a/b.txt', serviceLocation: 'global', serviceName: 'svc' });
+
+    expect(collection.clients[0]).toBeInstanceOf(LocalFileUploadClient);
+    expect(fs.readFileSync(path.join(rootDir, 'configured/a/b.txt'), 'utf-8')).toBe('hello');
+    expect(zCloudConfig.parse({ CLOUD_PROVIDERS: 'local_fs' }).LOCAL_FS_ROOT_DIR).toBe('data');
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeAll } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import ObjectKeyTemplate, { DefaultObjectKeyTemplates, hivePartitions, ProcessRunId } from '../objectKeyTemplate';
+import CloudUploadClientCollection from '../cloudUploadClientCollection';
+import { zCloudConfig } from '../../config/modules/cloud';
+import { ConfigurationError } from '../../errors';
+import { LoggerFactory } from '../../logging/logger';
+import { formatDate } from '../../utils/util';
+
+describe('ObjectKeyTemplate', () => {
+  const date = new Date('2026-01-31T23:15:00Z');
+  const context = { serviceName: 'inventory', dataSourceName: 'vms', extension: 'json' as const, date };
+
+  beforeAll(() => {
+    if (!LoggerFactory.HasLogger()) {
+      LoggerFactory.CreateLogger('error').mute();
+    }
+  });
+
+  it('should render the default layout', () => {
+    const keys = new ObjectKeyTemplate();
+
+    expect(keys.keyFor({ ...context, serviceLocation: 'global' }))
+      .toBe(`global/inventory/inventory_vms/inventory-vms-${formatDate(date)}.json`);
+    expect(keys.keyFor({ ...context, serviceLocation: 'site', siteName: 'lab', extension: 'csv' }))
+      .toBe('site/vms/site=lab/date=2026-01-31/data.csv');
+    expect(keys.keyFor({ ...context, serviceLocation: 'site', siteName: 'lab', extension: 'ndjson' }))
+      .toBe('site/vms/site=lab/date=2026-01-31/data.json');
+  });
+
+  it('should render date parts, run IDs, formats and Hive partitions', () => {
+    const keys = new ObjectKeyTemplate({
+      global: '{location}/{service}/{hive:yyyy}/{hive:mm}/{hive:dd}/{hh}/{source}-{runId}.{format}'
+    });
+
+    expect(keys.keyFor({ ...context, serviceLocation: 'global', extension: 'ndjson', runId: 'run-1' }))
+      .toBe('global/inventory/yyyy=2026/mm=01/dd=31/23/vms-run-1.ndjson');
+    expect(keys.keyFor({ ...context, serviceLocation: 'global' })).toEndWith(`/vms-${ProcessRunId}.json`);
+  });
+
+  it('should replace the last segment with an explicit filename and keep values inside one segment', () => {
+    const keys = new ObjectKeyTemplate();
+
+    expect(keys.keyFor({ ...context, serviceLocation: 'site', siteName: 'eu/west', filename: 'custom.json' }))
+      .toBe('site/vms/site=eu_west/date=2026-01-31/custom.json');
+  });
+
+  it('should reject unknown placeholders and missing values', () => {
+    expect(() => new ObjectKeyTemplate({ global: '{service}/{servce}/{hive:sourc}' })).toThrow(ConfigurationError);
+    expect(ObjectKeyTemplate.UnknownPlaceholders('{service}/{servce}/{hive:sourc}')).toEqual(['{servce}', '{hive:sourc}']);
+
+    const keys = new ObjectKeyTemplate({ global: '{site}/{source}' });
+    expect(() => keys.keyFor({ ...context, serviceLocation: 'global' })).toThrow(/needs \{site\}/);
+  });
+
+  it('should format Hive partitions', () => {
+    expect(hivePartitions({ year: 2026, site: 'a/b' })).toBe('year=2026/site=a_b');
+  });
+
+  it('should apply configured templates to every provider', async () => {
+    const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'collector-keys-'));
+
+    try {
+      const config = zCloudConfig.parse({
+        CLOUD_PROVIDERS: 'local_fs',
+        LOCAL_FS_ROOT_DIR: rootDir,
+        UPLOAD_KEY_TEMPLATE_GLOBAL: 'exports/{service}/{hive:date}/{source}.{ext}'
+      });
+      const collection = await CloudUploadClientCollection.FromConfig(config);
+
+      await collection.upload('[]', { serviceLocation: 'global', serviceName: 'inventory', dataSourceName: 'vms', date });
+
+      expect(fs.readFileSync(path.join(rootDir, 'exports/inventory/date=2026-01-31/vms.json'), 'utf-8')).toBe('[]');
+      expect(config.UPLOAD_KEY_TEMPLATE_SITE).toBe(DefaultObjectKeyTemplates.site);
+      expect(zCloudConfig.safeParse({ CLOUD_PROVIDERS: 'local_fs', UPLOAD_KEY_TEMPLATE_SITE: '{nope}' }).success).toBe(false);
+    } finally {
+      fs.rmSync(rootDir, { recursive: true, force: true });
+    }
+  });
+});
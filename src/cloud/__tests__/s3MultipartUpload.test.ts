@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeAll, afterEach, spyOn } from 'bun:test';
+import { Readable } from 'stream';
+import { S3Client } from '@aws-sdk/client-s3';
+import S3MultipartUpload, { isRetryableS3Error, partsOf } from '../clients/s3MultipartUpload';
+import AWS3UploadClient from '../clients/aws3UploadClient';
+import { UploadError } from '../../errors';
+import { LoggerFactory } from '../../logging/logger';
+
+const MiB = 1024 * 1024;
+
+/**
+ * In-memory stand-in for S3 recording every command it receives.
+ */
+const fakeS3 = (failPart?: (partNumber: number, attempt: number) => any) => {
+  const calls: { command: string, input: any }[] = [];
+  const attempts: Record<number, number> = {};
+  let inFlight = 0;
+  let maxInFlight = 0;
+
+  const send = async (command: any) => {
+    const name = command.constructor.name;
+    calls.push({ command: name, input: command.input });
+
+    switch (name) {
+      case 'CreateMultipartUploadCommand':
+        return { UploadId: 'upload-1' };
+      case 'UploadPartCommand': {
+        const { PartNumber } = command.input;
+        attempts[PartNumber] = (attempts[PartNumber] ?? 0) + 1;
+
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 2));
+        inFlight--;
+
+        const error = failPart?.(PartNumber, attempts[PartNumber]);
+        if (error) throw error;
+        return { ETag: `"etag-${PartNumber}"` };
+      }
+      default:
+        return {};
+    }
+  };
+
+  return { client: { send } as unknown as S3Client, calls, attempts, maxInFlight: () => maxInFlight };
+};
+
+const s3Error = (status: number) => Object.assign(new Error(`HTTP ${status}`), {
+  name: status === 503 ? 'SlowDown' : 'AccessDenied',
+  $metadata: { httpStatusCode: status }
+});
+
+const collect = async (parts: AsyncIterable<Buffer>) => {
+  const sizes: number[] = [];
+  for await (const part of parts) sizes.push(part.length);
+  return sizes;
+};
+
+describe('S3 multipart upload', () => {
+  beforeAll(() => {
+    if (!LoggerFactory.HasLogger()) {
+      LoggerFactory.CreateLogger('error').mute();
+    }
+  });
+
+  describe('partsOf', () => {
+    it('should split in-memory bodies', async () => {
+      expect(await collect(partsOf('a'.repeat(10), 4))).toEqual([4, 4, 2]);
+      expect(await collect(partsOf(new Blob(['abcdefgh']), 4))).toEqual([4, 4]);
+    });
+
+    it('should re-chunk streams into exact part sizes', async () => {
+      const stream = Readable.from([Buffer.alloc(3), Buffer.alloc(7), Buffer.alloc(1), Buffer.alloc(6)]);
+
+      expect(await collect(partsOf(stream, 5))).toEqual([5, 5, 5, 2]);
+    });
+  });
+
+  describe('S3MultipartUpload', () => {
+    const params = { Bucket: 'bucket', Key: 'exports/data.json' };
+
+    it('should upload parts in parallel and complete in part order', async () => {
+      const s3 = fakeS3();
+      const upload = new S3MultipartUpload(s3.client, params, { concurrency: 2 });
+
+      const result = await upload.upload(partsOf('x'.repeat(50), 10));
+
+      expect(result).toEqual({ parts: 5, bytes: 50 });
+      expect(s3.maxInFlight()).toBe(2);
+
+      const complete = s3.calls.find(c => c.command === 'CompleteMultipartUploadCommand')!;
+      expect(complete.input.UploadId).toBe('upload-1');
+      expect(complete.input.MultipartUpload.Parts.map((p: any) => p.PartNumber)).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('should retry transient part failures', async () => {
+      const s3 = fakeS3((part, attempt) => part === 2 && attempt < 3 ? s3Error(503) : undefined);
+      const upload = new S3MultipartUpload(s3.client, params, { retryDelayMs: 1 });
+
+      await upload.upload(partsOf('x'.repeat(30), 10));
+
+      expect(s3.attempts[2]).toBe(3);
+      expect(s3.calls.some(c => c.command === 'CompleteMultipartUploadCommand')).toBe(true);
+    });
+
+    it('should only retry throttling, server and network errors', () => {
+      expect(isRetryableS3Error(s3Error(503))).toBe(true);
+      expect(isRetryableS3Error(s3Error(429))).toBe(true);
+      expect(isRetryableS3Error(s3Error(403))).toBe(false);
+      expect(isRetryableS3Error(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))).toBe(true);
+      expect(isRetryableS3Error(Object.assign(new Error('timed out'), { name: 'TimeoutError' }))).toBe(true);
+      expect(isRetryableS3Error(Object.assign(new Error('throttled'), { $retryable: {} }))).toBe(true);
+      expect(isRetryableS3Error(new TypeError('Cannot read properties of undefined'))).toBe(false);
+      expect(isRetryableS3Error(Object.assign(new Error('Could not load credentials'), { name: 'CredentialsProviderError' }))).toBe(false);
+    });
+
+    it('should abort the upload when a part fails for good', async () => {
+      const s3 = fakeS3((part) => part === 3 ? s3Error(403) : undefined);
+      const upload = new S3MultipartUpload(s3.client, params, { retryDelayMs: 1 });
+
+      await expect(upload.upload(partsOf('x'.repeat(100), 10))).rejects.toThrow('HTTP 403');
+
+      expect(s3.attempts[3]).toBe(1);
+      expect(s3.calls.at(-1)!.command).toBe('AbortMultipartUploadCommand');
+      expect(s3.calls.some(c => c.command === 'CompleteMultipartUploadCommand')).toBe(false);
+    });
+  });
+
+  describe('AWS3UploadClient', () => {
+    let sendSpy: ReturnType<typeof spyOn> | undefined;
+
+    afterEach(() => sendSpy?.mockRestore());
+
+    const upload = async (body: any, failPart?: (part: number, attempt: number) => any) => {
+      const s3 = fakeS3(failPart);
+      sendSpy = spyOn(S3Client.prototype, 'send').mockImplementation(s3.client.send as any);
+
+      const client = await AWS3UploadClient.Create('bucket', 'us-east-1', 'key', 'secret', {
+        multipart: { thresholdBytes: 6 * MiB, partSizeBytes: 5 * MiB, retryDelayMs: 1 }
+      });
+
+      const result = client.uploadFile(body, { filePath: 'exports/data.json', serviceLocation: 'global', serviceName: 'svc' });
+      return { s3, result };
+    };
+
+    it('should use a single request below the threshold', async () => {
+      const { s3, result } = await upload('{"small":true}');
+      await result;
+
+      expect(s3.calls.map(c => c.command)).toEqual(['PutObjectCommand']);
+      expect(s3.calls[0].input.ContentType).toBe('application/json');
+      expect(s3.calls[0].input.ContentEncoding).toBeUndefined();
+      expect(s3.calls[0].input.CacheControl).toBe('max-age=31536000');
+    });
+
+    it('should stream large bodies as multipart uploads', async () => {
+      const stream = Readable.from(Array.from({ length: 12 }, () => Buffer.alloc(MiB)));
+      const { s3, result } = await upload(stream);
+      await result;
+
+      const commands = s3.calls.map(c => c.command);
+      expect(commands[0]).toBe('CreateMultipartUploadCommand');
+      expect(commands.filter(c => c === 'UploadPartCommand')).toHaveLength(3);
+      expect(commands.at(-1)).toBe('CompleteMultipartUploadCommand');
+    });
+
+    it('should report failed uploads as UploadError', async () => {
+      const { result } = await upload(Buffer.alloc(11 * MiB), () => s3Error(403));
+      const error = await result.catch(e => e);
+
+      expect(error).toBeInstanceOf(UploadError);
+      expect(error.route).toBe('s3://bucket/exports/data.json');
+      expect(error.status).toBe(403);
+      expect(error.retryable).toBe(false);
+    });
+  });
+});
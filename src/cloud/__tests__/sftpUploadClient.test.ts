@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeAll, afterEach, spyOn } from 'bun:test';
+import SftpClient from 'ssh2-sftp-client';
+import { Readable } from 'stream';
+import SftpUploadClient from '../clients/sftpUploadClient';
+import { zCloudConfig } from '../../config/modules/cloud';
+import { UploadError } from '../../errors';
+import { LoggerFactory } from '../../logging/logger';
+
+describe('SftpUploadClient', () => {
+  const calls: string[] = [];
+  const spies: { mockRestore(): void }[] = [];
+
+  beforeAll(() => {
+    if (!LoggerFactory.HasLogger()) {
+      LoggerFactory.CreateLogger('error').mute();
+    }
+  });
+
+  afterEach(() => {
+    spies.splice(0).forEach(spy => spy.mockRestore());
+    calls.length = 0;
+  });
+
+  /**
+   * Replaces the SFTP session methods with recorders.
+   */
+  const fakeSftp = (overrides: Partial<Record<keyof SftpClient, (...args: any[]) => Promise<any>>> = {}) => {
+    const methods = ['connect', 'mkdir', 'put', 'posixRename', 'rename', 'exists', 'delete', 'end'] as const;
+
+    for (const method of methods) {
+      spies.push(spyOn(SftpClient.prototype, method).mockImplementation(async (...args: any[]) => {
+        calls.push(`${method} ${args.filter(a => typeof a === 'string').join(' ')}`.trim());
+        return overrides[method] ? overrides[method]!(...args) : method === 'exists' ? false : 'ok';
+      }) as any);
+    }
+  };
+
+  const opts = { serviceLocation: 'global' as const, serviceName: 'inventory', dataSourceName: 'vms' };
+
+  it('should write to a temporary file, rename it into place and reuse the connection', async () => {
+    const uploaded: any[] = [];
+    fakeSftp({ put: async (body) => uploaded.push(body) });
+
+    const client = await SftpUploadClient.Create('sftp.example', 'collector', { password: 'secret', remoteDir: '/incoming' });
+    await client.uploadFile('{"a":1}', { ...opts, filePath: 'exports/data.json' });
+    await client.uploadFile(Readable.from(['x']), { ...opts, filePath: 'exports/stream.json' });
+    client.Disconnect();
+
+    expect(calls.filter(c => c === 'connect')).toHaveLength(1);
+    expect(calls[1]).toBe('mkdir /incoming/exports');
+    expect(calls[2]).toMatch(/^put \/incoming\/exports\/data\.json\.[a-f0-9]+\.tmp$/);
+    expect(calls[3]).toBe(`posixRename ${calls[2].slice(4)} /incoming/exports/data.json`);
+    expect(calls.at(-1)).toBe('end');
+    expect(uploaded[0]).toEqual(Buffer.from('{"a":1}'));
+    expect(uploaded[1]).toBeInstanceOf(Readable);
+  });
+
+  it('should fall back to delete and rename without the POSIX rename extension', async () => {
+    fakeSftp({
+      posixRename: async () => { throw new Error('Server does not support this extended request'); },
+      exists: async () => '-'
+    });
+
+    const client = await SftpUploadClient.Create('sftp.example', 'collector', { password: 'secret' });
+    await client.uploadFile('x', { ...opts, filePath: 'data.json' });
+
+    expect(calls.slice(-3)).toEqual(['exists data.json', 'delete data.json', expect.stringMatching(/^rename data\.json\.[a-f0-9]+\.tmp data\.json$/)]);
+  });
+
+  it('should remove the temporary file when the upload fails', async () => {
+    fakeSftp({ put: async () => { throw Object.assign(new Error('connection lost'), { code: 'ECONNRESET' }); } });
+
+    const client = await SftpUploadClient.Create('sftp.example', 'collector', { password: 'secret', remoteDir: 'drop' });
+    const error = await client.uploadFile('x', { ...opts, filePath: 'data.json' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(UploadError);
+    expect(error.retryable).toBe(true);
+    expect(error.route).toBe('sftp://sftp.example/drop/data.json');
+    expect(calls.at(-1)).toMatch(/^delete drop\/data\.json\.[a-f0-9]+\.tmp$/);
+  });
+
+  it('should validate config', () => {
+    const issuesFor = (input: Record<string, string>) => {
+      const result = zCloudConfig.safeParse({ CLOUD_PROVIDERS: 'sftp', ...input });
+      return result.success ? [] : result.error.issues.map(issue => issue.path.join('.'));
+    };
+
+    expect(issuesFor({})).toEqual(['SFTP_HOST', 'SFTP_USERNAME', 'SFTP_PASSWORD']);
+    expect(issuesFor({ SFTP_HOST: 'h', SFTP_USERNAME: 'u', SFTP_PRIVATE_KEY_PATH: '/key' })).toEqual([]);
+    expect(issuesFor({ SFTP_HOST: 'h', SFTP_USERNAME: 'u', SFTP_PASSWORD: 'p', SFTP_HOST_KEY_FINGERPRINT: 'md5:aa' }))
+      .toEqual(['SFTP_HOST_KEY_FINGERPRINT']);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { gunzipSync, zstdDecompressSync } from 'zlib';
+import LocalFileUploadClient from '../clients/localFileUploadClient';
+import { compressBody, contentHeadersFor, isCompressionAvailable } from '../uploadEncoding';
+import { zCloudConfig } from '../../config/modules/cloud';
+import { LoggerFactory } from '../../logging/logger';
+
+const read = async (body: any): Promise<Buffer> => {
+  if (!(body instanceof Readable)) return Buffer.from(body);
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of body) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks);
+};
+
+describe('Upload encoding', () => {
+  const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'collector-encoding-'));
+
+  beforeAll(() => {
+    if (!LoggerFactory.HasLogger()) {
+      LoggerFactory.CreateLogger('error').mute();
+    }
+  });
+
+  afterAll(() => fs.rmSync(rootDir, { recursive: true, force: true }));
+
+  it('should derive content headers from the file extension and compression', () => {
+    expect(contentHeadersFor('json')).toEqual({ contentType: 'application/json' });
+    expect(contentHeadersFor('ndjson', 'gzip')).toEqual({ contentType: 'application/x-ndjson', contentEncoding: 'gzip' });
+    expect(contentHeadersFor('csv', 'zstd')).toEqual({ contentType: 'text/csv', contentEncoding: 'zstd' });
+    expect(contentHeadersFor('raw', 'none')).toEqual({ contentType: 'application/octet-stream' });
+  });
+
+  it('should compress in-memory payloads and streams', async () => {
+    const text = '{"a":1}\n'.repeat(100);
+
+    expect(await compressBody(text, 'none')).toBe(text);
+    expect(gunzipSync(await read(await compressBody(text, 'gzip'))).toString()).toBe(text);
+    expect(gunzipSync(await read(await compressBody(Readable.from([text, text]), 'gzip'))).toString()).toBe(text + text);
+    expect(gunzipSync(await read(await compressBody(new Blob([text]), 'gzip'))).toString()).toBe(text);
+  });
+
+  it.if(isCompressionAvailable('zstd'))('should compress with zstd where available', async () => {
+    const compressed = await read(await compressBody(Readable.from(['abc', 'def']), 'zstd'));
+
+    expect(zstdDecompressSync(compressed).toString()).toBe('abcdef');
+  });
+
+  it('should surface stream errors through the compressed stream', async () => {
+    const failing = new Readable({ read() { this.destroy(new Error('source broke')); } });
+
+    await expect(read(await compressBody(failing, 'gzip'))).rejects.toThrow('source broke');
+  });
+
+  it('should compress uploads, suffix their keys and report stored bytes', async () => {
+    const client = await LocalFileUploadClient.Create(rootDir);
+    client.compression = 'gzip';
+
+    const result = await client.uploadFile('{"a":1}\n{"a":2}', {
+      serviceLocation: 'site', siteName: 'lab', serviceName: 'inventory', dataSourceName: 'vms', extension: 'ndjson'
+    });
+
+    expect(result.key).toEndWith('/data.json.gz');
+    const stored = fs.readFileSync(path.join(rootDir, result.key!));
+    expect(result.bytes).toBe(stored.length);
+    expect(gunzipSync(stored).toString()).toBe('{"a":1}\n{"a":2}');
+
+    const plain = await client.uploadFile('x', { filePath: 'exact/name.txt', serviceLocation: 'global', serviceName: 'svc', compression: 'none' });
+    expect(plain.key).toBe('exact/name.txt');
+    expect(fs.readFileSync(path.join(rootDir, 'exact/name.txt'), 'utf-8')).toBe('x');
+  });
+
+  it('should validate the configured compression', () => {
+    expect(zCloudConfig.parse({ CLOUD_PROVIDERS: 'local_fs' }).UPLOAD_COMPRESSION).toBe('none');
+    expect(zCloudConfig.safeParse({ CLOUD_PROVIDERS: 'local_fs', UPLOAD_COMPRESSION: 'brotli' }).success).toBe(false);
+    expect(zCloudConfig.safeParse({ CLOUD_PROVIDERS: 'local_fs', UPLOAD_COMPRESSION: 'zstd' }).success).toBe(isCompressionAvailable('zstd'));
+  });
+});
@@ -1,23 +1,55 @@
 import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
 import z from "zod";
 
-import CloudUploadClient, { CloudUploadOpts, CloudUploadOptsOut } from "../cloudUploadClient";
-import { formatDate } from "../../utils";
+import CloudUploadClient, { CloudUploadOpts, CloudUploadOptsOut, type UploadBody, type UploadReceipt } from "../cloudUploadClient";
+import { ConfigurationError, UploadError } from "../../errors";
+import S3MultipartUpload, {
+    isRetryableS3Error,
+    partsOf,
+    S3_MIN_PART_SIZE,
+    withMultipartDefaults,
+    type S3MultipartOpts
+} from "./s3MultipartUpload";
 import {LoggerFactory} from "../../logging/logger";
+import { createHttpsAgent, type TlsOpts } from "../../api/tls";
+import { createAwsCredentials, type AwsCredentialsOpts } from "./awsCredentials";
 
 /**
- * Cached formatted date used when auto-generating filenames.
- * Evaluated once at module load time.
+ * Optional settings for an {@link AWS3UploadClient}.
  */
-const timeToday = formatDate(new Date());
-const date = new Date().toISOString().split('T')[0];
+export interface AWS3UploadClientOpts {
+    /**
+     * Custom S3-compatible endpoint URL (MinIO, Ceph RGW, Wasabi, ...).
+     * Uses the AWS endpoint for the region when omitted.
+     */
+    endpoint?: string;
+
+    /**
+     * Address objects as `endpoint/bucket/key` instead of `bucket.endpoint/key`.
+     * Most self-hosted S3-compatible servers require this.
+     */
+    forcePathStyle?: boolean;
+
+    /**
+     * TLS settings for the endpoint (custom CA, pinning, insecure mode).
+     */
+    tls?: TlsOpts;
+
+    /**
+     * Multipart upload settings.
+     */
+    multipart?: S3MultipartOpts;
+}
 
 /**
  * AWS S3 implementation of {@link CloudUploadClient}.
  *
- * This client uploads arbitrary payloads (JSON, text, binary) to an S3 bucket
- * using the AWS SDK v3. It supports both explicit file paths and convention-
- * based path generation derived from {@link CloudUploadOpts}.
+ * This client uploads arbitrary payloads (JSON, text, binary, streams) to an
+ * S3 bucket using the AWS SDK v3. It supports both explicit file paths and
+ * convention-based path generation derived from {@link CloudUploadOpts}.
+ *
+ * Payloads reaching the multipart threshold (and streams longer than it) are
+ * uploaded in parallel parts with per-part retry; see {@link S3MultipartUpload}.
  *
  * @example
  * ```ts
@@ -36,6 +68,24 @@ const date = new Date().toISOString().split('T')[0];
  *
  * client.Disconnect();
  * ```
+ *
+ * @example S3-compatible endpoint
+ * ```ts
+ * const minio = await AWS3UploadClient.Create("collector", "us-east-1", accessKey, secretKey, {
+ *   endpoint: "https://minio.internal:9000",
+ *   forcePathStyle: true,
+ *   tls: { caPath: "/etc/ssl/internal-ca.pem" }
+ * });
+ * ```
+ *
+ * @example Assumed role
+ * ```ts
+ * const client = await AWS3UploadClient.FromCredentials("my-bucket", "eu-west-1", {
+ *   mode: "assume_role",
+ *   roleArn: "arn:aws:iam::123456789012:role/collector-upload",
+ *   externalId: "inventory"
+ * });
+ * ```
  */
 export default class AWS3UploadClient extends CloudUploadClient {
     /**
@@ -49,6 +99,11 @@ export default class AWS3UploadClient extends CloudUploadClient {
      */
     #bucketName: string;
 
+    /**
+     * Multipart upload settings.
+     */
+    #multipart: Required<S3MultipartOpts>;
+
     /**
      * Creates a new AWS S3 upload client.
      *
@@ -58,19 +113,27 @@ export default class AWS3UploadClient extends CloudUploadClient {
      *
      * @param bucketName - Name of the target S3 bucket
      * @param region - AWS region where the bucket is hosted
-     * @param accessKeyId - AWS access key ID
-     * @param secretAccessKey - AWS secret access key
+     * @param credentials - How AWS credentials are obtained
+     * @param opts - Endpoint, TLS and multipart settings
      */
-    protected constructor(bucketName: string, region: string, accessKeyId: string, secretAccessKey: string) {
-        super("AWS S3");
+    protected constructor(bucketName: string, region: string, credentials: AwsCredentialsOpts, opts: AWS3UploadClientOpts = {}) {
+        const { endpoint, forcePathStyle, tls, multipart } = opts;
+
+        super(endpoint ? `S3 (${new URL(endpoint).host})` : "AWS S3");
         
         this.#bucketName = bucketName;
+        this.#multipart = withMultipartDefaults(multipart);
+
+        if (this.#multipart.partSizeBytes < S3_MIN_PART_SIZE) {
+            throw new ConfigurationError(`S3 multipart part size must be at least ${S3_MIN_PART_SIZE} bytes`, ["AWS_S3_MULTIPART_PART_SIZE_MB"]);
+        }
+
         this.#s3Client = new S3Client({
             region: region,
-            credentials: {
-                accessKeyId: accessKeyId,
-                secretAccessKey: secretAccessKey
-            }
+            credentials: createAwsCredentials(credentials, region),
+            ...(endpoint ? { endpoint } : {}),
+            ...(forcePathStyle !== undefined ? { forcePathStyle } : {}),
+            ...(tls ? { requestHandler: { httpsAgent: createHttpsAgent(tls, endpoint ?? "S3") } } : {})
         });
     }
 
@@ -87,75 +150,120 @@ export default class AWS3UploadClient extends CloudUploadClient {
     }
 
     /**
-     * Factory method for creating an {@link AWS3UploadClient}.
+     * Factory method for creating an {@link AWS3UploadClient} with static access keys.
      *
      * @param bucketName - Name of the target S3 bucket
      * @param region - AWS region where the bucket is hosted
      * @param accessKeyId - AWS access key ID
      * @param secretAccessKey - AWS secret access key
+     * @param opts - Endpoint, TLS and multipart settings
      * @returns A fully initialized {@link AWS3UploadClient}
      */
-    static override async Create(bucketName: string, region: string, accessKeyId: string, secretAccessKey: string): Promise<AWS3UploadClient> {
-        return new AWS3UploadClient(bucketName, region, accessKeyId, secretAccessKey);
+    static override async Create(
+        bucketName: string,
+        region: string,
+        accessKeyId: string,
+        secretAccessKey: string,
+        opts: AWS3UploadClientOpts = {}
+    ): Promise<AWS3UploadClient> {
+        return new AWS3UploadClient(bucketName, region, { mode: "static", accessKeyId, secretAccessKey }, opts);
     }
 
     /**
-     * Uploads data to AWS S3.
+     * Factory method for creating an {@link AWS3UploadClient} with any credential mode
+     * (static keys, default provider chain, named profile or assumed role).
      *
-     * If `opts.filePath` is provided, it will be used verbatim as the S3 object key.
-     * Otherwise, a deterministic path and filename will be generated based on
-     * {@link CloudUploadOpts}.
+     * @param bucketName - Name of the target S3 bucket
+     * @param region - AWS region where the bucket is hosted
+     * @param credentials - How AWS credentials are obtained
+     * @param opts - Endpoint, TLS and multipart settings
+     * @returns A fully initialized {@link AWS3UploadClient}
+     */
+    static async FromCredentials(
+        bucketName: string,
+        region: string,
+        credentials: AwsCredentialsOpts,
+        opts: AWS3UploadClientOpts = {}
+    ): Promise<AWS3UploadClient> {
+        return new AWS3UploadClient(bucketName, region, credentials, opts);
+    }
+
+    /**
+     * Uploads data to AWS S3.
      *
-     * Generated filename format:
-     * `{{serviceName}}-{{dataSourceName}}-{{YYYY-MM-DD}}.json`
+     * The object key is `opts.filePath` when provided, otherwise it is
+     * generated from {@link CloudUploadOpts} (see {@link CloudUploadClient.objectPathFor}).
      *
-     * Generated path formats:
-     * - Global:
-     *   `global/{{serviceName}}/{{dataSourceName}}/{{filename}}`
-     * - Site-specific:
-     *   `{{serviceLocation}}/{{siteName}}/{{serviceName}}/{{dataSourceName}}/{{filename}}`
+     * Payloads smaller than the multipart threshold are sent with a single
+     * `PutObjectCommand`; larger ones use a multipart upload.
      *
-     * @param data - Payload to upload (Buffer, Blob, or string)
+     * @param data - Payload to upload (Buffer, Blob, string or readable stream)
      * @param opts - Upload options and metadata
+     * @returns ETag and version ID of the object
      *
      * @throws If the underlying S3 client is disconnected
-     * @throws If the AWS SDK `PutObjectCommand` fails
+     * @throws UploadError If the upload fails
      */
     protected async upload(
-        data: Buffer | Blob | string, 
+        data: UploadBody, 
         opts: CloudUploadOptsOut
     ) {
-        let { filePath, filename } = opts;
-
-        if(!filePath) {
-            const {
-                serviceName,
-                dataSourceName, 
-                serviceLocation,
-                siteName,
-                extension
-            } = opts;
-            
-            // stupid but AWS Glue doesn't like the ndjson extension even though the data is arranged in ndjson format
-            const fixedExtension = extension === "ndjson" ? "json" : extension;
-
-            filename = filename ?? `${serviceName}-${dataSourceName}-${timeToday}.${fixedExtension}`;
-            filePath = serviceLocation === "global"
-                ? `global/${serviceName}/${serviceName}_${dataSourceName}/${filename}`
-                : `site/${dataSourceName}/site=${siteName}/date=${date}/data.json`;
-        }
+        const filePath = this.objectPathFor(opts);
+        const { contentType, contentEncoding } = this.contentHeadersFor(opts);
 
-        const command = new PutObjectCommand({
+        const params = {
             Bucket: this.#bucketName,
             Key: filePath,
-            Body: data,
-            ContentType: "text/plain",
-            CacheControl: `max-age=${365 * 24 * 60 * 60 * 1000})` // expires in 1 year
-        });
+            ContentType: contentType,
+            ...(contentEncoding ? { ContentEncoding: contentEncoding } : {}),
+            CacheControl: `max-age=${365 * 24 * 60 * 60}` // expires in 1 year
+        };
 
-        await this.#s3Client.send(command);
+        let summary = "";
+        let receipt: UploadReceipt;
 
-        LoggerFactory.GetLogger().info(`Successfully uploaded to S3 🪣  s3://${this.#bucketName}/${filePath}`);
+        try {
+            const { thresholdBytes, partSizeBytes } = this.#multipart;
+            const parts = partsOf(data, partSizeBytes);
+
+            // read ahead up to the threshold to decide between a single request and a multipart upload
+            const head: Buffer[] = [];
+            let headBytes = 0;
+            let next = await parts.next();
+
+            while (!next.done && headBytes + next.value.length < thresholdBytes) {
+                head.push(next.value);
+                headBytes += next.value.length;
+                next = await parts.next();
+            }
+
+            if (next.done) {
+                const { ETag, VersionId } = await this.#s3Client.send(new PutObjectCommand({ ...params, Body: Buffer.concat(head) }));
+                receipt = { etag: ETag, versionId: VersionId };
+            } else {
+                const first = next.value;
+                const result = await new S3MultipartUpload(this.#s3Client, params, this.#multipart).upload(
+                    (async function* () {
+                        yield* head;
+                        yield first;
+                        yield* parts;
+                    })()
+                );
+                summary = ` (${result.parts} parts, ${(result.bytes / 1024 / 1024).toFixed(1)} MiB)`;
+                receipt = { etag: result.etag, versionId: result.versionId };
+            }
+        } catch (error: any) {
+            throw new UploadError(this.name, `${error?.name ?? "Error"}: ${error?.message}`, {
+                route: `s3://${this.#bucketName}/${filePath}`,
+                status: error?.$metadata?.httpStatusCode,
+                attempts: error?.$metadata?.attempts ?? 1,
+                retryable: isRetryableS3Error(error),
+                cause: error
+            });
+        }
+
+        LoggerFactory.GetLogger().info(`Successfully uploaded to S3 🪣  s3://${this.#bucketName}/${filePath}${summary}`);
+        return receipt;
     }
 
     /**
@@ -164,7 +272,8 @@ export default class AWS3UploadClient extends CloudUploadClient {
      * Intended to be used during configuration parsing (e.g. environment
      * variable validation) when `CLOUD_CLIENT` is set to `"aws_s3"`.
      *
-     * Adds Zod issues for any missing required AWS fields.
+     * Adds Zod issues for any missing required AWS fields. Credential fields
+     * are only required by the selected `AWS_AUTH_MODE`.
      *
      * @param data - Raw configuration object (typically process.env)
      * @param ctx - Zod refinement context
@@ -172,11 +281,18 @@ export default class AWS3UploadClient extends CloudUploadClient {
      */
     static override validateConfig = (data: any, ctx: z.RefinementCtx): boolean => {
         const requiredAwsFields = [
-            "AWS_SECRET_ACCESS_KEY",
-            "AWS_ACCESS_KEY_ID",
             "AWS_S3_BUCKET_NAME",
-            "AWS_REGION"
+            // S3-compatible servers mostly ignore the region, so it defaults when an endpoint is set
+            ...(data.AWS_S3_ENDPOINT ? [] : ["AWS_REGION"])
         ];
+
+        const authMode = data.AWS_AUTH_MODE ?? "static";
+        const requiredAuthFields: Record<string, string[]> = {
+            "static": ["AWS_SECRET_ACCESS_KEY", "AWS_ACCESS_KEY_ID"],
+            "default_chain": [],
+            "profile": ["AWS_PROFILE"],
+            "assume_role": ["AWS_ROLE_ARN"]
+        };
     
         let success = true;
 
@@ -191,6 +307,17 @@ export default class AWS3UploadClient extends CloudUploadClient {
             }
         }
 
+        for(const field of requiredAuthFields[authMode] ?? []) {
+            if(!data[field]) {
+                ctx.addIssue({
+                    code: "custom",
+                    path: [field],
+                    message: `When AWS_AUTH_MODE is '${authMode}', ${field} is required.`
+                });
+                success = false;
+            }
+        }
+
         return success;
     }
 }
@@ -0,0 +1,148 @@
+import { fromIni, fromNodeProviderChain, fromTemporaryCredentials } from "@aws-sdk/credential-providers";
+import type { S3ClientConfig } from "@aws-sdk/client-s3";
+
+import type { CloudConfig } from "../../config/modules/cloud";
+import { ConfigurationError } from "../../errors";
+
+/**
+ * Static access keys.
+ */
+export interface StaticAwsCredentials {
+    mode: "static";
+    accessKeyId: string;
+    secretAccessKey: string;
+    sessionToken?: string;
+}
+
+/**
+ * The SDK default provider chain: environment variables, shared files, SSO,
+ * web identity tokens (EKS) and container/instance roles (ECS/EC2).
+ */
+export interface DefaultChainAwsCredentials {
+    mode: "default_chain";
+}
+
+/**
+ * A named profile from the shared config/credentials files.
+ */
+export interface ProfileAwsCredentials {
+    mode: "profile";
+    profile: string;
+}
+
+/**
+ * An IAM role assumed through STS.
+ */
+export interface AssumeRoleAwsCredentials {
+    mode: "assume_role";
+    /** ARN of the role to assume */
+    roleArn: string;
+    /** External ID required by the role's trust policy, if any */
+    externalId?: string;
+    /** Session name recorded in CloudTrail (default `"collector"`) */
+    sessionName?: string;
+    /** Session duration in seconds */
+    durationSeconds?: number;
+    /** Credentials used to call STS (default: the default provider chain) */
+    source?: StaticAwsCredentials | DefaultChainAwsCredentials | ProfileAwsCredentials;
+}
+
+/**
+ * How an S3 client obtains its AWS credentials.
+ */
+export type AwsCredentialsOpts =
+    | StaticAwsCredentials
+    | DefaultChainAwsCredentials
+    | ProfileAwsCredentials
+    | AssumeRoleAwsCredentials;
+
+/**
+ * Builds the credentials or credential provider for an AWS SDK client.
+ *
+ * @param opts - Credential mode and its settings
+ * @param region - Region used for STS calls when assuming a role
+ * @returns Static credentials or a refreshing credential provider
+ */
+export const createAwsCredentials = (
+    opts: AwsCredentialsOpts,
+    region?: string
+): NonNullable<S3ClientConfig["credentials"]> => {
+    switch (opts.mode) {
+        case "static": {
+            const { accessKeyId, secretAccessKey, sessionToken } = opts;
+            return { accessKeyId, secretAccessKey, ...(sessionToken ? { sessionToken } : {}) };
+        }
+        case "default_chain":
+            return fromNodeProviderChain();
+        case "profile":
+            return fromIni({ profile: opts.profile });
+        case "assume_role":
+            return fromTemporaryCredentials({
+                masterCredentials: opts.source ? createAwsCredentials(opts.source, region) : undefined,
+                params: {
+                    RoleArn: opts.roleArn,
+                    RoleSessionName: opts.sessionName ?? "collector",
+                    ...(opts.externalId ? { ExternalId: opts.externalId } : {}),
+                    ...(opts.durationSeconds ? { DurationSeconds: opts.durationSeconds } : {})
+                },
+                ...(region ? { clientConfig: { region } } : {})
+            });
+    }
+}
+
+/**
+ * Derives the credential settings from the cloud configuration.
+ *
+ * For `assume_role`, STS is called with the static keys when configured,
+ * otherwise with `AWS_PROFILE` when set, otherwise with the default chain.
+ *
+ * @param config - Parsed cloud configuration
+ * @returns Credential settings for {@link createAwsCredentials}
+ * @throws ConfigurationError If a field required by the mode is missing
+ */
+export const awsCredentialsFromConfig = (config: CloudConfig): AwsCredentialsOpts => {
+    const {
+        AWS_AUTH_MODE,
+        AWS_ACCESS_KEY_ID,
+        AWS_SECRET_ACCESS_KEY,
+        AWS_SESSION_TOKEN,
+        AWS_PROFILE,
+        AWS_ROLE_ARN,
+        AWS_ROLE_EXTERNAL_ID,
+        AWS_ROLE_SESSION_NAME,
+        AWS_ROLE_DURATION_SECONDS
+    } = config;
+
+    const staticKeys = (): StaticAwsCredentials | undefined => AWS_ACCESS_KEY_ID && AWS_SECRET_ACCESS_KEY
+        ? { mode: "static", accessKeyId: AWS_ACCESS_KEY_ID, secretAccessKey: AWS_SECRET_ACCESS_KEY, sessionToken: AWS_SESSION_TOKEN }
+        : undefined;
+
+    switch (AWS_AUTH_MODE) {
+        case "static": {
+            const keys = staticKeys();
+            if (!keys) {
+                throw new ConfigurationError("AWS_AUTH_MODE 'static' requires AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY", ["AWS_ACCESS_KEY_ID", "AWS_SECRET_ACCESS_KEY"]);
+            }
+            return keys;
+        }
+        case "default_chain":
+            return { mode: "default_chain" };
+        case "profile":
+            if (!AWS_PROFILE) {
+                throw new ConfigurationError("AWS_AUTH_MODE 'profile' requires AWS_PROFILE", ["AWS_PROFILE"]);
+            }
+            return { mode: "profile", profile: AWS_PROFILE };
+        case "assume_role":
+            if (!AWS_ROLE_ARN) {
+                throw new ConfigurationError("AWS_AUTH_MODE 'assume_role' requires AWS_ROLE_ARN", ["AWS_ROLE_ARN"]);
+            }
+            return {
+                mode: "assume_role",
+                roleArn: AWS_ROLE_ARN,
+                externalId: AWS_ROLE_EXTERNAL_ID,
+                sessionName: AWS_ROLE_SESSION_NAME,
+                durationSeconds: AWS_ROLE_DURATION_SECONDS,
+                source: staticKeys() ?? (AWS_PROFILE ? { mode: "profile", profile: AWS_PROFILE } : { mode: "default_chain" })
+            };
+    }
+}
@@ -0,0 +1,305 @@
+import {
+    BlobServiceClient,
+    StorageSharedKeyCredential,
+    type ContainerClient
+} from "@azure/storage-blob";
+import { Readable } from "stream";
+import z from "zod";
+
+import CloudUploadClient, { CloudUploadOptsOut, type UploadBody, type UploadReceipt } from "../cloudUploadClient";
+import type { CloudConfig } from "../../config/modules/cloud";
+import { ConfigurationError, UploadError } from "../../errors";
+import { LoggerFactory } from "../../logging/logger";
+
+/** One mebibyte */
+const MiB = 1024 * 1024;
+
+/**
+ * Azure Storage credentials from a connection string (includes Azurite's `UseDevelopmentStorage=true`).
+ */
+export interface ConnectionStringAzureCredentials {
+    mode: "connection_string";
+    connectionString: string;
+}
+
+/**
+ * Azure Storage account name and shared key.
+ */
+export interface SharedKeyAzureCredentials {
+    mode: "shared_key";
+    accountName: string;
+    accountKey: string;
+}
+
+/**
+ * Azure Storage account name and SAS token.
+ */
+export interface SasAzureCredentials {
+    mode: "sas";
+    accountName: string;
+    sasToken: string;
+}
+
+/**
+ * How an {@link AzureBlobUploadClient} authenticates.
+ */
+export type AzureCredentialsOpts = ConnectionStringAzureCredentials | SharedKeyAzureCredentials | SasAzureCredentials;
+
+/**
+ * Optional settings for an {@link AzureBlobUploadClient}.
+ */
+export interface AzureBlobUploadClientOpts {
+    /**
+     * Blob service URL, e.g. `http://127.0.0.1:10000/devstoreaccount1` for Azurite.
+     * Defaults to `https://{account}.blob.core.windows.net`; ignored with a connection string.
+     */
+    endpoint?: string;
+
+    /** Payloads of at least this many bytes are uploaded in blocks (default 16 MiB) */
+    thresholdBytes?: number;
+
+    /** Block size (default 8 MiB) */
+    blockSizeBytes?: number;
+
+    /** Number of blocks uploaded in parallel (default 4) */
+    concurrency?: number;
+}
+
+/**
+ * Default block upload settings.
+ */
+export const DefaultAzureBlobUploadOpts: Required<Omit<AzureBlobUploadClientOpts, "endpoint">> = {
+    thresholdBytes: 16 * MiB,
+    blockSizeBytes: 8 * MiB,
+    concurrency: 4
+};
+
+/**
+ * Builds Azure credentials from cloud configuration.
+ *
+ * A connection string wins over a shared key, which wins over a SAS token.
+ *
+ * @param config - Parsed cloud configuration
+ * @returns Credential settings
+ * @throws ConfigurationError If no usable credentials are configured
+ */
+export const azureCredentialsFromConfig = (config: CloudConfig): AzureCredentialsOpts => {
+    const { AZURE_STORAGE_CONNECTION_STRING, AZURE_STORAGE_ACCOUNT, AZURE_STORAGE_ACCOUNT_KEY, AZURE_STORAGE_SAS_TOKEN } = config;
+
+    if (AZURE_STORAGE_CONNECTION_STRING) {
+        return { mode: "connection_string", connectionString: AZURE_STORAGE_CONNECTION_STRING };
+    }
+
+    if (AZURE_STORAGE_ACCOUNT && AZURE_STORAGE_ACCOUNT_KEY) {
+        return { mode: "shared_key", accountName: AZURE_STORAGE_ACCOUNT, accountKey: AZURE_STORAGE_ACCOUNT_KEY };
+    }
+
+    if (AZURE_STORAGE_ACCOUNT && AZURE_STORAGE_SAS_TOKEN) {
+        return { mode: "sas", accountName: AZURE_STORAGE_ACCOUNT, sasToken: AZURE_STORAGE_SAS_TOKEN };
+    }
+
+    throw new ConfigurationError(
+        "Azure Blob Storage needs a connection string, or an account with a shared key or SAS token",
+        ["AZURE_STORAGE_CONNECTION_STRING", "AZURE_STORAGE_ACCOUNT", "AZURE_STORAGE_ACCOUNT_KEY", "AZURE_STORAGE_SAS_TOKEN"]
+    );
+}
+
+/**
+ * Creates the blob service client for the given credentials.
+ */
+const createServiceClient = (credentials: AzureCredentialsOpts, endpoint?: string): BlobServiceClient => {
+    if (credentials.mode === "connection_string") {
+        return BlobServiceClient.fromConnectionString(credentials.connectionString);
+    }
+
+    const url = (endpoint ?? `https://${credentials.accountName}.blob.core.windows.net`).replace(/\/+$/, "");
+
+    if (credentials.mode === "shared_key") {
+        return new BlobServiceClient(url, new StorageSharedKeyCredential(credentials.accountName, credentials.accountKey));
+    }
+
+    return new BlobServiceClient(`${url}?${credentials.sasToken.replace(/^\?/, "")}`);
+}
+
+/**
+ * Azure Blob Storage implementation of {@link CloudUploadClient}.
+ *
+ * Uploads block blobs to a container, using the same object paths as the
+ * other providers. Payloads reaching the threshold, and all streams, are
+ * staged as parallel blocks and committed as one blob.
+ *
+ * @example
+ * ```ts
+ * const client = await AzureBlobUploadClient.Create("collector", {
+ *   mode: "sas",
+ *   accountName: "inventorydata",
+ *   sasToken: process.env.AZURE_STORAGE_SAS_TOKEN!
+ * });
+ *
+ * await client.uploadFile(JSON.stringify(data), {
+ *   serviceName: "inventory",
+ *   dataSourceName: "proxmox",
+ *   serviceLocation: "global"
+ * });
+ * ```
+ *
+ * @example Azurite emulator
+ * ```ts
+ * const client = await AzureBlobUploadClient.Create("collector", {
+ *   mode: "connection_string",
+ *   connectionString: "UseDevelopmentStorage=true"
+ * });
+ * ```
+ */
+export default class AzureBlobUploadClient extends CloudUploadClient {
+    /**
+     * Target container.
+     */
+    #container: ContainerClient;
+
+    /**
+     * Block upload settings.
+     */
+    #opts: Required<Omit<AzureBlobUploadClientOpts, "endpoint">>;
+
+    /**
+     * Creates a new Azure Blob upload client.
+     *
+     * This constructor is protected to enforce creation through
+     * {@link Create}, keeping client initialization consistent across
+     * cloud providers.
+     *
+     * @param containerName - Name of the target container
+     * @param credentials - How to authenticate
+     * @param opts - Endpoint and block upload settings
+     */
+    protected constructor(containerName: string, credentials: AzureCredentialsOpts, opts: AzureBlobUploadClientOpts = {}) {
+        const service = createServiceClient(credentials, opts.endpoint);
+
+        super(`Azure Blob (${service.accountName})`);
+
+        this.#container = service.getContainerClient(containerName);
+        this.#opts = {
+            ...DefaultAzureBlobUploadOpts,
+            ...Object.fromEntries(Object.entries(opts).filter(([key, value]) => key !== "endpoint" && value !== undefined))
+        };
+    }
+
+    /**
+     * Nothing to release; the SDK holds no persistent connections.
+     */
+    Disconnect(): void {}
+
+    /**
+     * Factory method for creating an {@link AzureBlobUploadClient}.
+     *
+     * @param containerName - Name of the target container
+     * @param credentials - Connection string, shared key or SAS token
+     * @param opts - Endpoint and block upload settings
+     * @returns A fully initialized {@link AzureBlobUploadClient}
+     */
+    static override async Create(
+        containerName: string,
+        credentials: AzureCredentialsOpts,
+        opts: AzureBlobUploadClientOpts = {}
+    ): Promise<AzureBlobUploadClient> {
+        return new AzureBlobUploadClient(containerName, credentials, opts);
+    }
+
+    /**
+     * Uploads data as a block blob.
+     *
+     * The blob name is `opts.filePath` when provided, otherwise it is
+     * generated from the upload options (see {@link CloudUploadClient.objectPathFor}).
+     *
+     * @param data - Payload to upload (Buffer, Blob, string or readable stream)
+     * @param opts - Upload options and metadata
+     * @returns ETag and version ID of the blob
+     *
+     * @throws UploadError If the upload fails
+     */
+    protected async upload(
+        data: UploadBody,
+        opts: CloudUploadOptsOut
+    ): Promise<UploadReceipt> {
+        const blobName = this.objectPathFor(opts);
+        const blob = this.#container.getBlockBlobClient(blobName);
+        const { thresholdBytes, blockSizeBytes, concurrency } = this.#opts;
+
+        const { contentType, contentEncoding } = this.contentHeadersFor(opts);
+
+        const blobHTTPHeaders = {
+            blobContentType: contentType,
+            blobContentEncoding: contentEncoding,
+            blobCacheControl: `max-age=${365 * 24 * 60 * 60}`
+        };
+
+        let response: { etag?: string, versionId?: string };
+
+        try {
+            if (data instanceof Readable) {
+                response = await blob.uploadStream(data, blockSizeBytes, concurrency, { blobHTTPHeaders });
+            } else {
+                const buffer = typeof data === "string"
+                    ? Buffer.from(data, "utf-8")
+                    : data instanceof Blob ? Buffer.from(await data.arrayBuffer()) : data;
+
+                response = await blob.uploadData(buffer, {
+                    blobHTTPHeaders,
+                    blockSize: blockSizeBytes,
+                    concurrency,
+                    maxSingleShotSize: thresholdBytes
+                });
+            }
+        } catch (error: any) {
+            const status: number | undefined = error?.statusCode;
+
+            throw new UploadError(this.name, `${error?.code ?? error?.name ?? "Error"}: ${error?.message}`, {
+                route: blob.url.split("?")[0],
+                status,
+                retryable: status === undefined || status === 429 || status >= 500,
+                cause: error
+            });
+        }
+
+        LoggerFactory.GetLogger().info(`Successfully uploaded to Azure Blob 🔷 ${blob.url.split("?")[0]}`);
+        return { etag: response.etag, versionId: response.versionId };
+    }
+
+    /**
+     * Validates Azure-specific configuration at runtime.
+     *
+     * Intended to be used during configuration parsing when `CLOUD_PROVIDERS`
+     * contains `"azure_blob"`. Requires a container and either a connection
+     * string or an account with a shared key or SAS token.
+     *
+     * @param data - Raw configuration object (typically process.env)
+     * @param ctx - Zod refinement context
+     * @returns `true` if all required fields are present, otherwise `false`
+     */
+    static override validateConfig = (data: any, ctx: z.RefinementCtx): boolean => {
+        let success = true;
+
+        if (!data.AZURE_STORAGE_CONTAINER) {
+            ctx.addIssue({
+                code: "custom",
+                path: ["AZURE_STORAGE_CONTAINER"],
+                message: "When CLOUD_PROVIDERS includes 'azure_blob', AZURE_STORAGE_CONTAINER is required."
+            });
+            success = false;
+        }
+
+        const hasAccountAuth = data.AZURE_STORAGE_ACCOUNT && (data.AZURE_STORAGE_ACCOUNT_KEY || data.AZURE_STORAGE_SAS_TOKEN);
+
+        if (!data.AZURE_STORAGE_CONNECTION_STRING && !hasAccountAuth) {
+            ctx.addIssue({
+                code: "custom",
+                path: ["AZURE_STORAGE_CONNECTION_STRING"],
+                message: "When CLOUD_PROVIDERS includes 'azure_blob', AZURE_STORAGE_CONNECTION_STRING or AZURE_STORAGE_ACCOUNT with AZURE_STORAGE_ACCOUNT_KEY or AZURE_STORAGE_SAS_TOKEN is required."
+            });
+            success = false;
+        }
+
+        return success;
+    }
+}
@@ -0,0 +1,248 @@
+import { Storage, type Bucket, type StorageOptions } from "@google-cloud/storage";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import z from "zod";
+
+import CloudUploadClient, { CloudUploadOptsOut, type UploadBody, type UploadReceipt } from "../cloudUploadClient";
+import type { CloudConfig } from "../../config/modules/cloud";
+import { UploadError } from "../../errors";
+import { LoggerFactory } from "../../logging/logger";
+
+/** One mebibyte */
+const MiB = 1024 * 1024;
+
+/**
+ * Service account key fields used for authentication.
+ */
+export interface GcsServiceAccountCredentials {
+    client_email: string;
+    private_key: string;
+    [field: string]: unknown;
+}
+
+/**
+ * How a {@link GCSUploadClient} authenticates: a service account key file,
+ * inline service account credentials, or neither to use Application Default
+ * Credentials (and no authentication at all against a custom endpoint).
+ */
+export interface GcsCredentialsOpts {
+    /** Path of a service account JSON key file */
+    keyFilename?: string;
+
+    /** Inline service account key */
+    credentials?: GcsServiceAccountCredentials;
+
+    /** Project ID; read from the key when omitted */
+    projectId?: string;
+}
+
+/**
+ * Optional settings for a {@link GCSUploadClient}.
+ */
+export interface GCSUploadClientOpts {
+    /**
+     * Custom API endpoint, e.g. `http://localhost:4443` for fake-gcs-server.
+     * Requests to a custom endpoint are not authenticated.
+     */
+    endpoint?: string;
+
+    /** Payloads of at least this many bytes use a resumable upload (default 16 MiB) */
+    resumableThresholdBytes?: number;
+
+    /** Resumable upload chunk size, a multiple of 256 KiB (default: whole payload in one request) */
+    chunkSizeBytes?: number;
+}
+
+/**
+ * Builds GCS credentials from cloud configuration.
+ *
+ * @param config - Parsed cloud configuration
+ * @returns Credential settings
+ */
+export const gcsCredentialsFromConfig = (config: CloudConfig): GcsCredentialsOpts => ({
+    keyFilename: config.GCS_KEY_FILE,
+    credentials: config.GCS_CREDENTIALS_JSON,
+    projectId: config.GCS_PROJECT_ID
+});
+
+/**
+ * Google Cloud Storage implementation of {@link CloudUploadClient}.
+ *
+ * Uploads objects to a bucket using the same object paths as the other
+ * providers, so BigQuery load jobs can read collector output directly.
+ * Streams and payloads reaching the threshold use resumable uploads, which
+ * survive transient failures without restarting from the first byte.
+ *
+ * @example
+ * ```ts
+ * const client = await GCSUploadClient.Create("collector-exports", {
+ *   keyFilename: "/etc/collector/gcs-key.json"
+ * });
+ *
+ * await client.uploadFile(JSON.stringify(data), {
+ *   serviceName: "inventory",
+ *   dataSourceName: "proxmox",
+ *   serviceLocation: "global"
+ * });
+ * ```
+ *
+ * @example fake-gcs-server
+ * ```ts
+ * const client = await GCSUploadClient.Create("test-bucket", { projectId: "test" }, {
+ *   endpoint: "http://localhost:4443"
+ * });
+ * ```
+ */
+export default class GCSUploadClient extends CloudUploadClient {
+    /**
+     * Target bucket.
+     */
+    #bucket: Bucket;
+
+    /**
+     * Resumable upload settings.
+     */
+    #opts: GCSUploadClientOpts;
+
+    /**
+     * Creates a new GCS upload client.
+     *
+     * This constructor is protected to enforce creation through
+     * {@link Create}, keeping client initialization consistent across
+     * cloud providers.
+     *
+     * @param bucketName - Name of the target bucket
+     * @param credentials - Key file, inline key or Application Default Credentials
+     * @param opts - Endpoint and resumable upload settings
+     */
+    protected constructor(bucketName: string, credentials: GcsCredentialsOpts, opts: GCSUploadClientOpts = {}) {
+        super(opts.endpoint ? `GCS (${new URL(opts.endpoint).host})` : "Google Cloud Storage");
+
+        const storageOpts: StorageOptions = {
+            ...(credentials.projectId ? { projectId: credentials.projectId } : {}),
+            ...(credentials.keyFilename ? { keyFilename: credentials.keyFilename } : {}),
+            ...(credentials.credentials ? { credentials: credentials.credentials } : {}),
+            ...(opts.endpoint ? { apiEndpoint: opts.endpoint.replace(/\/+$/, "") } : {})
+        };
+
+        this.#bucket = new Storage(storageOpts).bucket(bucketName);
+        this.#opts = opts;
+    }
+
+    /**
+     * Nothing to release; the SDK holds no persistent connections.
+     */
+    Disconnect(): void {}
+
+    /**
+     * Factory method for creating a {@link GCSUploadClient}.
+     *
+     * @param bucketName - Name of the target bucket
+     * @param credentials - Key file, inline key or Application Default Credentials
+     * @param opts - Endpoint and resumable upload settings
+     * @returns A fully initialized {@link GCSUploadClient}
+     */
+    static override async Create(
+        bucketName: string,
+        credentials: GcsCredentialsOpts = {},
+        opts: GCSUploadClientOpts = {}
+    ): Promise<GCSUploadClient> {
+        return new GCSUploadClient(bucketName, credentials, opts);
+    }
+
+    /**
+     * Uploads data to Google Cloud Storage.
+     *
+     * The object name is `opts.filePath` when provided, otherwise it is
+     * generated from the upload options (see {@link CloudUploadClient.objectPathFor}).
+     *
+     * @param data - Payload to upload (Buffer, Blob, string or readable stream)
+     * @param opts - Upload options and metadata
+     * @returns ETag and generation of the object
+     *
+     * @throws UploadError If the upload fails
+     */
+    protected async upload(
+        data: UploadBody,
+        opts: CloudUploadOptsOut
+    ): Promise<UploadReceipt> {
+        const objectName = this.objectPathFor(opts);
+        const file = this.#bucket.file(objectName);
+        const { resumableThresholdBytes = 16 * MiB, chunkSizeBytes } = this.#opts;
+        const route = `gs://${this.#bucket.name}/${objectName}`;
+
+        const { contentType, contentEncoding } = this.contentHeadersFor(opts);
+
+        const writeOpts = {
+            contentType,
+            metadata: {
+                cacheControl: `max-age=${365 * 24 * 60 * 60}`,
+                ...(contentEncoding ? { contentEncoding } : {})
+            },
+            ...(chunkSizeBytes ? { chunkSize: chunkSizeBytes } : {})
+        };
+
+        try {
+            if (data instanceof Readable) {
+                await pipeline(data, file.createWriteStream({ ...writeOpts, resumable: true }));
+            } else {
+                const buffer = typeof data === "string"
+                    ? Buffer.from(data, "utf-8")
+                    : data instanceof Blob ? Buffer.from(await data.arrayBuffer()) : Buffer.from(data);
+
+                await file.save(buffer, { ...writeOpts, resumable: buffer.length >= resumableThresholdBytes });
+            }
+        } catch (error: any) {
+            const status: number | undefined = typeof error?.code === "number" ? error.code : undefined;
+
+            throw new UploadError(this.name, error?.message ?? String(error), {
+                route,
+                status,
+                retryable: status === undefined || status === 408 || status === 429 || status >= 500,
+                cause: error
+            });
+        }
+
+        LoggerFactory.GetLogger().info(`Successfully uploaded to GCS ☁️  ${route}`);
+
+        // the SDK stores the object resource returned by the final request
+        const { etag, generation } = file.metadata;
+        return { etag, versionId: generation !== undefined ? String(generation) : undefined };
+    }
+
+    /**
+     * Validates GCS-specific configuration at runtime.
+     *
+     * Intended to be used during configuration parsing when `CLOUD_PROVIDERS`
+     * contains `"gcs"`. Requires a bucket; credentials fall back to Application
+     * Default Credentials, and only one of `GCS_KEY_FILE` and `GCS_CREDENTIALS_JSON`
+     * may be set.
+     *
+     * @param data - Raw configuration object (typically process.env)
+     * @param ctx - Zod refinement context
+     * @returns `true` if the configuration is usable, otherwise `false`
+     */
+    static override validateConfig = (data: any, ctx: z.RefinementCtx): boolean => {
+        let success = true;
+
+        if (!data.GCS_BUCKET_NAME) {
+            ctx.addIssue({
+                code: "custom",
+                path: ["GCS_BUCKET_NAME"],
+                message: "When CLOUD_PROVIDERS includes 'gcs', GCS_BUCKET_NAME is required."
+            });
+            success = false;
+        }
+
+        if (data.GCS_KEY_FILE && data.GCS_CREDENTIALS_JSON) {
+            ctx.addIssue({
+                code: "custom",
+                path: ["GCS_CREDENTIALS_JSON"],
+                message: "Set either GCS_KEY_FILE or GCS_CREDENTIALS_JSON, not both."
+            });
+            success = false;
+        }
+
+        return success;
+    }
+}
@@ -0,0 +1,267 @@
+import axios, { isAxiosError, type AxiosRequestConfig } from "axios";
+import * as path from "path";
+import { Readable } from "stream";
+import { createGzip, gzipSync } from "zlib";
+import z from "zod";
+
+import CloudUploadClient, { CloudUploadOptsOut, type UploadBody, type UploadReceipt } from "../cloudUploadClient";
+import { HttpUploadMethod } from "../../config/types";
+import RetryPolicy, { type RetryPolicyOpts } from "../../api/retryPolicy";
+import { createHttpsAgent, type TlsOpts } from "../../api/tls";
+import { UploadError } from "../../errors";
+import { LoggerFactory } from "../../logging/logger";
+import { sleep } from "../../utils/util";
+
+/**
+ * Optional settings for an {@link HttpUploadClient}.
+ */
+export interface HttpUploadClientOpts {
+    /** Request method (default `POST`) */
+    method?: HttpUploadMethod;
+
+    /** Extra request headers, e.g. `{ Authorization: "Bearer ..." }` */
+    headers?: Record<string, string>;
+
+    /**
+     * Gzip the body and send `Content-Encoding: gzip` (default `true`).
+     * Payloads already compressed by the upload pipeline are sent as they are.
+     */
+    gzip?: boolean;
+
+    /**
+     * Retry settings; by default 3 retries on 408, 429, 5xx and network errors.
+     * Streamed bodies cannot be replayed and are sent once.
+     */
+    retry?: Partial<RetryPolicyOpts>;
+
+    /** Request timeout (default 5 minutes) */
+    timeoutMs?: number;
+
+    /** TLS settings for the endpoint (custom CA, pinning, insecure mode) */
+    tls?: TlsOpts;
+}
+
+/**
+ * Default retry settings of HTTP uploads.
+ */
+const DefaultHttpUploadRetry: Partial<RetryPolicyOpts> = {
+    maxRetries: 3,
+    baseDelayMs: 1000,
+    jitter: "equal",
+    // a retry sends the whole object again under the same `X-Object-Path`
+    retryableMethods: [...HttpUploadMethod]
+};
+
+/**
+ * Placeholders available in the URL template.
+ */
+const UrlPlaceholders = ["path", "filename", "serviceLocation", "serviceName", "dataSourceName", "siteName"] as const;
+
+/**
+ * Generic HTTP(S) implementation of {@link CloudUploadClient}.
+ *
+ * Sends every upload as one request to an ingestion endpoint. The URL is a
+ * template where `{path}` (the object path shared by all providers),
+ * `{filename}`, `{serviceLocation}`, `{serviceName}`, `{dataSourceName}` and
+ * `{siteName}` are replaced by URL-encoded values. The object path is also
+ * sent in the `X-Object-Path` header.
+ *
+ * Bodies are gzipped by default (unless the upload is already compressed)
+ * and retried on transient failures following a {@link RetryPolicy}.
+ *
+ * @example
+ * ```ts
+ * const client = await HttpUploadClient.Create("https://ingest.example.com/v1/{serviceName}/{dataSourceName}", {
+ *   headers: { Authorization: `Bearer ${process.env.INGEST_TOKEN}` }
+ * });
+ * ```
+ */
+export default class HttpUploadClient extends CloudUploadClient {
+    /**
+     * Endpoint URL template.
+     */
+    #urlTemplate: string;
+
+    /**
+     * Request settings.
+     */
+    #opts: HttpUploadClientOpts;
+
+    /**
+     * Retry decisions for failed requests.
+     */
+    #retryPolicy: RetryPolicy;
+
+    /**
+     * Base axios request configuration.
+     */
+    #requestConfig: AxiosRequestConfig;
+
+    /**
+     * Creates a new HTTP upload client.
+     *
+     * This constructor is protected to enforce creation through
+     * {@link Create}, keeping client initialization consistent across
+     * providers.
+     *
+     * @param urlTemplate - Endpoint URL, optionally with placeholders
+     * @param opts - Method, headers, compression, retry and TLS settings
+     */
+    protected constructor(urlTemplate: string, opts: HttpUploadClientOpts = {}) {
+        super(`HTTP (${new URL(urlTemplate.replace(/\{\w+\}/g, "x")).host})`);
+
+        this.#urlTemplate = urlTemplate;
+        this.#opts = opts;
+        this.#retryPolicy = new RetryPolicy({ ...DefaultHttpUploadRetry, ...opts.retry });
+        this.#requestConfig = {
+            method: opts.method ?? "POST",
+            timeout: opts.timeoutMs ?? 5 * 60 * 1000,
+            maxBodyLength: Infinity,
+            maxContentLength: Infinity,
+            ...(opts.tls ? { httpsAgent: createHttpsAgent(opts.tls, this.name) } : {})
+        };
+    }
+
+    /**
+     * Releases pooled connections of a custom HTTPS agent.
+     */
+    Disconnect(): void {
+        this.#requestConfig.httpsAgent?.destroy();
+    }
+
+    /**
+     * Factory method for creating an {@link HttpUploadClient}.
+     *
+     * @param urlTemplate - Endpoint URL, optionally with placeholders
+     * @param opts - Method, headers, compression, retry and TLS settings
+     * @returns A fully initialized {@link HttpUploadClient}
+     */
+    static override async Create(
+        urlTemplate: string,
+        opts: HttpUploadClientOpts = {}
+    ): Promise<HttpUploadClient> {
+        return new HttpUploadClient(urlTemplate, opts);
+    }
+
+    /**
+     * Sends data to the ingestion endpoint.
+     *
+     * @param data - Payload to upload (Buffer, Blob, string or readable stream)
+     * @param opts - Upload options and metadata
+     * @returns The `ETag` response header, if the endpoint sends one
+     *
+     * @throws UploadError If the endpoint rejects the upload or retries are exhausted
+     */
+    protected async upload(
+        data: UploadBody,
+        opts: CloudUploadOptsOut
+    ): Promise<UploadReceipt> {
+        const objectPath = this.objectPathFor(opts);
+        const url = this.urlFor(objectPath, opts);
+        const { contentType, contentEncoding } = this.contentHeadersFor(opts);
+        const gzip = !contentEncoding && (this.#opts.gzip ?? true);
+
+        const body = data instanceof Readable
+            ? (gzip ? data.pipe(createGzip()) : data)
+            : await this.bufferOf(data, gzip);
+
+        const config: AxiosRequestConfig = {
+            ...this.#requestConfig,
+            url,
+            data: body,
+            headers: {
+                "Content-Type": contentType,
+                "X-Object-Path": objectPath,
+                ...(gzip || contentEncoding ? { "Content-Encoding": contentEncoding ?? "gzip" } : {}),
+                ...this.#opts.headers
+            }
+        };
+
+        const startedAt = Date.now();
+        let etag: string | undefined;
+
+        for (let attempt = 1; ; attempt++) {
+            try {
+                const response = await axios.request(config);
+                etag = response?.headers?.etag;
+                break;
+            } catch (error: any) {
+                // a consumed stream cannot be sent again
+                const delay = body instanceof Readable ? null : this.#retryPolicy.nextDelay(error, attempt, Date.now() - startedAt);
+
+                if (delay === null) {
+                    throw new UploadError(this.name, `${error?.response?.status ?? error?.code ?? "Error"}: ${error?.message}`, {
+                        route: url,
+                        status: isAxiosError(error) ? error.response?.status : undefined,
+                        attempts: attempt,
+                        retryable: this.#retryPolicy.isRetryable(error),
+                        cause: error
+                    });
+                }
+
+                LoggerFactory.GetLogger().warn(
+                    `Retry ${attempt}/${this.#retryPolicy.opts.maxRetries} -> ${url} (${error?.response?.status ?? error?.code}) in ${delay}ms`
+                );
+                await sleep(delay);
+            }
+        }
+
+        LoggerFactory.GetLogger().info(`Successfully uploaded via HTTP 🌐 ${url}`);
+        return { etag };
+    }
+
+    /**
+     * Fills the URL template for an upload.
+     */
+    private urlFor(objectPath: string, opts: CloudUploadOptsOut): string {
+        const values: Record<typeof UrlPlaceholders[number], string | undefined> = {
+            path: objectPath.split("/").map(encodeURIComponent).join("/"),
+            filename: encodeURIComponent(path.posix.basename(objectPath)),
+            serviceLocation: opts.serviceLocation,
+            serviceName: opts.serviceName,
+            dataSourceName: opts.dataSourceName,
+            siteName: opts.siteName
+        };
+
+        return this.#urlTemplate.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+            if (!(UrlPlaceholders as readonly string[]).includes(name)) return placeholder;
+
+            const value = values[name as typeof UrlPlaceholders[number]];
+            return name === "path" || name === "filename" ? value! : encodeURIComponent(value ?? "");
+        });
+    }
+
+    /**
+     * Returns an in-memory body as a Buffer, gzipped if requested.
+     */
+    private async bufferOf(data: Exclude<UploadBody, Readable>, gzip: boolean): Promise<Buffer> {
+        const buffer = typeof data === "string"
+            ? Buffer.from(data, "utf-8")
+            : data instanceof Blob ? Buffer.from(await data.arrayBuffer()) : Buffer.from(data);
+
+        return gzip ? gzipSync(buffer) : buffer;
+    }
+
+    /**
+     * Validates HTTP upload configuration at runtime.
+     *
+     * Intended to be used during configuration parsing when `CLOUD_PROVIDERS`
+     * contains `"http"`. Requires the endpoint URL template.
+     *
+     * @param data - Raw configuration object (typically process.env)
+     * @param ctx - Zod refinement context
+     * @returns `true` if all required fields are present, otherwise `false`
+     */
+    static override validateConfig = (data: any, ctx: z.RefinementCtx): boolean => {
+        if (!data.HTTP_UPLOAD_URL) {
+            ctx.addIssue({
+                code: "custom",
+                path: ["HTTP_UPLOAD_URL"],
+                message: "When CLOUD_PROVIDERS includes 'http', HTTP_UPLOAD_URL is required."
+            });
+            return false;
+        }
+
+        return true;
+    }
+}
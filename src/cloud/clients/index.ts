@@ -1,2 +1,37 @@
-import AWS3UploadClient from "./aws3UploadClient";
-export { AWS3UploadClient }
\ No newline at end of file
+import AWS3UploadClient, { type AWS3UploadClientOpts } from "./aws3UploadClient";
+import AzureBlobUploadClient, {
+    azureCredentialsFromConfig,
+    DefaultAzureBlobUploadOpts,
+    type AzureBlobUploadClientOpts,
+    type AzureCredentialsOpts
+} from "./azureBlobUploadClient";
+import GCSUploadClient, { gcsCredentialsFromConfig, type GCSUploadClientOpts, type GcsCredentialsOpts } from "./gcsUploadClient";
+import HttpUploadClient, { type HttpUploadClientOpts } from "./httpUploadClient";
+import LocalFileUploadClient from "./localFileUploadClient";
+import SftpUploadClient, { type SftpUploadClientOpts } from "./sftpUploadClient";
+import S3MultipartUpload, { DefaultS3MultipartOpts, type S3MultipartOpts } from "./s3MultipartUpload";
+import { awsCredentialsFromConfig, createAwsCredentials, type AwsCredentialsOpts } from "./awsCredentials";
+export {
+    AWS3UploadClient,
+    AzureBlobUploadClient,
+    GCSUploadClient,
+    SftpUploadClient,
+    HttpUploadClient,
+    LocalFileUploadClient,
+    S3MultipartUpload,
+    DefaultS3MultipartOpts,
+    awsCredentialsFromConfig,
+    createAwsCredentials,
+    azureCredentialsFromConfig,
+    DefaultAzureBlobUploadOpts,
+    gcsCredentialsFromConfig,
+    type AWS3UploadClientOpts,
+    type AwsCredentialsOpts,
+    type AzureBlobUploadClientOpts,
+    type AzureCredentialsOpts,
+    type GCSUploadClientOpts,
+    type GcsCredentialsOpts,
+    type SftpUploadClientOpts,
+    type HttpUploadClientOpts,
+    type S3MultipartOpts
+}
@@ -0,0 +1,144 @@
+import { randomBytes } from "crypto";
+import { createWriteStream } from "fs";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import z from "zod";
+
+import CloudUploadClient, { CloudUploadOptsOut, type UploadBody } from "../cloudUploadClient";
+import { UploadError } from "../../errors";
+import { LoggerFactory } from "../../logging/logger";
+
+/**
+ * Local filesystem implementation of {@link CloudUploadClient}.
+ *
+ * Writes uploads below a root directory using the same object paths as the
+ * cloud providers, so development, staging and air-gapped on-prem
+ * deployments run the exact code path production uses.
+ *
+ * Each file is written to a temporary sibling first and renamed into place,
+ * so readers never see a partially written file. Missing directories are created.
+ *
+ * @example
+ * ```ts
+ * const client = await LocalFileUploadClient.Create("/var/lib/collector/exports");
+ *
+ * await client.uploadFile(JSON.stringify(data), {
+ *   serviceName: "inventory",
+ *   dataSourceName: "proxmox",
+ *   serviceLocation: "global"
+ * });
+ * // → /var/lib/collector/exports/global/inventory/inventory_proxmox/inventory-proxmox-<date>.json
+ * ```
+ */
+export default class LocalFileUploadClient extends CloudUploadClient {
+    /**
+     * Absolute directory all files are written below.
+     */
+    #rootDir: string;
+
+    /**
+     * Creates a new local filesystem upload client.
+     *
+     * This constructor is protected to enforce creation through
+     * {@link Create}, keeping client initialization consistent across
+     * providers.
+     *
+     * @param rootDir - Directory all files are written below
+     */
+    protected constructor(rootDir: string) {
+        super("Local filesystem");
+        this.#rootDir = path.resolve(rootDir);
+    }
+
+    /**
+     * Returns the absolute root directory.
+     */
+    get rootDir() { return this.#rootDir; }
+
+    /**
+     * Nothing to release; present for interface compatibility.
+     */
+    Disconnect(): void {}
+
+    /**
+     * Factory method for creating a {@link LocalFileUploadClient}.
+     *
+     * @param rootDir - Directory all files are written below (created on first upload)
+     * @returns A fully initialized {@link LocalFileUploadClient}
+     */
+    static override async Create(rootDir: string): Promise<LocalFileUploadClient> {
+        return new LocalFileUploadClient(rootDir);
+    }
+
+    /**
+     * Writes data below the root directory.
+     *
+     * The file path is `opts.filePath` when provided, otherwise it is
+     * generated from the upload options (see {@link CloudUploadClient.objectPathFor}).
+     *
+     * @param data - Payload to write (Buffer, Blob, string or readable stream)
+     * @param opts - Upload options and metadata
+     *
+     * @throws UploadError If the path leaves the root directory or the write fails
+     */
+    protected async upload(
+        data: UploadBody,
+        opts: CloudUploadOptsOut
+    ) {
+        const filePath = this.resolveFilePath(this.objectPathFor(opts));
+        const tempPath = `${filePath}.${randomBytes(6).toString("hex")}.tmp`;
+
+        try {
+            await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+            if (data instanceof Readable) {
+                await pipeline(data, createWriteStream(tempPath));
+            } else {
+                const content = data instanceof Blob ? Buffer.from(await data.arrayBuffer()) : data;
+                await fs.writeFile(tempPath, content);
+            }
+
+            await fs.rename(tempPath, filePath);
+        } catch (error: any) {
+            await fs.rm(tempPath, { force: true });
+
+            throw new UploadError(this.name, error?.message ?? String(error), {
+                route: filePath,
+                cause: error
+            });
+        }
+
+        LoggerFactory.GetLogger().info(`Successfully wrote to 📁 ${filePath}`);
+    }
+
+    /**
+     * Resolves an object path below the root directory.
+     *
+     * @throws UploadError If the path points outside the root directory
+     */
+    private resolveFilePath(objectPath: string): string {
+        const filePath = path.resolve(this.#rootDir, objectPath);
+        const relative = path.relative(this.#rootDir, filePath);
+
+        if (relative === "" || relative.split(path.sep)[0] === ".." || path.isAbsolute(relative)) {
+            throw new UploadError(this.name, `path '${objectPath}' is outside of '${this.#rootDir}'`, { route: objectPath });
+        }
+
+        return filePath;
+    }
+
+    /**
+     * Validates local filesystem configuration at runtime.
+     *
+     * Nothing is required: `LOCAL_FS_ROOT_DIR` defaults to `data`.
+     *
+     * @param data - Raw configuration object (typically process.env)
+     * @param ctx - Zod refinement context
+     * @returns Always `true`
+     */
+    static override validateConfig = (data: any, ctx: z.RefinementCtx): boolean => {
+        return true;
+    }
+}
@@ -0,0 +1,312 @@
+import {
+    AbortMultipartUploadCommand,
+    CompleteMultipartUploadCommand,
+    CreateMultipartUploadCommand,
+    UploadPartCommand,
+    type CompletedPart,
+    type S3Client
+} from "@aws-sdk/client-s3";
+import { Readable } from "stream";
+
+import { LoggerFactory } from "../../logging/logger";
+import { sleep } from "../../utils/util";
+import { type UploadBody } from "../cloudUploadClient";
+
+/** One mebibyte */
+const MiB = 1024 * 1024;
+
+/** Smallest part size S3 accepts for every part but the last */
+export const S3_MIN_PART_SIZE = 5 * MiB;
+
+/** Largest number of parts S3 accepts in one upload */
+export const S3_MAX_PARTS = 10000;
+
+/**
+ * Multipart upload settings.
+ */
+export interface S3MultipartOpts {
+    /** Payloads of at least this many bytes are uploaded in parts (default 16 MiB) */
+    thresholdBytes?: number;
+
+    /** Size of every part but the last, at least 5 MiB (default 8 MiB) */
+    partSizeBytes?: number;
+
+    /** Number of parts uploaded in parallel (default 4) */
+    concurrency?: number;
+
+    /** Retries per failed part, on top of the SDK's own retries (default 3) */
+    partRetries?: number;
+
+    /** Base delay of the exponential backoff between part retries (default 500ms) */
+    retryDelayMs?: number;
+}
+
+/**
+ * Default multipart upload settings.
+ */
+export const DefaultS3MultipartOpts: Required<S3MultipartOpts> = {
+    thresholdBytes: 16 * MiB,
+    partSizeBytes: 8 * MiB,
+    concurrency: 4,
+    partRetries: 3,
+    retryDelayMs: 500
+};
+
+/**
+ * Fills unset multipart settings with the defaults.
+ *
+ * @param opts - Partial settings; `undefined` values fall back to the defaults
+ * @returns Complete settings
+ */
+export const withMultipartDefaults = (opts: S3MultipartOpts = {}): Required<S3MultipartOpts> => ({
+    ...DefaultS3MultipartOpts,
+    ...Object.fromEntries(Object.entries(opts).filter(([, value]) => value !== undefined))
+});
+
+/**
+ * Object parameters shared by every request of an upload.
+ */
+export interface S3ObjectParams {
+    Bucket: string;
+    Key: string;
+    ContentType?: string;
+    CacheControl?: string;
+}
+
+/**
+ * Error codes and names of network failures worth retrying.
+ */
+const RetryableS3NetworkErrors = [
+    "ECONNRESET",
+    "ECONNREFUSED",
+    "ECONNABORTED",
+    "EPIPE",
+    "ETIMEDOUT",
+    "ENOTFOUND",
+    "EAI_AGAIN",
+    "TimeoutError",
+    "RequestTimeout",
+    "RequestTimeoutException",
+    "NetworkingError"
+];
+
+/**
+ * Decides whether a failed S3 request may succeed when retried later:
+ * throttling, server-side (5xx) and known network failures are transient.
+ * Anything else without an HTTP status (programming, serialization or
+ * credential errors) surfaces at once.
+ */
+export const isRetryableS3Error = (error: any): boolean => {
+    const status: number | undefined = error?.$metadata?.httpStatusCode;
+
+    if (error?.$retryable) return true;
+    if (status !== undefined) return status === 429 || status >= 500;
+
+    return RetryableS3NetworkErrors.includes(error?.code) || RetryableS3NetworkErrors.includes(error?.name);
+}
+
+/**
+ * Splits any upload body into parts of exactly `partSize` bytes (the last may be shorter).
+ *
+ * In-memory bodies are sliced without copying; streams are read incrementally
+ * so at most one part is buffered.
+ *
+ * @param body - Payload to split
+ * @param partSize - Part size in bytes
+ * @returns Async iterator over the parts
+ */
+export async function* partsOf(body: UploadBody, partSize: number): AsyncGenerator<Buffer> {
+    if (typeof body === "string" || body instanceof Uint8Array) {
+        const buffer = typeof body === "string" ? Buffer.from(body, "utf-8") : Buffer.from(body.buffer, body.byteOffset, body.byteLength);
+
+        for (let offset = 0; offset < buffer.length; offset += partSize) {
+            yield buffer.subarray(offset, offset + partSize);
+        }
+        return;
+    }
+
+    if (body instanceof Blob) {
+        for (let offset = 0; offset < body.size; offset += partSize) {
+            yield Buffer.from(await body.slice(offset, offset + partSize).arrayBuffer());
+        }
+        return;
+    }
+
+    let pending: Buffer[] = [];
+    let pendingBytes = 0;
+
+    for await (const chunk of body as Readable) {
+        let data: Buffer = typeof chunk === "string" ? Buffer.from(chunk, "utf-8") : Buffer.from(chunk);
+
+        while (pendingBytes + data.length >= partSize) {
+            const take = partSize - pendingBytes;
+            pending.push(data.subarray(0, take));
+            yield Buffer.concat(pending);
+
+            data = data.subarray(take);
+            pending = [];
+            pendingBytes = 0;
+        }
+
+        if (data.length > 0) {
+            pending.push(data);
+            pendingBytes += data.length;
+        }
+    }
+
+    if (pendingBytes > 0) {
+        yield Buffer.concat(pending);
+    }
+}
+
+/**
+ * S3 multipart upload with parallel parts, per-part retry and cleanup.
+ *
+ * Parts are pulled from the body as upload slots free up, so a streamed body
+ * never holds more than `concurrency` parts in memory. When any part fails for
+ * good, in-flight parts are awaited and the upload is aborted so no incomplete
+ * upload (and its storage cost) is left behind.
+ *
+ * @example
+ * ```ts
+ * const upload = new S3MultipartUpload(s3Client, { Bucket: "bucket", Key: "exports/data.json" });
+ * await upload.upload(partsOf(fs.createReadStream("data.json"), 8 * 1024 * 1024));
+ * ```
+ */
+export default class S3MultipartUpload {
+    /** S3 SDK client */
+    #client: S3Client;
+
+    /** Target object */
+    #params: S3ObjectParams;
+
+    /** Upload settings */
+    #opts: Required<S3MultipartOpts>;
+
+    /**
+     * @param client - S3 SDK client
+     * @param params - Target bucket, key and object metadata
+     * @param opts - Concurrency and retry settings
+     */
+    constructor(client: S3Client, params: S3ObjectParams, opts: S3MultipartOpts = {}) {
+        this.#client = client;
+        this.#params = params;
+        this.#opts = withMultipartDefaults(opts);
+    }
+
+    /**
+     * Uploads the parts and completes the upload.
+     *
+     * @param parts - Parts in order; all but the last must be at least 5 MiB
+     * @returns Number of parts and bytes uploaded, and the ETag and version ID of the object
+     * @throws The error of the first part that failed for good, after aborting the upload
+     */
+    async upload(parts: AsyncIterable<Buffer>): Promise<{ parts: number, bytes: number, etag?: string, versionId?: string }> {
+        const logger = LoggerFactory.GetLogger();
+        const { Bucket, Key } = this.#params;
+
+        const { UploadId } = await this.#client.send(new CreateMultipartUploadCommand(this.#params));
+        logger.debug(`Started multipart upload of s3://${Bucket}/${Key} (${UploadId})`);
+
+        const completed: CompletedPart[] = [];
+        const inFlight = new Set<Promise<void>>();
+        let failure: unknown = undefined;
+        let partNumber = 0;
+        let bytes = 0;
+        let completion: { ETag?: string, VersionId?: string };
+
+        try {
+            for await (const body of parts) {
+                if (failure !== undefined) break;
+
+                partNumber++;
+                if (partNumber > S3_MAX_PARTS) {
+                    throw new Error(`Payload needs more than ${S3_MAX_PARTS} parts - increase the part size`);
+                }
+
+                bytes += body.length;
+
+                const current = partNumber;
+                const task: Promise<void> = this.uploadPart(UploadId!, current, body)
+                    .then(ETag => { completed.push({ ETag, PartNumber: current }); })
+                    .catch(error => { failure ??= error; })
+                    .finally(() => inFlight.delete(task));
+
+                inFlight.add(task);
+                if (inFlight.size >= this.#opts.concurrency) {
+                    await Promise.race(inFlight);
+                }
+            }
+
+            await Promise.all(inFlight);
+            if (failure !== undefined) throw failure;
+
+            completed.sort((a, b) => a.PartNumber! - b.PartNumber!);
+            completion = await this.#client.send(new CompleteMultipartUploadCommand({
+                Bucket,
+                Key,
+                UploadId,
+                MultipartUpload: { Parts: completed }
+            }));
+        } catch (error) {
+            await Promise.allSettled(inFlight);
+            await this.abort(UploadId!);
+            throw error;
+        }
+
+        logger.debug(`Completed multipart upload of s3://${Bucket}/${Key} (${partNumber} parts, ${bytes} bytes)`);
+        return { parts: partNumber, bytes, etag: completion?.ETag, versionId: completion?.VersionId };
+    }
+
+    /**
+     * Uploads one part, retrying transient failures with exponential backoff.
+     *
+     * @returns ETag of the uploaded part
+     */
+    private async uploadPart(uploadId: string, partNumber: number, body: Buffer): Promise<string> {
+        const { Bucket, Key } = this.#params;
+        const { partRetries, retryDelayMs } = this.#opts;
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                const { ETag } = await this.#client.send(new UploadPartCommand({
+                    Bucket,
+                    Key,
+                    UploadId: uploadId,
+                    PartNumber: partNumber,
+                    Body: body,
+                    ContentLength: body.length
+                }));
+
+                return ETag!;
+            } catch (error: any) {
+                if (attempt >= partRetries || !isRetryableS3Error(error)) {
+                    throw error;
+                }
+
+                const delay = retryDelayMs * 2 ** attempt;
+                LoggerFactory.GetLogger().warn(
+                    `Retry ${attempt + 1}/${partRetries} -> part ${partNumber} of s3://${Bucket}/${Key} (${error?.name ?? error}) in ${delay}ms`
+                );
+                await sleep(delay);
+            }
+        }
+    }
+
+    /**
+     * Aborts the upload so S3 discards the uploaded parts.
+     */
+    private async abort(uploadId: string) {
+        const { Bucket, Key } = this.#params;
+        const logger = LoggerFactory.GetLogger();
+
+        try {
+            await this.#client.send(new AbortMultipartUploadCommand({ Bucket, Key, UploadId: uploadId }));
+            logger.warn(`Aborted multipart upload of s3://${Bucket}/${Key} (${uploadId})`);
+        } catch (error: any) {
+            logger.error(
+                `Failed to abort multipart upload ${uploadId} of s3://${Bucket}/${Key} - incomplete parts may remain until a lifecycle rule removes them: ${error?.message ?? error}`
+            );
+        }
+    }
+}
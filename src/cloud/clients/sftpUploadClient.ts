@@ -0,0 +1,264 @@
+import { createHash, randomBytes } from "crypto";
+import * as path from "path";
+import SftpClient from "ssh2-sftp-client";
+import { Readable } from "stream";
+import z from "zod";
+
+import CloudUploadClient, { CloudUploadOptsOut, type UploadBody } from "../cloudUploadClient";
+import { UploadError } from "../../errors";
+import { LoggerFactory } from "../../logging/logger";
+
+/**
+ * Optional settings for an {@link SftpUploadClient}.
+ */
+export interface SftpUploadClientOpts {
+    /** SSH port (default 22) */
+    port?: number;
+
+    /** Password authentication */
+    password?: string;
+
+    /** Private key (PEM / OpenSSH format) for key authentication */
+    privateKey?: string | Buffer;
+
+    /** Passphrase of an encrypted private key */
+    passphrase?: string;
+
+    /** Remote directory uploads are written below (default: the login directory) */
+    remoteDir?: string;
+
+    /**
+     * Expected host key fingerprint in OpenSSH format (`SHA256:...`).
+     * Any host key is accepted when omitted.
+     */
+    hostKeyFingerprint?: string;
+
+    /** How long to wait for the SSH handshake (default 20s) */
+    readyTimeoutMs?: number;
+}
+
+/**
+ * Returns the OpenSSH `SHA256:` fingerprint of a host key.
+ */
+const fingerprintOf = (key: Buffer): string => {
+    return `SHA256:${createHash("sha256").update(key).digest("base64").replace(/=+$/, "")}`;
+}
+
+/**
+ * SFTP implementation of {@link CloudUploadClient}.
+ *
+ * Drops files below a remote directory using the same object paths as the
+ * other providers. Every file is written to a temporary name first and
+ * renamed into place, so pickup jobs on the remote side never read a
+ * partially written file. Missing directories are created.
+ *
+ * One SSH connection is opened on the first upload and shared by all
+ * uploads until {@link Disconnect}.
+ *
+ * @example
+ * ```ts
+ * const client = await SftpUploadClient.Create("sftp.customer.example", "collector", {
+ *   privateKey: fs.readFileSync("/etc/collector/id_ed25519"),
+ *   remoteDir: "/incoming/inventory",
+ *   hostKeyFingerprint: "SHA256:Vb9a..."
+ * });
+ * ```
+ */
+export default class SftpUploadClient extends CloudUploadClient {
+    /**
+     * SFTP session.
+     */
+    #sftp: SftpClient;
+
+    /**
+     * Pending or established connection, `null` while disconnected.
+     */
+    #connection: Promise<unknown> | null = null;
+
+    /**
+     * Connection settings.
+     */
+    #connectOpts: SftpClient.ConnectOptions;
+
+    /**
+     * Remote base directory.
+     */
+    #remoteDir: string;
+
+    /**
+     * Creates a new SFTP upload client.
+     *
+     * This constructor is protected to enforce creation through
+     * {@link Create}, keeping client initialization consistent across
+     * providers.
+     *
+     * @param host - SFTP server host name
+     * @param username - Login user
+     * @param opts - Authentication, directory and host key settings
+     */
+    protected constructor(host: string, username: string, opts: SftpUploadClientOpts = {}) {
+        super(`SFTP (${host})`);
+
+        const { port = 22, password, privateKey, passphrase, remoteDir = ".", hostKeyFingerprint, readyTimeoutMs } = opts;
+
+        if (!hostKeyFingerprint) {
+            LoggerFactory.GetLogger().warn(`⚠️  SFTP host key of ${host} is not verified - set a host key fingerprint to prevent impersonation`);
+        }
+
+        this.#sftp = new SftpClient(this.name);
+        this.#remoteDir = remoteDir;
+        this.#connectOpts = {
+            host,
+            port,
+            username,
+            ...(password ? { password } : {}),
+            ...(privateKey ? { privateKey, passphrase } : {}),
+            ...(readyTimeoutMs ? { readyTimeout: readyTimeoutMs } : {}),
+            ...(hostKeyFingerprint ? { hostVerifier: (key: Buffer) => fingerprintOf(key) === hostKeyFingerprint } : {})
+        };
+    }
+
+    /**
+     * Closes the SSH connection, if open.
+     */
+    Disconnect(): void {
+        if (this.#connection) {
+            this.#connection = null;
+            this.#sftp.end().catch(() => undefined);
+        }
+    }
+
+    /**
+     * Factory method for creating an {@link SftpUploadClient}.
+     *
+     * The connection is opened lazily on the first upload.
+     *
+     * @param host - SFTP server host name
+     * @param username - Login user
+     * @param opts - Authentication, directory and host key settings
+     * @returns A fully initialized {@link SftpUploadClient}
+     */
+    static override async Create(
+        host: string,
+        username: string,
+        opts: SftpUploadClientOpts = {}
+    ): Promise<SftpUploadClient> {
+        return new SftpUploadClient(host, username, opts);
+    }
+
+    /**
+     * Uploads data to the SFTP server.
+     *
+     * The remote path is `opts.filePath` when provided, otherwise it is
+     * generated from the upload options (see {@link CloudUploadClient.objectPathFor}),
+     * relative to the remote base directory.
+     *
+     * @param data - Payload to upload (Buffer, Blob, string or readable stream)
+     * @param opts - Upload options and metadata
+     *
+     * @throws UploadError If connecting or writing fails
+     */
+    protected async upload(
+        data: UploadBody,
+        opts: CloudUploadOptsOut
+    ) {
+        const remotePath = path.posix.join(this.#remoteDir, this.objectPathFor(opts));
+        const tempPath = `${remotePath}.${randomBytes(6).toString("hex")}.tmp`;
+        const route = `sftp://${this.#connectOpts.host}/${remotePath.replace(/^\/+/, "")}`;
+        let started = false;
+
+        try {
+            await this.connect();
+            await this.#sftp.mkdir(path.posix.dirname(remotePath), true);
+
+            const body = data instanceof Readable || Buffer.isBuffer(data)
+                ? data
+                : typeof data === "string"
+                    ? Buffer.from(data, "utf-8")
+                    : data instanceof Blob ? Buffer.from(await data.arrayBuffer()) : Buffer.from(data);
+
+            started = true;
+            await this.#sftp.put(body, tempPath);
+
+            await this.replace(tempPath, remotePath);
+        } catch (error: any) {
+            if (started) {
+                await this.#sftp.delete(tempPath, true).catch(() => undefined);
+            }
+
+            throw new UploadError(this.name, error?.message ?? String(error), {
+                route,
+                retryable: ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "ERR_GENERIC_CLIENT"].includes(error?.code),
+                cause: error
+            });
+        }
+
+        LoggerFactory.GetLogger().info(`Successfully uploaded via SFTP 📦 ${route}`);
+    }
+
+    /**
+     * Opens the shared connection unless already open or opening.
+     */
+    private async connect() {
+        this.#connection ??= this.#sftp.connect(this.#connectOpts).catch((error) => {
+            this.#connection = null;
+            throw error;
+        });
+
+        await this.#connection;
+    }
+
+    /**
+     * Moves the temporary file over the target.
+     *
+     * Uses the atomic POSIX rename extension where the server supports it,
+     * and falls back to delete-then-rename otherwise (plain SFTP rename
+     * refuses to overwrite).
+     */
+    private async replace(tempPath: string, remotePath: string) {
+        try {
+            await this.#sftp.posixRename(tempPath, remotePath);
+        } catch {
+            if (await this.#sftp.exists(remotePath)) {
+                await this.#sftp.delete(remotePath);
+            }
+            await this.#sftp.rename(tempPath, remotePath);
+        }
+    }
+
+    /**
+     * Validates SFTP-specific configuration at runtime.
+     *
+     * Intended to be used during configuration parsing when `CLOUD_PROVIDERS`
+     * contains `"sftp"`. Requires a host, a user and a password or private key.
+     *
+     * @param data - Raw configuration object (typically process.env)
+     * @param ctx - Zod refinement context
+     * @returns `true` if all required fields are present, otherwise `false`
+     */
+    static override validateConfig = (data: any, ctx: z.RefinementCtx): boolean => {
+        let success = true;
+
+        for (const field of ["SFTP_HOST", "SFTP_USERNAME"]) {
+            if (!data[field]) {
+                ctx.addIssue({
+                    code: "custom",
+                    path: [field],
+                    message: `When CLOUD_PROVIDERS includes 'sftp', ${field} is required.`
+                });
+                success = false;
+            }
+        }
+
+        if (!data.SFTP_PASSWORD && !data.SFTP_PRIVATE_KEY_PATH) {
+            ctx.addIssue({
+                code: "custom",
+                path: ["SFTP_PASSWORD"],
+                message: "When CLOUD_PROVIDERS includes 'sftp', SFTP_PASSWORD or SFTP_PRIVATE_KEY_PATH is required."
+            });
+            success = false;
+        }
+
+        return success;
+    }
+}
@@ -1,14 +1,26 @@
+import { pipeline, Readable, Transform } from "stream";
 import z from "zod";
-import { FileExtension, ServiceLocation } from "../config/types";
+import { ServiceLocation, UploadCompression } from "../config/types";
 
+import { CollectorError, UploadError } from "../errors";
 import { LoggerFactory } from "../logging/logger";
+import { SerializerRegistry } from "../utils/serializers";
+import { zParseUsing } from "../utils/zod.utils";
+import ObjectKeyTemplate from "./objectKeyTemplate";
+import {
+    assertCompressionAvailable,
+    compressBody,
+    CompressionSuffixes,
+    contentHeadersFor,
+    type UploadContentHeaders
+} from "./uploadEncoding";
 
 /**
  * Available cloud provider clients.
  *
  * Extend this array as new cloud backends are supported.
  */
-export const CloudProvider = ["aws_s3" ] as const;
+export const CloudProvider = ["aws_s3", "azure_blob", "gcs", "sftp", "http", "local_fs"] as const;
 export type CloudProvider = typeof CloudProvider[number];
 
 /**
@@ -21,6 +33,72 @@ export type CloudProvider = typeof CloudProvider[number];
 export type CloudUploadOpts = z.input<typeof zCloudUploadClientOpts>;
 export type CloudUploadOptsOut = z.infer<typeof zCloudUploadClientOpts>;
 
+/**
+ * Payloads accepted by {@link CloudUploadClient.uploadFile}.
+ *
+ * Streams let large exports be uploaded without materializing the full
+ * payload in memory. A stream can only be consumed once.
+ */
+export type UploadBody = Buffer | Uint8Array | Blob | string | Readable;
+
+/**
+ * Provider-specific identifiers of a stored object, returned by
+ * {@link CloudUploadClient.upload} where the backend reports them.
+ */
+export interface UploadReceipt {
+    /** Entity tag of the stored object */
+    etag?: string;
+
+    /** Object version (S3 version ID, Azure version ID, GCS generation) */
+    versionId?: string;
+}
+
+/**
+ * Outcome of one upload to one provider.
+ */
+export interface UploadResult extends UploadReceipt {
+    /** Name of the upload provider */
+    provider: string;
+
+    /** Object key relative to the provider's root; missing if the key could not be rendered */
+    key?: string;
+
+    /** Stored payload size in bytes, after compression (bytes read so far for failed streamed uploads) */
+    bytes: number;
+
+    /** Time spent uploading */
+    durationMs: number;
+
+    /** Why the upload failed; missing on success */
+    error?: Error;
+}
+
+/**
+ * Returns the size of an in-memory payload in bytes.
+ */
+const byteLengthOf = (body: Exclude<UploadBody, Readable>): number => {
+    if (typeof body === "string") return Buffer.byteLength(body, "utf-8");
+    if (body instanceof Blob) return body.size;
+    return body.byteLength;
+}
+
+/**
+ * Passes a stream through unchanged while counting its bytes.
+ *
+ * Source errors are kept on the returned stream until a consumer reads it.
+ */
+const countBytes = (source: Readable, onBytes: (count: number) => void): Readable => {
+    const counter = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+            onBytes(chunk.length);
+            callback(null, chunk);
+        }
+    });
+
+    // the consumer sees the failure through the counter's errored state
+    return pipeline(source, counter, () => undefined);
+}
+
 /**
  * Base abstraction for cloud upload clients.
  *
@@ -47,6 +125,16 @@ export default abstract class CloudUploadClient {
      */
     #name: string;
 
+    /**
+     * Object key layout.
+     */
+    #keyTemplate: ObjectKeyTemplate = new ObjectKeyTemplate();
+
+    /**
+     * Compression of uploads that don't choose their own.
+     */
+    #compression: UploadCompression = "none";
+
     /**
      * Creates a cloud upload client.
      *
@@ -60,22 +148,104 @@ export default abstract class CloudUploadClient {
      * Returns the provider name.
      */
     get name() { return this.#name };
+
+    /**
+     * Returns the object key layout.
+     */
+    get keyTemplate() { return this.#keyTemplate; }
+
+    /**
+     * Replaces the object key layout, e.g. with the one configured for all providers.
+     */
+    set keyTemplate(template: ObjectKeyTemplate) { this.#keyTemplate = template; }
+
+    /**
+     * Returns the default compression of uploads.
+     */
+    get compression() { return this.#compression; }
+
+    /**
+     * Sets the default compression of uploads.
+     *
+     * @throws ConfigurationError If the runtime lacks support for the algorithm
+     */
+    set compression(compression: UploadCompression) { this.#compression = assertCompressionAvailable(compression); }
     
     /**
      * Public wrapper for uploading data.
      *
      * Delegates to subclass implementation while providing a stable public
-     * interface across implementations.
+     * interface across implementations. The payload is compressed first if
+     * `opts.compression` (or the client's default) asks for it, and object
+     * keys then get the compression's suffix. Failures not already reported as a
+     * {@link CollectorError} by the subclass are wrapped in an {@link UploadError}.
      *
      * @param body - Data payload to upload
      * @param opts - Upload configuration options
+     * @returns Key, size, duration and, where the backend reports them, ETag and version
+     *
+     * @throws SchemaValidationError If the upload options are invalid
+     * @throws ConfigurationError If the key template needs metadata the upload lacks
+     * @throws UploadError If the upload fails
      */
     async uploadFile(
-        body: Buffer | Uint8Array | Blob | string,
+        body: UploadBody,
         opts: CloudUploadOpts
-    ) {
-        let parsedOpts = zCloudUploadClientOpts.parse(opts);
-        await this.upload(body, parsedOpts);
+    ): Promise<UploadResult> {
+        const result = await this.safeUploadFile(body, opts);
+
+        if (result.error) {
+            throw result.error;
+        }
+
+        return result;
+    }
+
+    /**
+     * Uploads data like {@link uploadFile}, but never throws.
+     *
+     * @param body - Data payload to upload
+     * @param opts - Upload configuration options
+     * @returns Upload result; `error` holds the failure, if any
+     */
+    async safeUploadFile(
+        body: UploadBody,
+        opts: CloudUploadOpts
+    ): Promise<UploadResult> {
+        const startedAt = Date.now();
+        let key: string | undefined = undefined;
+        let bytes = 0;
+        let route = opts.filePath;
+
+        try {
+            let parsedOpts = zParseUsing(zCloudUploadClientOpts, opts, "upload options");
+            // pin the upload time so the reported key is the key the provider writes
+            parsedOpts.date ??= new Date();
+            parsedOpts.compression ??= this.#compression;
+            key = this.objectPathFor(parsedOpts);
+            route = key;
+
+            let counted = await compressBody(body, parsedOpts.compression);
+            if (counted instanceof Readable) {
+                counted = countBytes(counted, (count) => bytes += count);
+            } else {
+                bytes = byteLengthOf(counted);
+            }
+
+            const receipt = await this.upload(counted, parsedOpts);
+
+            return { provider: this.name, key, bytes, durationMs: Date.now() - startedAt, ...receipt };
+        } catch (error: any) {
+            return {
+                provider: this.name,
+                key,
+                bytes,
+                durationMs: Date.now() - startedAt,
+                error: error instanceof CollectorError
+                    ? error
+                    : new UploadError(this.name, error?.message ?? String(error), { route, cause: error })
+            };
+        }
     }
 
     /**
@@ -103,11 +273,43 @@ export default abstract class CloudUploadClient {
      *
      * @param body - Data payload to upload
      * @param opts - Upload configuration options
+     * @returns ETag and version of the stored object, if the backend reports them
      */
     protected abstract upload(
-        body: Buffer | Uint8Array | Blob | string,
-        opts: CloudUploadOpts
-    ): void;
+        body: UploadBody,
+        opts: CloudUploadOptsOut
+    ): Promise<UploadReceipt | void>;
+
+    /**
+     * Returns the object path of an upload, shared by every provider so
+     * objects land at the same keys whatever the storage backend.
+     *
+     * If `opts.filePath` is provided, it is used verbatim. Otherwise the path
+     * is rendered by the client's {@link ObjectKeyTemplate}, followed by the
+     * suffix of the upload's compression (e.g. `.gz`).
+     *
+     * @param opts - Parsed upload options
+     * @returns Object path relative to the provider's root (bucket, directory, ...)
+     * @throws ConfigurationError If the key template needs metadata the upload lacks
+     */
+    protected objectPathFor(opts: CloudUploadOptsOut): string {
+        if (opts.filePath) {
+            return opts.filePath;
+        }
+
+        return `${this.#keyTemplate.keyFor(opts)}${CompressionSuffixes[opts.compression ?? "none"]}`;
+    }
+
+    /**
+     * Returns the content type and encoding providers store with an upload,
+     * derived from its file extension and compression.
+     *
+     * @param opts - Parsed upload options
+     * @returns Content headers
+     */
+    protected contentHeadersFor(opts: CloudUploadOptsOut): UploadContentHeaders {
+        return contentHeadersFor(opts.extension, opts.compression);
+    }
 
     /**
      * Safely validates upload options.
@@ -150,7 +352,13 @@ const zCloudUploadClientOpts = z.object({
     serviceName: z.string(),
     dataSourceName: z.string().optional(),
     filename: z.string().optional(),
-    extension: z.enum(FileExtension).optional().default("json")
+    extension: z.string()
+        .refine(format => SerializerRegistry.Has(format), { message: "extension must be a format registered with SerializerRegistry" })
+        .optional()
+        .default("json"),
+    runId: z.string().optional(),
+    date: z.date().optional(),
+    compression: z.enum(UploadCompression).optional()
 })
 .superRefine((data, ctx) => {
     const logger = LoggerFactory.GetLogger();
@@ -163,6 +371,7 @@ const zCloudUploadClientOpts = z.object({
         if(data.dataSourceName) { logger.debug("Using filePath argument for uploading; skipping 'dataSourceName'") }
         if(data.filename) { logger.debug("Using filePath argument for uploading; skipping 'filename'") }
         if(data.extension) { logger.debug("Using filePath argument for uploading; skipping 'extension'") }
+        if(data.runId) { logger.debug("Using filePath argument for uploading; skipping 'runId'") }
         return;
     }
 
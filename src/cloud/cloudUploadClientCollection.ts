@@ -1,7 +1,25 @@
+import * as fs from "fs/promises";
+import { PassThrough, Readable } from "stream";
+
 import { CloudConfig } from "../config";
-import { AWS3UploadClient } from "./clients";
-import CloudUploadClient, { CloudProvider, CloudUploadOpts } from "./cloudUploadClient";
+import {
+    AWS3UploadClient,
+    AzureBlobUploadClient,
+    GCSUploadClient,
+    HttpUploadClient,
+    LocalFileUploadClient,
+    SftpUploadClient
+} from "./clients";
+import { awsCredentialsFromConfig } from "./clients/awsCredentials";
+import { azureCredentialsFromConfig } from "./clients/azureBlobUploadClient";
+import { gcsCredentialsFromConfig } from "./clients/gcsUploadClient";
+import CloudUploadClient, { CloudProvider, CloudUploadOpts, type UploadBody, type UploadResult } from "./cloudUploadClient";
+import ObjectKeyTemplate from "./objectKeyTemplate";
 import {LoggerFactory} from "../logging/logger";
+import { type UploadPolicy } from "../config/types";
+
+/** One mebibyte */
+const MiB = 1024 * 1024;
 
 /**
  * Maps configured cloud providers to their respective client builders.
@@ -10,14 +28,121 @@ import {LoggerFactory} from "../logging/logger";
  * initialized upload client.
  */
 const ClientBuilders: Record<CloudProvider, (config: CloudConfig) => Promise<CloudUploadClient>> = {
-    "aws_s3": (config) => AWS3UploadClient.Create(
+    "aws_s3": (config) => AWS3UploadClient.FromCredentials(
         config.AWS_S3_BUCKET_NAME!,
-        config.AWS_REGION!,
-        config.AWS_ACCESS_KEY_ID!,
-        config.AWS_SECRET_ACCESS_KEY!
-    )
+        config.AWS_REGION ?? "us-east-1",
+        awsCredentialsFromConfig(config),
+        {
+            endpoint: config.AWS_S3_ENDPOINT,
+            forcePathStyle: config.AWS_S3_FORCE_PATH_STYLE ?? (config.AWS_S3_ENDPOINT ? true : undefined),
+            tls: config.AWS_S3_TLS_CA_PATH || config.AWS_S3_TLS_INSECURE
+                ? { caPath: config.AWS_S3_TLS_CA_PATH, insecure: config.AWS_S3_TLS_INSECURE }
+                : undefined,
+            multipart: {
+                thresholdBytes: config.AWS_S3_MULTIPART_THRESHOLD_MB && config.AWS_S3_MULTIPART_THRESHOLD_MB * MiB,
+                partSizeBytes: config.AWS_S3_MULTIPART_PART_SIZE_MB && config.AWS_S3_MULTIPART_PART_SIZE_MB * MiB,
+                concurrency: config.AWS_S3_MULTIPART_CONCURRENCY,
+                partRetries: config.AWS_S3_MULTIPART_PART_RETRIES
+            }
+        }
+    ),
+    "azure_blob": (config) => AzureBlobUploadClient.Create(
+        config.AZURE_STORAGE_CONTAINER!,
+        azureCredentialsFromConfig(config),
+        {
+            endpoint: config.AZURE_STORAGE_ENDPOINT,
+            thresholdBytes: config.AZURE_BLOB_THRESHOLD_MB && config.AZURE_BLOB_THRESHOLD_MB * MiB,
+            blockSizeBytes: config.AZURE_BLOB_BLOCK_SIZE_MB && config.AZURE_BLOB_BLOCK_SIZE_MB * MiB,
+            concurrency: config.AZURE_BLOB_CONCURRENCY
+        }
+    ),
+    "gcs": (config) => GCSUploadClient.Create(
+        config.GCS_BUCKET_NAME!,
+        gcsCredentialsFromConfig(config),
+        {
+            endpoint: config.GCS_ENDPOINT,
+            resumableThresholdBytes: config.GCS_RESUMABLE_THRESHOLD_MB && config.GCS_RESUMABLE_THRESHOLD_MB * MiB,
+            chunkSizeBytes: config.GCS_CHUNK_SIZE_MB && config.GCS_CHUNK_SIZE_MB * MiB
+        }
+    ),
+    "sftp": async (config) => SftpUploadClient.Create(
+        config.SFTP_HOST!,
+        config.SFTP_USERNAME!,
+        {
+            port: config.SFTP_PORT,
+            password: config.SFTP_PASSWORD,
+            privateKey: config.SFTP_PRIVATE_KEY_PATH && await fs.readFile(config.SFTP_PRIVATE_KEY_PATH),
+            passphrase: config.SFTP_PRIVATE_KEY_PASSPHRASE,
+            remoteDir: config.SFTP_REMOTE_DIR,
+            hostKeyFingerprint: config.SFTP_HOST_KEY_FINGERPRINT
+        }
+    ),
+    "http": (config) => HttpUploadClient.Create(
+        config.HTTP_UPLOAD_URL!,
+        {
+            method: config.HTTP_UPLOAD_METHOD,
+            headers: config.HTTP_UPLOAD_AUTH_HEADER,
+            gzip: config.HTTP_UPLOAD_GZIP,
+            retry: config.HTTP_UPLOAD_MAX_RETRIES !== undefined ? { maxRetries: config.HTTP_UPLOAD_MAX_RETRIES } : undefined,
+            timeoutMs: config.HTTP_UPLOAD_TIMEOUT_MS,
+            tls: config.HTTP_UPLOAD_TLS_CA_PATH || config.HTTP_UPLOAD_TLS_INSECURE
+                ? { caPath: config.HTTP_UPLOAD_TLS_CA_PATH, insecure: config.HTTP_UPLOAD_TLS_INSECURE }
+                : undefined
+        }
+    ),
+    "local_fs": (config) => LocalFileUploadClient.Create(config.LOCAL_FS_ROOT_DIR)
 };
 
+/**
+ * When an upload through a {@link CloudUploadClientCollection} counts as successful.
+ */
+export interface UploadPolicyOpts {
+    /** Policy mode (see {@link UploadPolicy}) */
+    mode: UploadPolicy;
+
+    /** Providers that must store the payload in `at_least` mode (default 1) */
+    minSuccesses?: number;
+}
+
+/**
+ * Outcome of one upload through a {@link CloudUploadClientCollection}.
+ */
+export interface UploadReport {
+    /** One result per provider, in collection order */
+    results: UploadResult[];
+
+    /** Number of providers that stored the payload */
+    succeeded: number;
+
+    /** Number of providers that failed */
+    failed: number;
+
+    /** Whether the upload policy was met */
+    satisfied: boolean;
+}
+
+/**
+ * Splits a readable stream into independent copies, one per consumer.
+ *
+ * The source is read at the pace of the slowest copy, so a consumer that
+ * stops reading must {@link releaseCopy | release} its copy.
+ */
+const teeStream = (source: Readable, count: number): Readable[] => {
+    const copies = Array.from({ length: count }, () => new PassThrough());
+    copies.forEach(copy => source.pipe(copy));
+    source.on("error", (error) => copies.forEach(copy => copy.destroy(error)));
+    return copies;
+}
+
+/**
+ * Detaches a copy made by {@link teeStream} from its source and discards it,
+ * so a consumer that gave up doesn't hold back the other copies.
+ */
+const releaseCopy = (source: Readable, copy: PassThrough): void => {
+    source.unpipe(copy);
+    copy.destroy();
+}
+
 /**
  * Collection wrapper managing multiple cloud upload clients.
  *
@@ -29,11 +154,17 @@ const ClientBuilders: Record<CloudProvider, (config: CloudConfig) => Promise<Clo
  * 2. Upload data via {@link upload}
  * 3. Cleanup clients via {@link DisconnectClients}
  *
+ * Every upload returns a per-provider {@link UploadReport}, judged against
+ * the collection's {@link UploadPolicyOpts | upload policy}.
+ *
  * @example
  * ```ts
  * const collection = await CloudUploadClientCollection.FromConfig(config);
  *
- * await collection.upload(buffer, opts);
+ * const report = await collection.upload(buffer, opts);
+ * if (!report.satisfied) {
+ *     process.exitCode = 1;
+ * }
  *
  * collection.DisconnectClients();
  * ```
@@ -44,30 +175,59 @@ export default class CloudUploadClientCollection {
      */
     #clients: CloudUploadClient[];
 
+    /**
+     * When an upload counts as successful.
+     */
+    #policy: UploadPolicyOpts;
+
+    /**
+     * Directory non-production exports are written below instead of the providers.
+     */
+    #localRootDir: string = "data";
+
     /**
      * Creates a client collection.
      *
      * @param clients - Optional preconstructed clients
+     * @param policy - Upload policy (default: every provider must succeed)
      */
-    constructor(clients?: CloudUploadClient[]) { 
+    constructor(clients?: CloudUploadClient[], policy: UploadPolicyOpts = { mode: "all" }) { 
         this.#clients = clients ?? [];        
+        this.#policy = policy;
     }
 
     /**
      * Builds a collection from application configuration.
      *
-     * Instantiates one upload client per configured cloud provider.
+     * Instantiates one upload client per configured cloud provider, all
+     * sharing the configured object key templates and compression, and
+     * applies the configured upload policy and local export directory.
      *
      * @param CloudConfig - Application cloud configuration
      * @returns Initialized client collection
      */
     static async FromConfig(CloudConfig: CloudConfig): Promise<CloudUploadClientCollection> {
+        const keyTemplate = new ObjectKeyTemplate({
+            global: CloudConfig.UPLOAD_KEY_TEMPLATE_GLOBAL,
+            site: CloudConfig.UPLOAD_KEY_TEMPLATE_SITE
+        });
+
         const providers = await Promise.all(
             CloudConfig.CLOUD_PROVIDERS.map((provider) => ClientBuilders[provider](CloudConfig))
         )
+        providers.forEach(provider => {
+            provider.keyTemplate = keyTemplate;
+            provider.compression = CloudConfig.UPLOAD_COMPRESSION;
+        });
 
         LoggerFactory.GetLogger().debug(`Created ${providers.length} cloud upload providers - ${providers.map(p => p.name)}`);
-        return new CloudUploadClientCollection(providers);
+        const collection = new CloudUploadClientCollection(providers, {
+            mode: CloudConfig.UPLOAD_POLICY,
+            minSuccesses: CloudConfig.UPLOAD_MIN_SUCCESSES
+        });
+        collection.localRootDir = CloudConfig.LOCAL_FS_ROOT_DIR;
+
+        return collection;
     }
 
     /**
@@ -85,24 +245,88 @@ export default class CloudUploadClientCollection {
      */
     get clients() { return this.#clients }
 
+    /**
+     * Returns the upload policy.
+     */
+    get policy(): Readonly<UploadPolicyOpts> { return this.#policy }
+
+    /**
+     * Replaces the upload policy.
+     */
+    set policy(policy: UploadPolicyOpts) { this.#policy = policy }
+
+    /**
+     * Returns the directory non-production exports are written below (default `data`).
+     */
+    get localRootDir() { return this.#localRootDir }
+
+    /**
+     * Sets the directory non-production exports are written below, e.g. `LOCAL_FS_ROOT_DIR`.
+     */
+    set localRootDir(rootDir: string) { this.#localRootDir = rootDir }
+
+    /**
+     * Checks whether an upload meets the upload policy.
+     *
+     * @param succeeded - Number of providers that stored the payload
+     * @returns `true` if the policy is met
+     */
+    isSatisfied(succeeded: number): boolean {
+        switch (this.#policy.mode) {
+            case "all": return succeeded === this.#clients.length;
+            case "at_least": return succeeded >= (this.#policy.minSuccesses ?? 1);
+            case "best_effort": return true;
+        }
+    }
+
 
     /**
      * Uploads data to all configured cloud providers in parallel.
      *
-     * Individual provider failures are logged but do not abort uploads
-     * to other providers.
+     * Individual provider failures are logged and reported but do not abort
+     * uploads to other providers. Streams are split so every provider receives
+     * the full payload, and all providers share one upload time so their keys
+     * match.
      *
      * @param data - Payload to upload
      * @param opts - Upload options
+     * @returns Per-provider results and whether the upload policy was met
      */
-    async upload(data: Buffer | string, opts: CloudUploadOpts) {
+    async upload(data: UploadBody, opts: CloudUploadOpts): Promise<UploadReport> {
         const logger = LoggerFactory.GetLogger();
-        await Promise.all(
-            this.#clients.map(client => 
-                client.uploadFile(data, opts)
-                    .catch((e: any) => logger.error(`Failed to upload to ${client.name} - ${e.message}`))
-            )
-        )
+        const bodies = data instanceof Readable && this.#clients.length > 1
+            ? teeStream(data, this.#clients.length)
+            : this.#clients.map(() => data);
+        const sharedOpts: CloudUploadOpts = { date: new Date(), ...opts };
+
+        const results = await Promise.all(
+            this.#clients.map(async (client, i) => {
+                const result = await client.safeUploadFile(bodies[i], sharedOpts);
+
+                // a provider that failed before reading its copy would otherwise stall the others
+                if (bodies[i] !== data) {
+                    releaseCopy(data as Readable, bodies[i] as PassThrough);
+                }
+
+                return result;
+            })
+        );
+
+        results
+            .filter(result => result.error)
+            .forEach(result => logger.error(`Failed to upload to ${result.provider} - ${result.error!.message}`));
+
+        const succeeded = results.filter(result => !result.error).length;
+        const satisfied = this.isSatisfied(succeeded);
+
+        if (!satisfied) {
+            logger.error(
+                `Upload policy '${this.#policy.mode}' not met: ${succeeded}/${results.length} providers succeeded` +
+                (this.#policy.mode === "at_least" ? ` (${this.#policy.minSuccesses ?? 1} required)` : "")
+            );
+        }
+
+        return { results, succeeded, failed: results.length - succeeded, satisfied };
     }
 
     /**
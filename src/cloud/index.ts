@@ -1,14 +1,84 @@
-import AWS3UploadClient from "./clients/aws3UploadClient";
-import CloudUploadClient, { CloudUploadOpts } from "./cloudUploadClient";
-import CloudUploadClientCollection from "./cloudUploadClientCollection";
+import AWS3UploadClient, { type AWS3UploadClientOpts } from "./clients/aws3UploadClient";
+import { awsCredentialsFromConfig, createAwsCredentials, type AwsCredentialsOpts } from "./clients/awsCredentials";
+import AzureBlobUploadClient, {
+    azureCredentialsFromConfig,
+    DefaultAzureBlobUploadOpts,
+    type AzureBlobUploadClientOpts,
+    type AzureCredentialsOpts
+} from "./clients/azureBlobUploadClient";
+import GCSUploadClient, { gcsCredentialsFromConfig, type GCSUploadClientOpts, type GcsCredentialsOpts } from "./clients/gcsUploadClient";
+import HttpUploadClient, { type HttpUploadClientOpts } from "./clients/httpUploadClient";
+import LocalFileUploadClient from "./clients/localFileUploadClient";
+import SftpUploadClient, { type SftpUploadClientOpts } from "./clients/sftpUploadClient";
+import S3MultipartUpload, { DefaultS3MultipartOpts, type S3MultipartOpts } from "./clients/s3MultipartUpload";
+import CloudUploadClient, { CloudUploadOpts, type UploadBody, type UploadReceipt, type UploadResult } from "./cloudUploadClient";
+import CloudUploadClientCollection, { type UploadPolicyOpts, type UploadReport } from "./cloudUploadClientCollection";
+import ObjectKeyTemplate, {
+    DefaultObjectKeyTemplates,
+    hivePartitions,
+    ObjectKeyPlaceholder,
+    ProcessRunId,
+    type ObjectKeyContext,
+    type ObjectKeyTemplates
+} from "./objectKeyTemplate";
+import {
+    compressBody,
+    CompressionSuffixes,
+    contentHeadersFor,
+    isCompressionAvailable,
+    type UploadContentHeaders
+} from "./uploadEncoding";
 
 export enum CloudUploadClientType {
-    AWS3
+    AWS3,
+    AzureBlob,
+    GCS,
+    SFTP,
+    HTTP,
+    LocalFS
 }
 
 export { 
     CloudUploadClient,
     AWS3UploadClient,
+    AzureBlobUploadClient,
+    GCSUploadClient,
+    SftpUploadClient,
+    HttpUploadClient,
+    LocalFileUploadClient,
+    S3MultipartUpload,
+    DefaultS3MultipartOpts,
+    awsCredentialsFromConfig,
+    createAwsCredentials,
+    azureCredentialsFromConfig,
+    DefaultAzureBlobUploadOpts,
+    gcsCredentialsFromConfig,
     CloudUploadClientCollection,
-    type CloudUploadOpts 
+    ObjectKeyTemplate,
+    DefaultObjectKeyTemplates,
+    hivePartitions,
+    ObjectKeyPlaceholder,
+    ProcessRunId,
+    CompressionSuffixes,
+    contentHeadersFor,
+    compressBody,
+    isCompressionAvailable,
+    type CloudUploadOpts,
+    type UploadBody,
+    type UploadReceipt,
+    type UploadResult,
+    type UploadPolicyOpts,
+    type UploadReport,
+    type ObjectKeyContext,
+    type ObjectKeyTemplates,
+    type UploadContentHeaders,
+    type AWS3UploadClientOpts,
+    type AwsCredentialsOpts,
+    type AzureBlobUploadClientOpts,
+    type AzureCredentialsOpts,
+    type GCSUploadClientOpts,
+    type GcsCredentialsOpts,
+    type SftpUploadClientOpts,
+    type HttpUploadClientOpts,
+    type S3MultipartOpts
 };
\ No newline at end of file
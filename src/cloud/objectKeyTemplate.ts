@@ -0,0 +1,216 @@
+import { randomBytes } from "crypto";
+
+import { type ServiceLocation } from "../config/types";
+import { ConfigurationError } from "../errors";
+import { SerializerRegistry } from "../utils/serializers";
+import { formatDate } from "../utils/util";
+
+/**
+ * Placeholders available in object key templates.
+ *
+ * - `{service}`, `{source}`, `{site}`, `{location}`: upload metadata
+ * - `{date}` (`YYYY-MM-DD`), `{yyyy}`, `{mm}`, `{dd}`, `{hh}`: upload time in UTC
+ * - `{timestamp}`: local upload time as `YYYY-MM-DD__HH:MM:SS` (legacy filenames)
+ * - `{runId}`: ID of the collector run
+ * - `{ext}`: file extension of the format, as registered in the
+ *   {@link SerializerRegistry} (`ndjson` is written as `json`, which AWS Glue
+ *   recognizes); `{format}` is the format name itself
+ *
+ * Any placeholder can be written as a Hive-style partition with the `hive:`
+ * prefix: `{hive:site}` renders as `site=lab`, `{hive:date}` as `date=2026-01-31`.
+ */
+export const ObjectKeyPlaceholder = [
+    "service", "source", "site", "location",
+    "date", "yyyy", "mm", "dd", "hh", "timestamp",
+    "runId", "ext", "format"
+] as const;
+export type ObjectKeyPlaceholder = typeof ObjectKeyPlaceholder[number];
+
+/**
+ * Key templates per service location.
+ */
+export interface ObjectKeyTemplates {
+    /** Template for `global` uploads */
+    global: string;
+
+    /** Template for `site` uploads */
+    site: string;
+}
+
+/**
+ * Default key layout, matching the keys written before templates were configurable
+ * (except that site uploads now honor the extension).
+ */
+export const DefaultObjectKeyTemplates: ObjectKeyTemplates = {
+    global: "global/{service}/{service}_{source}/{service}-{source}-{timestamp}.{ext}",
+    site: "site/{source}/{hive:site}/{hive:date}/data.{ext}"
+};
+
+/**
+ * Values an object key is rendered from.
+ */
+export interface ObjectKeyContext {
+    serviceLocation: ServiceLocation;
+    serviceName: string;
+    dataSourceName?: string;
+    siteName?: string;
+
+    /** File format, as registered in the {@link SerializerRegistry} */
+    extension: string;
+
+    /** Overrides the last path segment of the rendered key */
+    filename?: string;
+
+    /** Collector run ID (default: the process run ID) */
+    runId?: string;
+
+    /** Upload time (default: now) */
+    date?: Date;
+}
+
+/** Matches `{name}` and `{hive:name}` placeholders */
+const PlaceholderPattern = /\{(hive:)?([A-Za-z]+)\}/g;
+
+/**
+ * Run ID used when uploads don't carry one: UTC start time plus a random
+ * suffix, stable for the lifetime of the process.
+ */
+export const ProcessRunId = `${new Date().toISOString().replace(/[-:]|\.\d+/g, "")}-${randomBytes(3).toString("hex")}`;
+
+/**
+ * Formats placeholders as Hive-style partitions (`name=value`), joined as path segments.
+ *
+ * @param partitions - Partition names and values, in order
+ * @returns Path such as `site=lab/date=2026-01-31`
+ *
+ * @example
+ * ```ts
+ * hivePartitions({ year: "2026", month: "01" }); // "year=2026/month=01"
+ * ```
+ */
+export const hivePartitions = (partitions: Record<string, string | number>): string => {
+    return Object.entries(partitions).map(([name, value]) => `${name}=${sanitizeSegment(String(value))}`).join("/");
+}
+
+/**
+ * Makes a value safe to use inside one path segment.
+ */
+const sanitizeSegment = (value: string): string => value.replace(/[\/\\]/g, "_");
+
+/**
+ * Shared engine turning upload metadata into object keys, used by every
+ * upload provider so keys are identical across storage backends.
+ *
+ * Templates are validated when constructed; placeholders without a value
+ * (e.g. `{site}` in a global upload) fail the upload.
+ *
+ * @example
+ * ```ts
+ * const keys = new ObjectKeyTemplate({
+ *     ...DefaultObjectKeyTemplates,
+ *     global: "exports/{service}/{hive:yyyy}/{hive:mm}/{hive:dd}/{source}-{runId}.{ext}"
+ * });
+ *
+ * keys.keyFor({ serviceLocation: "global", serviceName: "inventory", dataSourceName: "vms", extension: "json" });
+ * // → "exports/inventory/yyyy=2026/mm=01/dd=31/vms-20260131T120000Z-a1b2c3.json"
+ * ```
+ */
+export default class ObjectKeyTemplate {
+    /** Templates per service location */
+    #templates: ObjectKeyTemplates;
+
+    /**
+     * @param templates - Templates per service location (default {@link DefaultObjectKeyTemplates})
+     * @throws ConfigurationError If a template uses an unknown placeholder
+     */
+    constructor(templates: Partial<ObjectKeyTemplates> = {}) {
+        this.#templates = { ...DefaultObjectKeyTemplates, ...templates };
+
+        for (const [location, template] of Object.entries(this.#templates)) {
+            const unknown = ObjectKeyTemplate.UnknownPlaceholders(template);
+            if (unknown.length > 0) {
+                throw new ConfigurationError(
+                    `Object key template for ${location} uploads uses unknown placeholders: ${unknown.join(", ")}`,
+                    [`UPLOAD_KEY_TEMPLATE_${location.toUpperCase()}`]
+                );
+            }
+        }
+    }
+
+    /**
+     * Returns the templates in use.
+     */
+    get templates(): Readonly<ObjectKeyTemplates> {
+        return this.#templates;
+    }
+
+    /**
+     * Lists the placeholders of a template that are not {@link ObjectKeyPlaceholder}s.
+     *
+     * @param template - Key template
+     * @returns Unknown placeholders as written, e.g. `["{servce}"]`
+     */
+    static UnknownPlaceholders(template: string): string[] {
+        return (template.match(PlaceholderPattern) ?? [])
+            .filter(placeholder => !(ObjectKeyPlaceholder as readonly string[]).includes(placeholder.replace(/^\{(hive:)?|\}$/g, "")));
+    }
+
+    /**
+     * Returns the value of every placeholder for an upload.
+     *
+     * @param context - Upload metadata
+     * @returns Placeholder values; `undefined` where the upload has no value
+     */
+    static ValuesFor(context: ObjectKeyContext): Record<ObjectKeyPlaceholder, string | undefined> {
+        const date = context.date ?? new Date();
+        const [yyyy, mm, dd] = date.toISOString().split("T")[0].split("-");
+
+        return {
+            service: context.serviceName,
+            source: context.dataSourceName,
+            site: context.siteName,
+            location: context.serviceLocation,
+            date: `${yyyy}-${mm}-${dd}`,
+            yyyy,
+            mm,
+            dd,
+            hh: date.toISOString().slice(11, 13),
+            timestamp: formatDate(date),
+            runId: context.runId ?? ProcessRunId,
+            ext: SerializerRegistry.Has(context.extension) ? SerializerRegistry.Get(context.extension).extension : context.extension,
+            format: context.extension
+        };
+    }
+
+    /**
+     * Renders the object key of an upload.
+     *
+     * @param context - Upload metadata
+     * @returns Object key relative to the provider's root (bucket, directory, ...)
+     * @throws ConfigurationError If the template needs a value the upload doesn't have
+     */
+    keyFor(context: ObjectKeyContext): string {
+        const values = ObjectKeyTemplate.ValuesFor(context);
+        const template = this.#templates[context.serviceLocation];
+
+        const key = template.replace(PlaceholderPattern, (_, hive: string | undefined, name: ObjectKeyPlaceholder) => {
+            const value = values[name];
+            if (value === undefined || value === "") {
+                throw new ConfigurationError(
+                    `Object key template '${template}' needs {${name}}, which ${context.serviceLocation} uploads of '${context.serviceName}' don't have`,
+                    [`UPLOAD_KEY_TEMPLATE_${context.serviceLocation.toUpperCase()}`]
+                );
+            }
+
+            return hive ? hivePartitions({ [name]: value }) : sanitizeSegment(value);
+        });
+
+        if (!context.filename) {
+            return key;
+        }
+
+        const segments = key.split("/");
+        segments[segments.length - 1] = context.filename;
+        return segments.join("/");
+    }
+}
@@ -0,0 +1,112 @@
+import { pipeline, Readable, type Transform } from "stream";
+import { promisify } from "util";
+import * as zlib from "zlib";
+
+import { type UploadCompression } from "../config/types";
+import { ConfigurationError } from "../errors";
+import { SerializerRegistry } from "../utils/serializers";
+import type { UploadBody } from "./cloudUploadClient";
+
+/**
+ * File suffix appended to object keys of compressed uploads.
+ */
+export const CompressionSuffixes: Record<UploadCompression, string> = {
+    none: "",
+    gzip: ".gz",
+    zstd: ".zst"
+};
+
+/**
+ * `Content-Encoding` value of compressed uploads.
+ */
+const ContentEncodings: Record<UploadCompression, string | undefined> = {
+    none: undefined,
+    gzip: "gzip",
+    zstd: "zstd"
+};
+
+/**
+ * Content headers of an upload.
+ */
+export interface UploadContentHeaders {
+    /** MIME type of the uncompressed payload */
+    contentType: string;
+
+    /** Compression applied to the payload, if any */
+    contentEncoding?: string;
+}
+
+/**
+ * Checks whether this runtime can compress with the given algorithm.
+ *
+ * Zstandard needs Node.js 22.15+ (or Bun); gzip is always available.
+ *
+ * @param compression - Compression algorithm
+ * @returns `true` if payloads can be compressed with it
+ */
+export const isCompressionAvailable = (compression: UploadCompression): boolean => {
+    return compression !== "zstd" || typeof zlib.createZstdCompress === "function";
+}
+
+/**
+ * Ensures a compression algorithm is usable in this runtime.
+ *
+ * @param compression - Compression algorithm
+ * @returns The algorithm
+ * @throws ConfigurationError If the runtime lacks support for it
+ */
+export const assertCompressionAvailable = (compression: UploadCompression): UploadCompression => {
+    if (!isCompressionAvailable(compression)) {
+        throw new ConfigurationError(
+            `${compression} compression is not supported by this runtime (${process.version}) - use gzip or upgrade Node.js`,
+            ["UPLOAD_COMPRESSION"]
+        );
+    }
+
+    return compression;
+}
+
+/**
+ * Returns the content headers of an upload.
+ *
+ * @param format - File format of the payload; formats missing from the
+ *   {@link SerializerRegistry} are sent as `application/octet-stream`
+ * @param compression - Compression applied to the payload
+ * @returns Content type and encoding
+ */
+export const contentHeadersFor = (format: string, compression: UploadCompression = "none"): UploadContentHeaders => ({
+    contentType: SerializerRegistry.Has(format) ? SerializerRegistry.Get(format).contentType : "application/octet-stream",
+    ...(ContentEncodings[compression] ? { contentEncoding: ContentEncodings[compression] } : {})
+});
+
+/**
+ * Compresses an upload payload.
+ *
+ * In-memory payloads are compressed at once; streams are compressed as they
+ * are read, and source errors surface on the returned stream.
+ *
+ * @param body - Payload to compress
+ * @param compression - Compression algorithm
+ * @returns The compressed payload, or `body` itself for `none`
+ * @throws ConfigurationError If the runtime lacks support for the algorithm
+ */
+export const compressBody = async (body: UploadBody, compression: UploadCompression): Promise<UploadBody> => {
+    if (compression === "none") {
+        return body;
+    }
+
+    assertCompressionAvailable(compression);
+
+    if (body instanceof Readable) {
+        const compressor: Transform = compression === "gzip" ? zlib.createGzip() : zlib.createZstdCompress();
+        return pipeline(body, compressor, () => undefined);
+    }
+
+    const buffer = typeof body === "string"
+        ? Buffer.from(body, "utf-8")
+        : body instanceof Blob ? Buffer.from(await body.arrayBuffer()) : body;
+
+    return compression === "gzip"
+        ? promisify(zlib.gzip)(buffer)
+        : promisify(zlib.zstdCompress)(buffer);
+}
@@ -34,6 +34,45 @@ describe("API config", () => {
     ).toThrow();
   });
 
+  test("parses optional rate limit settings", () => {
+    const cfg = zApiConfig.parse({
+      API_HOST: "example.com",
+      API_PROTOCOL: "https",
+      API_RATE_LIMIT_PER_SECOND: "10",
+      API_MAX_CONCURRENCY: "4",
+    });
+
+    expect(cfg.API_RATE_LIMIT_PER_SECOND).toBe(10);
+    expect(cfg.API_RATE_LIMIT_PER_MINUTE).toBeUndefined();
+    expect(cfg.API_MAX_CONCURRENCY).toBe(4);
+  });
+
+  test("parses TLS settings", () => {
+    const cfg = zApiConfig.parse({
+      API_HOST: "example.com",
+      API_PROTOCOL: "https",
+      API_TLS_CA_PATH: "/etc/ssl/ca.pem",
+      API_TLS_FINGERPRINTS: "AA:BB, CC:DD",
+      API_TLS_INSECURE: "no",
+    });
+
+    expect(cfg.API_TLS_CA_PATH).toBe("/etc/ssl/ca.pem");
+    expect(cfg.API_TLS_FINGERPRINTS).toEqual(["AA:BB", "CC:DD"]);
+    expect(cfg.API_TLS_INSECURE).toBe(false);
+  });
+
+  test("parses fixture redaction lists", () => {
+    const cfg = zApiConfig.parse({
+      API_HOST: "example.com",
+      API_PROTOCOL: "https",
+      API_FIXTURE_REDACT_HEADERS: "X-Tenant-Token",
+      API_FIXTURE_REDACT_FIELDS: "secret, pin",
+    });
+
+    expect(cfg.API_FIXTURE_REDACT_HEADERS).toEqual(["X-Tenant-Token"]);
+    expect(cfg.API_FIXTURE_REDACT_FIELDS).toEqual(["secret", "pin"]);
+  });
+
   test("requires API_HOST", () => {
     expect(() => zApiConfig.parse({})).toThrow();
   });
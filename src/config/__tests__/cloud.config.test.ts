@@ -16,4 +16,35 @@ describe("Cloud config", () => {
   test("requires API_HOST", () => {
     expect(() => zCloudConfig.parse({})).toThrow();
   });
+
+  test("validates S3 multipart settings", () => {
+    const base = {
+      CLOUD_PROVIDERS: "aws_s3",
+      AWS_ACCESS_KEY_ID: "test",
+      AWS_SECRET_ACCESS_KEY: "test",
+      AWS_S3_BUCKET_NAME: "test",
+      AWS_REGION: "us-east-2"
+    };
+
+    const config = zCloudConfig.parse({ ...base, AWS_S3_MULTIPART_PART_SIZE_MB: "8", AWS_S3_MULTIPART_CONCURRENCY: "6" });
+    expect(config.AWS_S3_MULTIPART_PART_SIZE_MB).toBe(8);
+    expect(config.AWS_S3_MULTIPART_CONCURRENCY).toBe(6);
+
+    expect(() => zCloudConfig.parse({ ...base, AWS_S3_MULTIPART_PART_SIZE_MB: "2" })).toThrow();
+  });
+
+  test("validates Azure block settings", () => {
+    const base = {
+      CLOUD_PROVIDERS: "azure_blob",
+      AZURE_STORAGE_CONTAINER: "test",
+      AZURE_STORAGE_CONNECTION_STRING: "UseDevelopmentStorage=true"
+    };
+
+    const config = zCloudConfig.parse({ ...base, AZURE_BLOB_THRESHOLD_MB: "256", AZURE_BLOB_BLOCK_SIZE_MB: "8" });
+    expect(config.AZURE_BLOB_THRESHOLD_MB).toBe(256);
+    expect(config.AZURE_BLOB_BLOCK_SIZE_MB).toBe(8);
+
+    expect(() => zCloudConfig.parse({ ...base, AZURE_BLOB_THRESHOLD_MB: "257" })).toThrow("at most 256 MB");
+    expect(() => zCloudConfig.parse({ ...base, AZURE_BLOB_BLOCK_SIZE_MB: "4001" })).toThrow("at most 4000 MB");
+  });
 });
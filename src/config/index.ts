@@ -1,4 +1,5 @@
 import {LoggerFactory} from "../logging/logger";
+import { ConfigurationError } from "../errors";
 import { CollectorConfig, zCollectorConfig } from "./collector";
 import z from "zod";
 
@@ -84,7 +85,7 @@ export function buildConfig<T extends z.ZodTypeAny = typeof zCollectorConfig>(
  */
 export function getConfig<T>(): T {
   if (!_config) {
-    throw new Error("Config has not been built yet. Call buildConfig() first.");
+    throw new ConfigurationError("Config has not been built yet. Call buildConfig() first.");
   }
 
   return _config as T;
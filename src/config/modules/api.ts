@@ -1,18 +1,74 @@
 import z from "zod";
-import { HttpProtocol } from "../types";
+import { ApiCacheBackend, FixtureMode, HttpProtocol } from "../types";
 import { zPortDefault } from "../../utils";
 
+/**
+ * Optional positive integer, typically provided as an environment string.
+ */
+const zOptionalPositiveInt = z.coerce.number().int().positive().optional();
+
+/**
+ * Optional comma-separated list, typically provided as an environment string.
+ */
+const zOptionalList = z.preprocess(
+  (v) => typeof v === "string"
+    ? v.split(",").map(s => s.trim()).filter(s => s !== "")
+    : v,
+  z.array(z.string()).optional()
+);
+
 /**
  * API server configuration schema.
  *
  * Defines protocol, host, and ports used by the application API.
  * Ports receive defaults if not explicitly provided.
+ *
+ * Optional client-side throttling:
+ * - `API_RATE_LIMIT_PER_SECOND` / `API_RATE_LIMIT_PER_MINUTE` cap the request rate
+ * - `API_MAX_CONCURRENCY` caps the number of requests in flight
+ *
+ * Optional TLS settings for self-signed or mTLS endpoints:
+ * - `API_TLS_CA_PATH` trusts an additional PEM CA bundle
+ * - `API_TLS_CERT_PATH` / `API_TLS_KEY_PATH` / `API_TLS_KEY_PASSPHRASE` enable mTLS
+ * - `API_TLS_FINGERPRINTS` pins comma-separated SHA-256 certificate fingerprints
+ * - `API_TLS_INSECURE=yes` disables certificate verification (logs a warning)
+ *
+ * Optional response caching (ETag / Last-Modified):
+ * - `API_CACHE` selects the backend: `none` (default), `memory` or `disk`
+ * - `API_CACHE_DIR` sets the disk cache directory (default `.cache/api`)
+ * - `API_CACHE_TTL_SECONDS` sets how long entries are kept
+ *
+ * Optional record-and-replay fixtures:
+ * - `API_FIXTURE_MODE` is `off` (default), `record` or `replay`
+ * - `API_FIXTURE_DIR` sets the fixture directory (default `fixtures`)
+ * - `API_FIXTURE_REDACT_HEADERS` / `API_FIXTURE_REDACT_FIELDS` add comma-separated
+ *   header and field names to redact from recordings
  */
 export const zApiConfig = z.object({
   API_PROTOCOL: z.enum(HttpProtocol),
   API_HOST: z.string().nonempty(),
   API_HTTP_PORT: zPortDefault(80),
-  API_HTTPS_PORT: zPortDefault(443)
+  API_HTTPS_PORT: zPortDefault(443),
+
+  API_RATE_LIMIT_PER_SECOND: zOptionalPositiveInt,
+  API_RATE_LIMIT_PER_MINUTE: zOptionalPositiveInt,
+  API_MAX_CONCURRENCY: zOptionalPositiveInt,
+
+  API_TLS_CA_PATH: z.string().optional(),
+  API_TLS_CERT_PATH: z.string().optional(),
+  API_TLS_KEY_PATH: z.string().optional(),
+  API_TLS_KEY_PASSPHRASE: z.string().optional(),
+  API_TLS_FINGERPRINTS: zOptionalList,
+  API_TLS_INSECURE: z.enum(["yes", "no"]).optional().transform((v) => v === "yes"),
+
+  API_CACHE: z.enum(ApiCacheBackend).default("none"),
+  API_CACHE_DIR: z.string().default(".cache/api"),
+  API_CACHE_TTL_SECONDS: zOptionalPositiveInt,
+
+  API_FIXTURE_MODE: z.enum(FixtureMode).default("off"),
+  API_FIXTURE_DIR: z.string().default("fixtures"),
+  API_FIXTURE_REDACT_HEADERS: zOptionalList,
+  API_FIXTURE_REDACT_FIELDS: zOptionalList
 })
 
 /**
@@ -1,7 +1,17 @@
 import z from "zod";
 
-import { AWS3UploadClient } from "../../cloud";
+import {
+  AWS3UploadClient,
+  AzureBlobUploadClient,
+  GCSUploadClient,
+  HttpUploadClient,
+  LocalFileUploadClient,
+  SftpUploadClient
+} from "../../cloud";
 import { CloudProvider } from "../../cloud/cloudUploadClient";
+import ObjectKeyTemplate, { DefaultObjectKeyTemplates } from "../../cloud/objectKeyTemplate";
+import { AwsAuthMode, HttpUploadMethod, UploadCompression, UploadPolicy } from "../types";
+import { isCompressionAvailable } from "../../cloud/uploadEncoding";
 
 
 /**
@@ -11,7 +21,12 @@ import { CloudProvider } from "../../cloud/cloudUploadClient";
  * allowing provider-specific config checks to report issues.
  */
 const cloudConfigValidators: Record<CloudProvider, (cfg: any, ctx: any) => void> = {
-  "aws_s3": AWS3UploadClient.validateConfig
+  "aws_s3": AWS3UploadClient.validateConfig,
+  "azure_blob": AzureBlobUploadClient.validateConfig,
+  "gcs": GCSUploadClient.validateConfig,
+  "sftp": SftpUploadClient.validateConfig,
+  "http": HttpUploadClient.validateConfig,
+  "local_fs": LocalFileUploadClient.validateConfig
 }
 
 
@@ -33,6 +48,16 @@ const validateCloudProviderInput = (val: string | string[]): string[] | undefine
   return undefined; // treat missing or empty as undefined
 }
 
+/**
+ * Object key template using only known placeholders.
+ */
+const zKeyTemplate = z.string().superRefine((template, ctx) => {
+  const unknown = ObjectKeyTemplate.UnknownPlaceholders(template);
+  if (unknown.length > 0) {
+    ctx.addIssue({ code: "custom", message: `Unknown placeholders: ${unknown.join(", ")}` });
+  }
+});
+
 /**
  * Schema for multi-cloud configuration.
  *
@@ -40,6 +65,78 @@ const validateCloudProviderInput = (val: string | string[]): string[] | undefine
  * - Specifying one or more cloud providers
  * - Provider-specific configuration fields (e.g., AWS credentials)
  *
+ * Object keys, shared by all providers (see {@link ObjectKeyTemplate} for placeholders):
+ * - `UPLOAD_KEY_TEMPLATE_GLOBAL` key of global uploads
+ *   (default `global/{service}/{service}_{source}/{service}-{source}-{timestamp}.{ext}`)
+ * - `UPLOAD_KEY_TEMPLATE_SITE` key of site uploads
+ *   (default `site/{source}/{hive:site}/{hive:date}/data.{ext}`)
+ *
+ * Payload compression, applied before any provider sees the payload:
+ * - `UPLOAD_COMPRESSION=none|gzip|zstd` (default `none`); keys get a `.gz` / `.zst`
+ *   suffix and objects are stored with the matching `Content-Encoding`.
+ *   `zstd` needs Node.js 22.15+ or Bun
+ *
+ * Upload policy, deciding when an upload to several providers succeeded:
+ * - `UPLOAD_POLICY=all|at_least|best_effort` (default `all`)
+ * - `UPLOAD_MIN_SUCCESSES` providers that must succeed with `at_least` (default 1)
+ *
+ * AWS credentials, selected by `AWS_AUTH_MODE`:
+ * - `static` (default): `AWS_ACCESS_KEY_ID` / `AWS_SECRET_ACCESS_KEY` (and optional `AWS_SESSION_TOKEN`)
+ * - `default_chain`: the SDK default provider chain (environment, SSO, web identity, ECS/EC2 roles)
+ * - `profile`: the shared config profile named by `AWS_PROFILE`
+ * - `assume_role`: the role `AWS_ROLE_ARN`, with optional `AWS_ROLE_EXTERNAL_ID`,
+ *   `AWS_ROLE_SESSION_NAME` and `AWS_ROLE_DURATION_SECONDS`; STS is called with the
+ *   static keys, `AWS_PROFILE` or the default chain, whichever is configured first
+ *
+ * Optional S3-compatible endpoint (MinIO, Ceph RGW, Wasabi, ...):
+ * - `AWS_S3_ENDPOINT` custom endpoint URL; `AWS_REGION` then defaults to `us-east-1`
+ * - `AWS_S3_FORCE_PATH_STYLE=yes|no` path-style addressing (default `yes` with a custom endpoint)
+ * - `AWS_S3_TLS_CA_PATH` trusts an additional PEM CA bundle
+ * - `AWS_S3_TLS_INSECURE=yes` disables certificate verification (logs a warning)
+ *
+ * Optional S3 multipart upload tuning:
+ * - `AWS_S3_MULTIPART_THRESHOLD_MB` size from which payloads are uploaded in parts (default 16)
+ * - `AWS_S3_MULTIPART_PART_SIZE_MB` part size, at least 5 (default 8)
+ * - `AWS_S3_MULTIPART_CONCURRENCY` parts uploaded in parallel (default 4)
+ * - `AWS_S3_MULTIPART_PART_RETRIES` retries per failed part (default 3)
+ *
+ * Azure Blob Storage (`azure_blob`):
+ * - `AZURE_STORAGE_CONTAINER` target container
+ * - `AZURE_STORAGE_CONNECTION_STRING`, or `AZURE_STORAGE_ACCOUNT` with
+ *   `AZURE_STORAGE_ACCOUNT_KEY` or `AZURE_STORAGE_SAS_TOKEN`
+ * - `AZURE_STORAGE_ENDPOINT` blob service URL (e.g. Azurite's `http://127.0.0.1:10000/devstoreaccount1`)
+ * - `AZURE_BLOB_THRESHOLD_MB` size from which payloads are uploaded in blocks (default 16, at most 256)
+ * - `AZURE_BLOB_BLOCK_SIZE_MB` block size (default 8)
+ * - `AZURE_BLOB_CONCURRENCY` blocks uploaded in parallel (default 4)
+ *
+ * Google Cloud Storage (`gcs`):
+ * - `GCS_BUCKET_NAME` target bucket
+ * - `GCS_KEY_FILE` service account key file, or `GCS_CREDENTIALS_JSON` the key itself;
+ *   Application Default Credentials are used when neither is set
+ * - `GCS_PROJECT_ID` project ID (read from the key by default)
+ * - `GCS_ENDPOINT` custom API endpoint (e.g. fake-gcs-server's `http://localhost:4443`)
+ * - `GCS_RESUMABLE_THRESHOLD_MB` size from which payloads use resumable uploads (default 16)
+ * - `GCS_CHUNK_SIZE_MB` resumable upload chunk size, a multiple of 0.25 (default: single request)
+ *
+ * SFTP (`sftp`):
+ * - `SFTP_HOST`, `SFTP_PORT` (default 22) and `SFTP_USERNAME`
+ * - `SFTP_PASSWORD`, or `SFTP_PRIVATE_KEY_PATH` with optional `SFTP_PRIVATE_KEY_PASSPHRASE`
+ * - `SFTP_REMOTE_DIR` remote base directory (default: the login directory)
+ * - `SFTP_HOST_KEY_FINGERPRINT` expected host key (`SHA256:...`, as printed by `ssh-keygen -lf`)
+ *
+ * HTTP(S) ingestion endpoint (`http`):
+ * - `HTTP_UPLOAD_URL` URL template; `{path}`, `{filename}`, `{serviceLocation}`,
+ *   `{serviceName}`, `{dataSourceName}` and `{siteName}` are filled per upload
+ * - `HTTP_UPLOAD_METHOD=POST|PUT` (default `POST`)
+ * - `HTTP_UPLOAD_AUTH_HEADER` either `Name: value` or a bare `Authorization` value
+ * - `HTTP_UPLOAD_GZIP=yes|no` gzip request bodies (default `yes`)
+ * - `HTTP_UPLOAD_MAX_RETRIES` retries on 408, 429, 5xx and network errors (default 3)
+ * - `HTTP_UPLOAD_TIMEOUT_MS` request timeout (default 5 minutes)
+ * - `HTTP_UPLOAD_TLS_CA_PATH` / `HTTP_UPLOAD_TLS_INSECURE=yes` TLS settings
+ *
+ * Local filesystem (`local_fs`):
+ * - `LOCAL_FS_ROOT_DIR` directory files are written below (default `data`)
+ *
  * Validation:
  * - `CLOUD_PROVIDERS` must contain at least one provider
  * - Each provider's validator is invoked to ensure required credentials
@@ -56,11 +153,100 @@ export const zCloudConfig = z.object({
   CLOUD_PROVIDERS: z.preprocess(validateCloudProviderInput, z.array(z.enum(CloudProvider))
     .nonempty({ message: "At least one cloud provider must be specified" })),
 
+  // Object key templates
+  UPLOAD_KEY_TEMPLATE_GLOBAL: zKeyTemplate.default(DefaultObjectKeyTemplates.global),
+  UPLOAD_KEY_TEMPLATE_SITE: zKeyTemplate.default(DefaultObjectKeyTemplates.site),
+
+  // Payload compression
+  UPLOAD_COMPRESSION: z.enum(UploadCompression).default("none")
+    .refine(isCompressionAvailable, { message: `zstd compression is not supported by this runtime (${process.version})` }),
+
+  // Upload policy
+  UPLOAD_POLICY: z.enum(UploadPolicy).default("all"),
+  UPLOAD_MIN_SUCCESSES: z.coerce.number().int().positive().optional(),
+
   // AWS-specific optional credentials
+  AWS_AUTH_MODE: z.enum(AwsAuthMode).default("static"),
   AWS_SECRET_ACCESS_KEY: z.string().optional(),
   AWS_ACCESS_KEY_ID: z.string().optional(),
+  AWS_SESSION_TOKEN: z.string().optional(),
+  AWS_PROFILE: z.string().optional(),
+  AWS_ROLE_ARN: z.string().regex(/^arn:aws[\w-]*:iam::\d{12}:role\/.+$/, { message: "Invalid IAM role ARN" }).optional(),
+  AWS_ROLE_EXTERNAL_ID: z.string().optional(),
+  AWS_ROLE_SESSION_NAME: z.string().regex(/^[\w+=,.@-]{2,64}$/, { message: "Invalid role session name" }).optional(),
+  AWS_ROLE_DURATION_SECONDS: z.coerce.number().int().min(900).max(43200).optional(),
   AWS_S3_BUCKET_NAME: z.string().optional(),
   AWS_REGION: z.string().optional(),
+
+  // S3-compatible endpoint
+  AWS_S3_ENDPOINT: z.url().optional(),
+  AWS_S3_FORCE_PATH_STYLE: z.enum(["yes", "no"]).optional().transform((v) => v === undefined ? undefined : v === "yes"),
+  AWS_S3_TLS_CA_PATH: z.string().optional(),
+  AWS_S3_TLS_INSECURE: z.enum(["yes", "no"]).optional().transform((v) => v === "yes"),
+
+  // S3 multipart upload tuning
+  AWS_S3_MULTIPART_THRESHOLD_MB: z.coerce.number().positive().optional(),
+  AWS_S3_MULTIPART_PART_SIZE_MB: z.coerce.number().min(5, { message: "S3 parts must be at least 5 MB" }).optional(),
+  AWS_S3_MULTIPART_CONCURRENCY: z.coerce.number().int().positive().optional(),
+  AWS_S3_MULTIPART_PART_RETRIES: z.coerce.number().int().nonnegative().optional(),
+
+  // Azure Blob Storage
+  AZURE_STORAGE_ACCOUNT: z.string().optional(),
+  AZURE_STORAGE_CONTAINER: z.string().regex(/^[a-z0-9](?!.*--)[a-z0-9-]{1,61}[a-z0-9]$/, { message: "Invalid Azure container name" }).optional(),
+  AZURE_STORAGE_ACCOUNT_KEY: z.string().optional(),
+  AZURE_STORAGE_SAS_TOKEN: z.string().optional(),
+  AZURE_STORAGE_CONNECTION_STRING: z.string().optional(),
+  AZURE_STORAGE_ENDPOINT: z.url().optional(),
+  AZURE_BLOB_THRESHOLD_MB: z.coerce.number().positive().max(256, { message: "Azure single-shot uploads can be at most 256 MB" }).optional(),
+  AZURE_BLOB_BLOCK_SIZE_MB: z.coerce.number().positive().max(4000, { message: "Azure blocks can be at most 4000 MB" }).optional(),
+  AZURE_BLOB_CONCURRENCY: z.coerce.number().int().positive().optional(),
+
+  // Google Cloud Storage
+  GCS_BUCKET_NAME: z.string().optional(),
+  GCS_PROJECT_ID: z.string().optional(),
+  GCS_KEY_FILE: z.string().optional(),
+  GCS_CREDENTIALS_JSON: z.string()
+    .transform((value, ctx) => {
+      try {
+        return JSON.parse(value);
+      } catch {
+        ctx.addIssue({ code: "custom", message: "GCS_CREDENTIALS_JSON must be a service account key in JSON" });
+        return z.NEVER;
+      }
+    })
+    .pipe(z.looseObject({ client_email: z.string(), private_key: z.string() }))
+    .optional(),
+  GCS_ENDPOINT: z.url().optional(),
+  GCS_RESUMABLE_THRESHOLD_MB: z.coerce.number().nonnegative().optional(),
+  GCS_CHUNK_SIZE_MB: z.coerce.number().multipleOf(0.25, { message: "GCS chunks must be a multiple of 256 KiB" }).positive().optional(),
+
+  // SFTP
+  SFTP_HOST: z.string().optional(),
+  SFTP_PORT: z.coerce.number().int().min(1).max(65535).optional(),
+  SFTP_USERNAME: z.string().optional(),
+  SFTP_PASSWORD: z.string().optional(),
+  SFTP_PRIVATE_KEY_PATH: z.string().optional(),
+  SFTP_PRIVATE_KEY_PASSPHRASE: z.string().optional(),
+  SFTP_REMOTE_DIR: z.string().optional(),
+  SFTP_HOST_KEY_FINGERPRINT: z.string().regex(/^SHA256:[A-Za-z0-9+/]{43}$/, { message: "Expected an OpenSSH SHA256 fingerprint (SHA256:...)" }).optional(),
+
+  // HTTP(S) ingestion endpoint
+  HTTP_UPLOAD_URL: z.string().regex(/^https?:\/\/[^/{}]+/, { message: "Expected an http(s) URL template" }).optional(),
+  HTTP_UPLOAD_METHOD: z.enum(HttpUploadMethod).default("POST"),
+  HTTP_UPLOAD_AUTH_HEADER: z.string().optional().transform((v): Record<string, string> | undefined => {
+    if (v === undefined) return undefined;
+
+    const match = /^([\w-]+):\s*(.+)$/.exec(v);
+    return match ? { [match[1]]: match[2] } : { Authorization: v };
+  }),
+  HTTP_UPLOAD_GZIP: z.enum(["yes", "no"]).default("yes").transform((v) => v === "yes"),
+  HTTP_UPLOAD_MAX_RETRIES: z.coerce.number().int().nonnegative().optional(),
+  HTTP_UPLOAD_TIMEOUT_MS: z.coerce.number().int().positive().optional(),
+  HTTP_UPLOAD_TLS_CA_PATH: z.string().optional(),
+  HTTP_UPLOAD_TLS_INSECURE: z.enum(["yes", "no"]).optional().transform((v) => v === "yes"),
+
+  // Local filesystem
+  LOCAL_FS_ROOT_DIR: z.string().default("data"),
 })
   .superRefine((cfg, ctx) => {
     // Run provider-specific validators
@@ -68,6 +254,14 @@ export const zCloudConfig = z.object({
       cloudConfigValidators[provider](cfg, ctx)
     }
     );
+
+    if (cfg.UPLOAD_POLICY === "at_least" && (cfg.UPLOAD_MIN_SUCCESSES ?? 1) > cfg.CLOUD_PROVIDERS.length) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["UPLOAD_MIN_SUCCESSES"],
+        message: `UPLOAD_MIN_SUCCESSES can't exceed the ${cfg.CLOUD_PROVIDERS.length} configured providers.`
+      });
+    }
   });
 
 
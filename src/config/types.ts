@@ -20,7 +20,76 @@ export const ServiceLocation = ["site","global"] as const;
 export type ServiceLocation = typeof ServiceLocation[number];
 
 /*
-* Allowed file extensions to upload
+* Built-in file formats to upload; collectors can register more with SerializerRegistry
 */
-export const FileExtension = ["json","ndjson","csv","raw"] as const;
+export const FileExtension = ["json","ndjson","csv","raw","parquet"] as const;
 export type FileExtension = typeof FileExtension[number];
+
+
+/**
+ * Response cache backends for API collector clients.
+ *
+ * - `"none"`: responses are not cached
+ * - `"memory"`: cached for the lifetime of the process
+ * - `"disk"`: cached on disk across runs
+ */
+export const ApiCacheBackend = ["none", "memory", "disk"] as const;
+export type ApiCacheBackend = typeof ApiCacheBackend[number];
+
+/**
+ * Fixture modes for API collector clients.
+ *
+ * - `"off"`: requests go to the network untouched
+ * - `"record"`: requests go to the network and every exchange is saved
+ * - `"replay"`: requests are answered from saved fixtures; unmatched requests fail
+ */
+export const FixtureMode = ["off", "record", "replay"] as const;
+export type FixtureMode = typeof FixtureMode[number];
+
+/**
+ * AWS credential modes for S3 upload clients.
+ *
+ * - `"static"`: access key ID and secret access key from the configuration
+ * - `"default_chain"`: the SDK default provider chain (environment, shared files, SSO, web identity, ECS/EC2 roles)
+ * - `"profile"`: a named profile from the shared config/credentials files
+ * - `"assume_role"`: an IAM role assumed through STS, with optional external ID and session name
+ */
+export const AwsAuthMode = ["static", "default_chain", "profile", "assume_role"] as const;
+export type AwsAuthMode = typeof AwsAuthMode[number];
+
+/**
+ * HTTP methods accepted by ingestion endpoints of the `http` upload provider.
+ */
+export const HttpUploadMethod = ["POST", "PUT"] as const;
+export type HttpUploadMethod = typeof HttpUploadMethod[number];
+
+/**
+ * When an upload to several providers counts as successful.
+ *
+ * - `"all"`: every provider must store the payload
+ * - `"at_least"`: a minimum number of providers must store the payload
+ * - `"best_effort"`: failures are reported but never fail the upload
+ */
+export const UploadPolicy = ["all", "at_least", "best_effort"] as const;
+export type UploadPolicy = typeof UploadPolicy[number];
+
+/**
+ * Compression applied to upload payloads.
+ *
+ * - `"none"`: payloads are stored as serialized
+ * - `"gzip"`: gzip, stored with a `.gz` suffix
+ * - `"zstd"`: Zstandard, stored with a `.zst` suffix (needs Node.js 22.15+ or Bun)
+ */
+export const UploadCompression = ["none", "gzip", "zstd"] as const;
+export type UploadCompression = typeof UploadCompression[number];
+
+/**
+ * Compression codecs of Parquet exports.
+ *
+ * - `"uncompressed"`: no compression
+ * - `"snappy"`: fast, moderate ratio; the usual choice for Athena/Glue
+ * - `"gzip"`: smaller files, slower to write and read
+ * - `"brotli"`: smallest files, slowest to write
+ */
+export const ParquetCodec = ["uncompressed", "snappy", "gzip", "brotli"] as const;
+export type ParquetCodec = typeof ParquetCodec[number];
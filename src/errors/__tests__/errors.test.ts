@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'bun:test';
+import { AxiosError, AxiosHeaders } from 'axios';
+import { z } from 'zod';
+import {
+  ApiRequestError,
+  AuthenticationError,
+  CollectorError,
+  InvalidAPIResponseError,
+  NotFoundError,
+  RateLimitedError,
+  SchemaValidationError,
+  TimeoutError,
+  UploadError
+} from '..';
+import { toApiRequestError } from '../../utils/axios.utils';
+import { zParseUsing } from '../../utils/zod.utils';
+
+const makeError = (status?: number, code?: string, headers: Record<string, string> = {}) => {
+  const config: any = { url: '/nodes', headers: new AxiosHeaders() };
+  const response: any = status
+    ? { status, statusText: '', headers, data: { message: 'nope' }, config }
+    : undefined;
+
+  return new AxiosError('failed', code, config, {}, response);
+};
+
+describe('errors', () => {
+  it('should keep InvalidAPIResponseError in the hierarchy', () => {
+    const error = new InvalidAPIResponseError('nodes', 'HTTP 500', { status: 500 });
+
+    expect(error).toBeInstanceOf(CollectorError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.route).toBe('nodes');
+    expect(error.status).toBe(500);
+    expect(error.attempts).toBe(1);
+    expect(error.retryable).toBe(false);
+    expect(error.name).toBe('InvalidAPIResponseError');
+  });
+
+  it('should include the provider and key in upload errors', () => {
+    const error = new UploadError('AWS S3', 'AccessDenied', { route: 's3://bucket/key', retryable: false });
+
+    expect(error.provider).toBe('AWS S3');
+    expect(error.message).toBe("Upload to AWS S3 failed for 's3://bucket/key': AccessDenied");
+  });
+
+  describe('toApiRequestError', () => {
+    it.each([
+      [401, AuthenticationError],
+      [403, AuthenticationError],
+      [404, NotFoundError],
+      [429, RateLimitedError],
+      [500, ApiRequestError]
+    ])('should map status %d', (status, type) => {
+      const error = toApiRequestError(makeError(status), 2, true);
+
+      expect(error).toBeInstanceOf(type);
+      expect(error).toMatchObject({ route: '/nodes', status, attempts: 2, retryable: true });
+      expect(error.data).toEqual({ message: 'nope' });
+    });
+
+    it('should map timeouts', () => {
+      const error = toApiRequestError(makeError(undefined, 'ECONNABORTED'));
+
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect(error.code).toBe('ECONNABORTED');
+    });
+
+    it('should carry the Retry-After delay of rate limited requests', () => {
+      const error = toApiRequestError(makeError(429, undefined, { 'retry-after': '7' })) as RateLimitedError;
+
+      expect(error.retryAfterMs).toBe(7000);
+    });
+  });
+
+  describe('zParseUsing', () => {
+    it('should throw a SchemaValidationError with the offending paths', () => {
+      const schema = z.object({ items: z.array(z.object({ id: z.number() })) });
+
+      try {
+        zParseUsing(schema, { items: [{ id: 1 }, { id: 'two' }] }, 'items');
+        throw new Error('Should have thrown');
+      } catch (error: any) {
+        expect(error).toBeInstanceOf(SchemaValidationError);
+        expect(error.paths).toEqual(['items.1.id']);
+        expect(error.route).toBe('items');
+        expect(error.message).toContain("Data from 'items' failed schema validation");
+      }
+    });
+  });
+});
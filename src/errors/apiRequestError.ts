@@ -0,0 +1,42 @@
+import CollectorError, { type CollectorErrorOpts } from "./collectorError";
+
+/**
+ * Error thrown when an API request fails at the HTTP or network level.
+ *
+ * More specific failures use the subclasses {@link AuthenticationError},
+ * {@link RateLimitedError}, {@link TimeoutError} and {@link NotFoundError}.
+ */
+export default class ApiRequestError extends CollectorError {
+    /** The error code reported by the HTTP client (e.g. `ECONNRESET`) */
+    private readonly _code?: string;
+
+    /** The raw response body, if any */
+    private readonly _data?: any;
+
+    /**
+     * Returns the error code reported by the HTTP client.
+     */
+    public get code(): string | undefined {
+        return this._code;
+    }
+
+    /**
+     * Returns the raw response body, if any.
+     */
+    public get data(): any {
+        return this._data;
+    }
+
+    /**
+     * Creates a new ApiRequestError.
+     *
+     * @param message - Error message
+     * @param opts - Error context plus the client error code and response body
+     */
+    constructor(message: string, opts: CollectorErrorOpts & { code?: string, data?: any } = {}) {
+        super(message, opts);
+
+        this._code = opts.code;
+        this._data = opts.data;
+    }
+}
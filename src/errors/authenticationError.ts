@@ -0,0 +1,6 @@
+import ApiRequestError from "./apiRequestError";
+
+/**
+ * Error thrown when an API rejects the client's credentials (`401`/`403`).
+ */
+export default class AuthenticationError extends ApiRequestError { }
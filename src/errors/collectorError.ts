@@ -0,0 +1,97 @@
+/**
+ * Context attached to every {@link CollectorError}.
+ */
+export interface CollectorErrorOpts {
+    /** API route or object key the error relates to */
+    route?: string;
+
+    /** HTTP status code, if any */
+    status?: number;
+
+    /** Number of attempts made before giving up */
+    attempts?: number;
+
+    /** Whether retrying the operation later may succeed */
+    retryable?: boolean;
+
+    /** Underlying error */
+    cause?: unknown;
+}
+
+/**
+ * Base class for all typed collector errors.
+ *
+ * Runners can branch on the subclass or on {@link retryable} instead of
+ * string-matching messages.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await client.getAllData();
+ * } catch (err) {
+ *   if (err instanceof CollectorError && err.retryable) {
+ *     scheduleRetry();
+ *   }
+ * }
+ * ```
+ */
+export default class CollectorError extends Error {
+    /** The API route or object key the error relates to */
+    private readonly _route?: string;
+
+    /** The HTTP status code, if any */
+    private readonly _status?: number;
+
+    /** The number of attempts made */
+    private readonly _attempts: number;
+
+    /** Whether the failure is transient */
+    private readonly _retryable: boolean;
+
+    /**
+     * Returns the API route or object key the error relates to.
+     */
+    public get route(): string | undefined {
+        return this._route;
+    }
+
+    /**
+     * Returns the HTTP status code, if any.
+     */
+    public get status(): number | undefined {
+        return this._status;
+    }
+
+    /**
+     * Returns the number of attempts made before giving up.
+     */
+    public get attempts(): number {
+        return this._attempts;
+    }
+
+    /**
+     * Returns whether retrying the operation later may succeed.
+     */
+    public get retryable(): boolean {
+        return this._retryable;
+    }
+
+    /**
+     * Creates a new CollectorError.
+     *
+     * @param message - Error message
+     * @param opts - Route, status, attempt count, retryability and cause
+     */
+    constructor(message: string, opts: CollectorErrorOpts = {}) {
+        super(message, opts.cause !== undefined ? { cause: opts.cause } : undefined);
+
+        // Maintain proper prototype chain for every subclass (important when extending built-ins)
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = new.target.name;
+
+        this._route = opts.route;
+        this._status = opts.status;
+        this._attempts = opts.attempts ?? 1;
+        this._retryable = opts.retryable ?? false;
+    }
+}
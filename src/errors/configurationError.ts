@@ -0,0 +1,27 @@
+import CollectorError from "./collectorError";
+
+/**
+ * Error thrown when configuration is missing, invalid or not loaded yet.
+ */
+export default class ConfigurationError extends CollectorError {
+    /** The invalid configuration keys */
+    private readonly _keys: string[];
+
+    /**
+     * Returns the invalid configuration keys, if known.
+     */
+    public get keys(): string[] {
+        return this._keys;
+    }
+
+    /**
+     * Creates a new ConfigurationError.
+     *
+     * @param message - Error message
+     * @param keys - Invalid configuration keys
+     */
+    constructor(message: string, keys: string[] = []) {
+        super(message);
+        this._keys = keys;
+    }
+}
@@ -1,4 +1,24 @@
+import CollectorError, { type CollectorErrorOpts } from "./collectorError";
+import ApiRequestError from "./apiRequestError";
+import AuthenticationError from "./authenticationError";
+import NotFoundError from "./notFoundError";
+import RateLimitedError from "./rateLimitedError";
+import TimeoutError from "./timeoutError";
 import InvalidAPIResponseError from "./invalidApiResponseError";
+import SchemaValidationError from "./schemaValidationError";
+import UploadError from "./uploadError";
+import ConfigurationError from "./configurationError";
+
 export {
-    InvalidAPIResponseError
-};
\ No newline at end of file
+    CollectorError,
+    CollectorErrorOpts,
+    ApiRequestError,
+    AuthenticationError,
+    NotFoundError,
+    RateLimitedError,
+    TimeoutError,
+    InvalidAPIResponseError,
+    SchemaValidationError,
+    UploadError,
+    ConfigurationError
+};
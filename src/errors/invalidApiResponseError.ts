@@ -1,3 +1,5 @@
+import CollectorError, { type CollectorErrorOpts } from "./collectorError";
+
 /**
  * Error thrown when an API route returns data that is invalid
  * or does not match the expected structure.
@@ -18,18 +20,15 @@
  * }
  * ```
  */
-export default class InvalidAPIResponseError extends Error {
-    /** The API route that returned invalid data */
-    private readonly _route: string;
-
+export default class InvalidAPIResponseError extends CollectorError {
     /** The raw data returned by the API */
     private readonly _data: any;
 
     /**
      * Returns the API route that caused the error.
      */
-    public get route(): string {
-        return this._route;
+    public override get route(): string {
+        return super.route!;
     }
 
     /**
@@ -44,16 +43,16 @@ export default class InvalidAPIResponseError extends Error {
      *
      * @param route - The API route that returned invalid data
      * @param data - The raw response data
+     * @param opts - Status, attempt count and retryability
      */
-    constructor(route: string, data: any) {
+    constructor(route: string, data: any, opts: Omit<CollectorErrorOpts, "route"> = {}) {
         // Build a descriptive error message
         const message = `API route '${route}' returned invalid data: ${JSON.stringify(data)}`;
-        super(message);
+        super(message, { ...opts, route });
 
         // Maintain proper prototype chain (important when extending built-ins)
         Object.setPrototypeOf(this, InvalidAPIResponseError.prototype);
 
-        this._route = route;
         this._data = data;
     }
 }
@@ -0,0 +1,6 @@
+import ApiRequestError from "./apiRequestError";
+
+/**
+ * Error thrown when an API route or resource does not exist (`404`).
+ */
+export default class NotFoundError extends ApiRequestError { }
@@ -0,0 +1,28 @@
+import { type CollectorErrorOpts } from "./collectorError";
+import ApiRequestError from "./apiRequestError";
+
+/**
+ * Error thrown when an API keeps rejecting requests with `429 Too Many Requests`.
+ */
+export default class RateLimitedError extends ApiRequestError {
+    /** The delay requested by the API's `Retry-After` header */
+    private readonly _retryAfterMs?: number;
+
+    /**
+     * Returns the delay requested by the API, in milliseconds, if any.
+     */
+    public get retryAfterMs(): number | undefined {
+        return this._retryAfterMs;
+    }
+
+    /**
+     * Creates a new RateLimitedError.
+     *
+     * @param message - Error message
+     * @param opts - Error context plus the requested retry delay
+     */
+    constructor(message: string, opts: CollectorErrorOpts & { code?: string, data?: any, retryAfterMs?: number } = {}) {
+        super(message, opts);
+        this._retryAfterMs = opts.retryAfterMs;
+    }
+}
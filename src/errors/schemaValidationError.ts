@@ -0,0 +1,50 @@
+import z from "zod";
+
+import CollectorError, { type CollectorErrorOpts } from "./collectorError";
+
+/**
+ * Error thrown when data does not match its Zod schema.
+ *
+ * Carries the Zod issues and the paths of the offending values.
+ *
+ * @example
+ * ```ts
+ * catch (err) {
+ *   if (err instanceof SchemaValidationError) {
+ *     logger.warn(`Bad data at ${err.paths.join(", ")}`);
+ *   }
+ * }
+ * ```
+ */
+export default class SchemaValidationError extends CollectorError {
+    /** The Zod issues */
+    private readonly _issues: z.core.$ZodIssue[];
+
+    /**
+     * Returns the Zod issues.
+     */
+    public get issues(): z.core.$ZodIssue[] {
+        return this._issues;
+    }
+
+    /**
+     * Returns the dot-joined paths of every offending value.
+     */
+    public get paths(): string[] {
+        return this._issues.map(issue => issue.path.map(String).join(".") || "(root)");
+    }
+
+    /**
+     * Creates a new SchemaValidationError.
+     *
+     * @param error - The Zod error
+     * @param opts - Error context, plus an optional summary added to the message
+     */
+    constructor(error: z.ZodError, opts: CollectorErrorOpts & { summary?: string } = {}) {
+        const where = opts.route ? `Data from '${opts.route}'` : "Data";
+        const summary = opts.summary ? ` (${opts.summary})` : "";
+        super(`${where} failed schema validation${summary}:\n${z.prettifyError(error)}`, { cause: error, ...opts });
+
+        this._issues = error.issues;
+    }
+}
@@ -0,0 +1,6 @@
+import ApiRequestError from "./apiRequestError";
+
+/**
+ * Error thrown when an API request times out.
+ */
+export default class TimeoutError extends ApiRequestError { }
@@ -0,0 +1,30 @@
+import CollectorError, { type CollectorErrorOpts } from "./collectorError";
+
+/**
+ * Error thrown when uploading data to a storage provider fails.
+ *
+ * The `route` holds the object key or path that was being written.
+ */
+export default class UploadError extends CollectorError {
+    /** The name of the upload provider */
+    private readonly _provider: string;
+
+    /**
+     * Returns the name of the upload provider.
+     */
+    public get provider(): string {
+        return this._provider;
+    }
+
+    /**
+     * Creates a new UploadError.
+     *
+     * @param provider - Name of the upload provider
+     * @param message - Error message
+     * @param opts - Error context
+     */
+    constructor(provider: string, message: string, opts: CollectorErrorOpts = {}) {
+        super(`Upload to ${provider} failed${opts.route ? ` for '${opts.route}'` : ""}: ${message}`, opts);
+        this._provider = provider;
+    }
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "bun:test";
+import { buffer } from "stream/consumers";
+import { z } from "zod";
+import { csvColumnsFromSchema, csvColumnsOf, flattenRecord, toCSV, toCSVField, toCSVStream } from '../csv.utils';
+
+describe("flattenRecord", () => {
+    it("flattens nested objects into dot paths", () => {
+        const seen = new Date("2026-01-31T00:00:00Z");
+
+        expect(flattenRecord({ id: 1, owner: { name: "ops", team: { id: 2 } }, tags: ["a"], seen }))
+            .toEqual({ id: 1, "owner.name": "ops", "owner.team.id": 2, tags: ["a"], seen });
+    });
+});
+
+describe("CSV columns", () => {
+    it("derives columns from the union of record keys", () => {
+        expect(csvColumnsOf([{ a: 1, b: { c: 2 } }, { d: 3, a: 4 }])).toEqual(["a", "b.c", "d"]);
+    });
+
+    it("derives columns from a Zod schema", () => {
+        const schema = z.object({
+            id: z.number(),
+            owner: z.object({ name: z.string(), team: z.object({ id: z.number() }).nullable() }).optional(),
+            tags: z.array(z.string())
+        });
+
+        expect(csvColumnsFromSchema(schema)).toEqual(["id", "owner.name", "owner.team.id", "tags"]);
+    });
+});
+
+describe("toCSVField", () => {
+    it("quotes fields as RFC 4180 requires", () => {
+        expect(toCSVField("plain")).toBe("plain");
+        expect(toCSVField("a,b")).toBe('"a,b"');
+        expect(toCSVField('say "hi"')).toBe('"say ""hi"""');
+        expect(toCSVField("line\nbreak")).toBe('"line\nbreak"');
+        expect(toCSVField("cr\rhere")).toBe('"cr\rhere"');
+    });
+
+    it("formats non-string values", () => {
+        expect(toCSVField(null)).toBe("");
+        expect(toCSVField(undefined, { nullValue: "NULL" })).toBe("NULL");
+        expect(toCSVField(false)).toBe("false");
+        expect(toCSVField(new Date("2026-01-31T00:00:00Z"))).toBe("2026-01-31T00:00:00.000Z");
+        expect(toCSVField(["a", "b"])).toBe('"[""a"",""b""]"');
+    });
+
+    it("honors custom delimiter, quote and escape characters", () => {
+        expect(toCSVField("a;b", { delimiter: ";" })).toBe('"a;b"');
+        expect(toCSVField("a,b", { delimiter: ";" })).toBe("a,b");
+        expect(toCSVField("it's", { quote: "'" })).toBe("'it''s'");
+        expect(toCSVField('say "hi"', { escape: "\\" })).toBe('"say \\"hi\\""');
+        expect(toCSVField("back\\slash", { escape: "\\" })).toBe('"back\\\\slash"');
+    });
+});
+
+describe("toCSV", () => {
+    const records = [
+        { id: 1, owner: { name: "ops, eu" }, note: null },
+        { id: 2, extra: "x" }
+    ];
+
+    it("writes a header and one CRLF-terminated row per record", () => {
+        expect(toCSV(records)).toBe(
+            'id,owner.name,note,extra\r\n' +
+            '1,"ops, eu",,\r\n' +
+            '2,,,x\r\n'
+        );
+    });
+
+    it("uses the schema or explicit columns and formatting options", () => {
+        const schema = z.object({ id: z.number(), owner: z.object({ name: z.string() }).optional() });
+
+        expect(toCSV(records, { schema, delimiter: "\t", nullValue: "\\N", lineEnding: "\n" }))
+            .toBe('id\towner.name\n1\tops, eu\n2\t\\N\n');
+        expect(toCSV(records, { columns: ["extra", "id"], header: false })).toBe(',1\r\nx,2\r\n');
+    });
+});
+
+describe("toCSVStream", () => {
+    it("streams rows with columns from the first record", async () => {
+        const records = (async function* () {
+            yield { id: 1, owner: { name: "a" } };
+            yield { id: 2, owner: { name: "b" }, ignored: true };
+        })();
+
+        expect((await buffer(toCSVStream(records))).toString()).toBe('id,owner.name\r\n1,a\r\n2,b\r\n');
+    });
+
+    it("writes only the header of an empty stream with known columns", async () => {
+        expect((await buffer(toCSVStream([], { columns: ["id"] }))).toString()).toBe('id\r\n');
+        expect((await buffer(toCSVStream([]))).toString()).toBe('');
+    });
+});
@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { gunzipSync } from 'zlib';
+import { z } from 'zod';
+import { CloudUploadClientCollection, LocalFileUploadClient } from '../../cloud';
+import { ConfigurationError } from '../../errors';
+import { LoggerFactory } from '../../logging/logger';
+import { exportData, exportDataToFile, exportDataToFiles } from '../data.utils';
+
+describe('exportData', () => {
+  const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'collector-export-'));
+  const opts = { serviceLocation: 'site' as const, siteName: 'lab', serviceName: 'inventory' };
+
+  beforeAll(() => {
+    if (!LoggerFactory.HasLogger()) {
+      LoggerFactory.CreateLogger('error').mute();
+    }
+  });
+
+  afterAll(() => fs.rmSync(rootDir, { recursive: true, force: true }));
+
+  it('should await every upload and report per data source', async () => {
+    const uploaders = new CloudUploadClientCollection([await LocalFileUploadClient.Create(path.join(rootDir, 'ok'))]);
+
+    const report = await exportData(uploaders, { vms: [{ id: 1 }], hosts: [] }, 'production', opts);
+
+    expect(report.satisfied).toBe(true);
+    expect(report.skipped).toEqual(['hosts']);
+
+    const [result] = report.sources.vms.results;
+    expect(result.bytes).toBe(JSON.stringify([{ id: 1 }], null, 2).length);
+    expect(result.key).toStartWith('site/vms/site=lab/');
+    expect(fs.existsSync(path.join(rootDir, 'ok', result.key!))).toBe(true);
+    expect(report.summary).toMatchObject({ exported: 1, skipped: 1, failed: 0, uploads: 1, failedUploads: 0, bytes: result.bytes });
+  });
+
+  it('should report data sources that fail to serialize and export the others', async () => {
+    const uploaders = new CloudUploadClientCollection([await LocalFileUploadClient.Create(path.join(rootDir, 'ok'))]);
+
+    const report = await exportData(uploaders, { vms: [{ id: 1n }], hosts: [{ id: 1 }] }, 'production', opts);
+
+    expect(report.satisfied).toBe(false);
+    expect(report.errors.vms).toBeInstanceOf(TypeError);
+    expect(report.sources.hosts.satisfied).toBe(true);
+    expect(report.summary).toMatchObject({ exported: 1, failed: 1, uploads: 1 });
+  });
+
+  it('should write non-production exports below the configured local directory', async () => {
+    const uploaders = new CloudUploadClientCollection();
+    uploaders.localRootDir = path.join(rootDir, 'staging');
+
+    const report = await exportData(uploaders, { vms: [{ id: 1 }] }, 'staging', opts);
+
+    expect(fs.existsSync(path.join(rootDir, 'staging', report.sources.vms.results[0].key!))).toBe(true);
+  });
+
+  it('should fail the run when the upload policy is not met', async () => {
+    const blocked = path.join(rootDir, 'blocked');
+    fs.writeFileSync(blocked, 'not a directory');
+    const uploaders = new CloudUploadClientCollection([
+      await LocalFileUploadClient.Create(path.join(rootDir, 'ok')),
+      await LocalFileUploadClient.Create(blocked)
+    ]);
+
+    const exitCode = process.exitCode;
+
+    const report = await exportData(uploaders, { vms: [{ id: 1 }] }, 'production', opts);
+
+    expect(report.satisfied).toBe(false);
+    expect(report.sources.vms).toMatchObject({ succeeded: 1, failed: 1, satisfied: false });
+    // the caller decides on the exit code
+    expect(process.exitCode).toBe(exitCode);
+  });
+
+  it('should upload a run manifest when asked for', async () => {
+    const uploaders = new CloudUploadClientCollection([await LocalFileUploadClient.Create(path.join(rootDir, 'manifest'))]);
+    const schemas = { vms: z.object({ id: z.number() }) };
+    const events = (async function* () { yield { id: 1 }; yield { id: 2 }; })();
+
+    const report = await exportData(
+      uploaders,
+      { vms: [{ id: 1 }, { id: 'x' }], events, hosts: [] },
+      'production',
+      { ...opts, extension: 'ndjson', runId: 'run-1' },
+      { schemas },
+      { schemaVersion: '2', warnings: { hosts: ['API returned 204'] } }
+    );
+
+    const manifestKey = report.manifestUpload!.results[0].key!;
+    expect(manifestKey).toEndWith('/manifest-run-1.json');
+    expect(manifestKey).toStartWith('site/_manifest/site=lab/');
+
+    const manifest = JSON.parse(fs.readFileSync(path.join(rootDir, 'manifest', manifestKey), 'utf-8'));
+    expect(manifest).toMatchObject({ runId: 'run-1', serviceName: 'inventory', siteName: 'lab', format: 'ndjson', satisfied: true });
+    expect(Date.parse(manifest.finishedAt)).toBeGreaterThanOrEqual(Date.parse(manifest.startedAt));
+
+    const vmsKey = report.sources.vms.results[0].key!;
+    const vmsBody = fs.readFileSync(path.join(rootDir, 'manifest', vmsKey));
+    expect(manifest.sources.vms).toMatchObject({
+      status: 'exported',
+      records: 2,
+      bytes: vmsBody.length,
+      sha256: createHash('sha256').update(vmsBody).digest('hex'),
+      schemaVersion: '2',
+      uploads: [{ provider: 'Local filesystem', key: vmsKey }]
+    });
+    expect(manifest.sources.vms.warnings).toHaveLength(1);
+    expect(manifest.sources.events).toMatchObject({ status: 'exported', records: 2 });
+    expect(manifest.sources.hosts).toMatchObject({ status: 'skipped', records: 0, warnings: ['API returned 204'] });
+  });
+
+  it('should export Parquet files using the schema of each data source', async () => {
+    const uploaders = new CloudUploadClientCollection([await LocalFileUploadClient.Create(path.join(rootDir, 'parquet'))]);
+    const schemas = { vms: z.object({ id: z.number().int(), name: z.string() }) };
+    const parquetOpts = { ...opts, extension: 'parquet' as const };
+
+    const report = await exportData(uploaders, { vms: [{ id: 1, name: 'a' }] }, 'production', parquetOpts, { schemas });
+
+    const [result] = report.sources.vms.results;
+    expect(result.key).toEndWith('/data.parquet');
+    expect(fs.readFileSync(path.join(rootDir, 'parquet', result.key!)).subarray(0, 4).toString()).toBe('PAR1');
+
+    const empty = await exportData(uploaders, { vms: [], hosts: [] }, 'production', parquetOpts, { schemas });
+    expect(empty.skipped.sort()).toEqual(['hosts', 'vms']);
+
+    await expect(exportData(uploaders, { vms: [], hosts: [{ id: 1 }] }, 'production', parquetOpts, { schemas }))
+      .rejects.toThrow('missing: hosts');
+  });
+
+  it('should export CSV files for in-memory and streamed data sources', async () => {
+    const uploaders = new CloudUploadClientCollection([await LocalFileUploadClient.Create(path.join(rootDir, 'csv'))]);
+    const events = (async function* () { yield { id: 1, owner: { name: 'a,b' } }; })();
+
+    const report = await exportData(uploaders, { vms: [{ id: 1, name: 'x' }], events }, 'production', { ...opts, extension: 'csv' });
+
+    const read = (source: string) => fs.readFileSync(path.join(rootDir, 'csv', report.sources[source].results[0].key!), 'utf-8');
+    expect(report.sources.vms.results[0].key).toEndWith('/data.csv');
+    expect(read('vms')).toBe('id,name\r\n1,x\r\n');
+    expect(read('events')).toBe('id,owner.name\r\n1,"a,b"\r\n');
+  });
+});
+
+describe('exportDataToFile', () => {
+  const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'collector-file-'));
+  const meta = { serviceName: 'inventory', dataSourceName: 'vms', timeToday: '2026-01-31' };
+
+  beforeAll(() => {
+    if (!LoggerFactory.HasLogger()) {
+      LoggerFactory.CreateLogger('error').mute();
+    }
+  });
+
+  afterAll(() => fs.rmSync(rootDir, { recursive: true, force: true }));
+
+  it('should write JSON by default, creating the directory', async () => {
+    const dir = path.join(rootDir, 'nested', 'dir');
+
+    const result = await exportDataToFile(dir, [{ id: 1 }], meta);
+
+    expect(result.error).toBeUndefined();
+    expect(result.path).toBe(path.join(dir, 'inventory-vms-2026-01-31.json'));
+    expect(result.bytes).toBe(JSON.stringify([{ id: 1 }], null, 2).length);
+    expect(JSON.parse(fs.readFileSync(result.path, 'utf-8'))).toEqual([{ id: 1 }]);
+  });
+
+  it('should name and serialize the file by format', async () => {
+    const result = await exportDataToFile(rootDir, [{ id: 1 }], meta, 'csv');
+
+    expect(fs.readFileSync(result.path, 'utf-8')).toBe('id\r\n1\r\n');
+  });
+
+  it('should compress in-memory and streamed data', async () => {
+    const result = await exportDataToFile(rootDir, [{ id: 1 }], meta, 'csv', {}, 'gzip');
+    const events = (async function* () { yield { id: 1 }; yield { id: 2 }; })();
+    const streamed = await exportDataToFile(rootDir, events, { ...meta, dataSourceName: 'events' }, 'ndjson', {}, 'gzip');
+
+    expect(result.path).toBe(path.join(rootDir, 'inventory-vms-2026-01-31.csv.gz'));
+    expect(result.bytes).toBe(fs.statSync(result.path).size);
+    expect(gunzipSync(fs.readFileSync(result.path)).toString('utf-8')).toBe('id\r\n1\r\n');
+    expect(streamed.path).toBe(path.join(rootDir, 'inventory-events-2026-01-31.json.gz'));
+    expect(streamed.bytes).toBe(fs.statSync(streamed.path).size);
+    expect(gunzipSync(fs.readFileSync(streamed.path)).toString('utf-8')).toBe('{"id":1}\n{"id":2}');
+  });
+
+  it('should report failures instead of throwing', async () => {
+    const events = (async function* () { yield { id: 1 }; throw new Error('stream broke'); })();
+
+    const result = await exportDataToFile(rootDir, events, meta, 'ndjson');
+
+    expect(result.error?.message).toBe('stream broke');
+    expect(fs.existsSync(result.path)).toBe(false);
+    expect((await exportDataToFile(rootDir, [{ id: 1 }], meta, 'xml')).error).toBeInstanceOf(ConfigurationError);
+  });
+});
+
+describe('exportDataToFiles', () => {
+  const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'collector-files-'));
+
+  afterAll(() => fs.rmSync(rootDir, { recursive: true, force: true }));
+
+  it('should await every write and summarize the results', async () => {
+    const report = await exportDataToFiles(
+      rootDir,
+      { vms: [{ id: 1 }], hosts: [], disks: [{ id: 1n }] },
+      { serviceName: 'inventory', timeToday: '2026-01-31' }
+    );
+
+    expect(report.skipped).toEqual(['hosts']);
+    expect(report.succeeded).toBe(1);
+    expect(report.failed).toBe(1);
+    expect(report.bytes).toBe(report.sources.vms.bytes);
+    expect(fs.existsSync(report.sources.vms.path)).toBe(true);
+    expect(report.sources.disks.error).toBeInstanceOf(TypeError);
+  });
+});
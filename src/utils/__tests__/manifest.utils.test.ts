@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'bun:test';
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+import { text } from 'stream/consumers';
+import { z } from 'zod';
+import { checksumBody, inspectRecords } from '../manifest.utils';
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+
+describe('inspectRecords', () => {
+  const schema = z.object({ id: z.number() });
+
+  it('should count in-memory records and report schema violations', () => {
+    const { data, stats } = inspectRecords([{ id: 1 }, { id: 'x' }, {}], schema);
+
+    expect(data).toEqual([{ id: 1 }, { id: 'x' }, {}]);
+    expect(stats.records).toBe(3);
+    expect(stats.warnings).toHaveLength(2);
+    expect(stats.warnings[0]).toStartWith('record 1: id: ');
+  });
+
+  it('should cap the warnings', () => {
+    const { stats } = inspectRecords([{}, {}, {}], schema, 1);
+
+    expect(stats.warnings).toEqual([expect.stringContaining('record 0'), 'further records failing the schema were not reported']);
+  });
+
+  it('should inspect streamed records as they are consumed', async () => {
+    const records = (async function* () { yield { id: 1 }; yield { id: 2 }; })();
+    const { data, stats } = inspectRecords(records, schema);
+
+    expect(stats.records).toBe(0);
+    for await (const _ of data) { /* consume */ }
+    expect(stats.records).toBe(2);
+    expect(stats.warnings).toEqual([]);
+  });
+
+  it('should leave byte streams uncounted', () => {
+    const source = Readable.from([Buffer.from('{}')], { objectMode: false });
+    const { data, stats } = inspectRecords(source, schema);
+
+    expect(data).toBe(source);
+    expect(stats.records).toBeUndefined();
+  });
+});
+
+describe('checksumBody', () => {
+  it('should hash in-memory payloads at once', () => {
+    expect(checksumBody('abc').checksum).toEqual({ bytes: 3, sha256: sha256('abc') });
+  });
+
+  it('should hash streams as they are read', async () => {
+    const { body, checksum } = checksumBody(Readable.from(['ab', 'c']));
+
+    expect(checksum.sha256).toBeUndefined();
+    expect(await text(body)).toBe('abc');
+    expect(checksum).toEqual({ bytes: 3, sha256: sha256('abc') });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from "bun:test";
+import { ParquetReader } from "@dsnp/parquetjs";
+import { buffer } from "stream/consumers";
+import { z } from "zod";
+import { convertToParquet, toParquetStream, zodToParquetSchema } from '../parquet.utils';
+
+const zHost = z.object({
+    id: z.number().int(),
+    load: z.number(),
+    name: z.string(),
+    state: z.enum(["running", "stopped"]),
+    seen: z.date(),
+    created: z.iso.datetime(),
+    tags: z.array(z.string()),
+    owner: z.object({ name: z.string(), team: z.string().nullable() }).optional(),
+    disks: z.array(z.object({ size: z.number().int() })),
+    labels: z.record(z.string(), z.string()).optional(),
+    matrix: z.array(z.array(z.number())).optional(),
+    active: z.boolean().default(true)
+});
+
+const readAll = async (file: Buffer) => {
+    const reader = await ParquetReader.openBuffer(file);
+    const cursor = reader.getCursor();
+    const rows: any[] = [];
+    for (let row = await cursor.next(); row; row = await cursor.next()) rows.push(row);
+    return { reader, rows };
+};
+
+describe("zodToParquetSchema", () => {
+    it("maps Zod types to Parquet types", () => {
+        const { schema } = zodToParquetSchema(zHost);
+        const fields = schema.fields;
+
+        expect(fields.id.primitiveType).toBe("INT64");
+        expect(fields.load.primitiveType).toBe("DOUBLE");
+        expect(fields.name.originalType).toBe("UTF8");
+        expect(fields.state.originalType).toBe("UTF8");
+        expect(fields.seen.originalType).toBe("TIMESTAMP_MILLIS");
+        expect(fields.created.originalType).toBe("TIMESTAMP_MILLIS");
+        expect(fields.tags.repetitionType).toBe("REPEATED");
+        expect(fields.owner.repetitionType).toBe("OPTIONAL");
+        expect(fields.owner.fields!.team.repetitionType).toBe("OPTIONAL");
+        expect(fields.disks.repetitionType).toBe("REPEATED");
+        expect(fields.disks.fields!.size.primitiveType).toBe("INT64");
+        expect(fields.labels.originalType).toBe("UTF8");
+        expect(fields.matrix.originalType).toBe("UTF8");
+        expect(fields.active.repetitionType).toBe("OPTIONAL");
+    });
+
+    it("applies the compression codec to every column", () => {
+        const { schema } = zodToParquetSchema(zHost, "gzip");
+
+        expect(schema.fields.id.compression).toBe("GZIP");
+        expect(schema.fields.owner.fields!.name.compression).toBe("GZIP");
+    });
+});
+
+describe("convertToParquet", () => {
+    const host = {
+        id: 7,
+        load: 0.5,
+        name: "web-1",
+        state: "running",
+        seen: new Date("2026-01-31T12:00:00Z"),
+        created: "2026-01-01T00:00:00Z",
+        tags: ["a", "b"],
+        owner: { name: "ops", team: null },
+        disks: [{ size: 100 }, { size: 200 }],
+        labels: { env: "prod" },
+        matrix: [[1, 2], [3]]
+    };
+
+    it("writes records readable as Parquet", async () => {
+        const file = await convertToParquet([host, { ...host, id: 8, owner: undefined, tags: [] }], zHost, { codec: "uncompressed" });
+
+        expect(file.subarray(0, 4).toString()).toBe("PAR1");
+
+        const { reader, rows } = await readAll(file);
+        expect(Number(reader.getRowCount())).toBe(2);
+        expect(Number(rows[0].id)).toBe(7);
+        expect(rows[0].state).toBe("running");
+        expect(rows[0].seen).toEqual(new Date("2026-01-31T12:00:00Z"));
+        expect(rows[0].created).toEqual(new Date("2026-01-01T00:00:00Z"));
+        expect(rows[0].tags).toEqual(["a", "b"]);
+        expect(rows[0].owner).toEqual({ name: "ops", team: null });
+        expect(rows[0].disks.map((d: any) => Number(d.size))).toEqual([100, 200]);
+        expect(JSON.parse(rows[0].labels)).toEqual({ env: "prod" });
+        expect(JSON.parse(rows[0].matrix)).toEqual([[1, 2], [3]]);
+        expect(rows[1].owner).toBeNull();
+    });
+
+    it("rejects records missing required fields", async () => {
+        await expect(convertToParquet([{ ...host, name: undefined }], zHost)).rejects.toThrow(/name/);
+    });
+
+    it("streams records one row group at a time", async () => {
+        const records = (async function* () {
+            for (let id = 0; id < 25; id++) yield { ...host, id };
+        })();
+
+        const { rows } = await readAll(await buffer(toParquetStream(records, zHost, { codec: "brotli", rowGroupSize: 10 })));
+
+        expect(rows.map(row => Number(row.id))).toEqual(Array.from({ length: 25 }, (_, id) => id));
+    });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { text } from 'stream/consumers';
+import { z } from 'zod';
+import { CloudUploadClientCollection, contentHeadersFor, LocalFileUploadClient } from '../../cloud';
+import { ConfigurationError } from '../../errors';
+import { LoggerFactory } from '../../logging/logger';
+import { exportData } from '../data.utils';
+import { serializeData, SerializerRegistry, type Serializer } from '../serializers';
+
+const prometheus: Serializer = {
+  format: 'prometheus',
+  contentType: 'text/plain; version=0.0.4',
+  extension: 'prom',
+  serialize: (metrics: { name: string, value: number }[]) => metrics.map(m => `${m.name} ${m.value}\n`).join('')
+};
+
+const context = { dataSourceName: 'vms', formatOpts: {} };
+
+describe('SerializerRegistry', () => {
+  afterEach(() => { SerializerRegistry.Unregister('prometheus'); });
+
+  it('should register the built-in formats', () => {
+    expect(SerializerRegistry.Formats()).toEqual(['json', 'ndjson', 'csv', 'raw', 'parquet']);
+    expect(SerializerRegistry.Get('ndjson')).toMatchObject({ contentType: 'application/x-ndjson', extension: 'json' });
+  });
+
+  it('should reject unknown formats', () => {
+    expect(() => SerializerRegistry.Get('xml')).toThrow(ConfigurationError);
+    expect(() => SerializerRegistry.Register({ ...prometheus, extension: '' })).toThrow(ConfigurationError);
+  });
+
+  it('should use registered formats for content types', () => {
+    SerializerRegistry.Register(prometheus);
+
+    expect(SerializerRegistry.Has('prometheus')).toBe(true);
+    expect(contentHeadersFor('prometheus', 'gzip')).toEqual({ contentType: 'text/plain; version=0.0.4', contentEncoding: 'gzip' });
+    expect(contentHeadersFor('xml')).toEqual({ contentType: 'application/octet-stream' });
+  });
+});
+
+describe('serializeData', () => {
+  it('should serialize in-memory data with the format serializer', async () => {
+    const { body, serializer } = await serializeData([{ id: 1 }, { id: 2 }], 'ndjson', context);
+
+    expect(serializer.format).toBe('ndjson');
+    expect(body).toBe('{"id":1}\n{"id":2}');
+  });
+
+  it('should write streams of formats that cannot stream as NDJSON', async () => {
+    const records = (async function* () { yield { id: 1 }; yield { id: 2 }; })();
+
+    const { body, serializer } = await serializeData(records, 'json', context);
+
+    expect(serializer.format).toBe('ndjson');
+    expect(await text(body as Readable)).toBe('{"id":1}\n{"id":2}');
+  });
+
+  it('should pass NDJSON byte streams through unchanged', async () => {
+    const source = Readable.from([Buffer.from('{"id":1}')], { objectMode: false });
+
+    const { body } = await serializeData(source, 'ndjson', context);
+
+    expect(body).toBe(source);
+  });
+
+  it('should reject byte streams for record formats', async () => {
+    const source = () => Readable.from([Buffer.from('id\n1\n')], { objectMode: false });
+
+    await expect(serializeData(source(), 'csv', context)).rejects.toThrow('csv exports need records');
+    await expect(serializeData(source(), 'parquet', { ...context, schema: z.object({ id: z.number() }) }))
+      .rejects.toThrow('parquet exports need records');
+  });
+
+  it('should require a schema for Parquet', async () => {
+    await expect(serializeData([{ id: 1 }], 'parquet', context)).rejects.toThrow(ConfigurationError);
+  });
+});
+
+describe('exportData with registered formats', () => {
+  const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'collector-serializers-'));
+  const opts = { serviceLocation: 'site' as const, siteName: 'lab', serviceName: 'inventory' };
+
+  beforeAll(() => {
+    if (!LoggerFactory.HasLogger()) {
+      LoggerFactory.CreateLogger('error').mute();
+    }
+
+    SerializerRegistry.Register(prometheus);
+  });
+
+  afterAll(() => {
+    SerializerRegistry.Unregister('prometheus');
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('should upload custom formats with their extension', async () => {
+    const uploaders = new CloudUploadClientCollection([await LocalFileUploadClient.Create(rootDir)]);
+
+    const report = await exportData(uploaders, { metrics: [{ name: 'up', value: 1 }] }, 'production', { ...opts, extension: 'prometheus' });
+
+    const [result] = report.sources.metrics.results;
+    expect(result.key).toEndWith('/data.prom');
+    expect(fs.readFileSync(path.join(rootDir, result.key!), 'utf-8')).toBe('up 1\n');
+  });
+
+  it('should reject unregistered formats before uploading', async () => {
+    const uploaders = new CloudUploadClientCollection([await LocalFileUploadClient.Create(rootDir)]);
+
+    await expect(exportData(uploaders, { metrics: [{ name: 'up', value: 1 }] }, 'production', { ...opts, extension: 'xml' }))
+      .rejects.toThrow(ConfigurationError);
+  });
+});
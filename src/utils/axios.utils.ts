@@ -1,5 +1,13 @@
 import { AxiosError, AxiosResponse } from "axios";
 import { LogLevel } from "../logging";
+import {
+    ApiRequestError,
+    AuthenticationError,
+    NotFoundError,
+    RateLimitedError,
+    TimeoutError
+} from "../errors";
+import RetryPolicy from "../api/retryPolicy";
 
 // -----------------------------------------------------------------------------
 // Axios / HTTP Error Utilities
@@ -62,3 +70,58 @@ export const writeAxiosErrorLog = (error: AxiosError): [LogLevel, string] => {
     finalMessage = `Endpoint '${route}' -> unexpected error (${error.status}) -> ${errorMessage} | ${moreInfo}`
     return [ "error", finalMessage ]
 }
+
+/**
+ * Error codes axios and Node report for timed out requests
+ */
+const timeoutErrorCodes = [ "ECONNABORTED", "ETIMEDOUT", AxiosError.ETIMEDOUT ]
+
+/**
+ * Converts a failed axios request into the matching typed collector error
+ *
+ * - `401`/`403` -> {@link AuthenticationError}
+ * - `404` -> {@link NotFoundError}
+ * - `429` -> {@link RateLimitedError} (with the `Retry-After` delay)
+ * - timeouts -> {@link TimeoutError}
+ * - anything else -> {@link ApiRequestError}
+ *
+ * @param error - AxiosError thrown from a failed HTTP request
+ * @param attempts - Number of attempts made
+ * @param retryable - Whether retrying the request later may succeed
+ * @returns Typed error with the original error as `cause`
+ */
+export const toApiRequestError = (error: AxiosError, attempts: number = 1, retryable: boolean = false): ApiRequestError => {
+    const route = error.config?.url ?? "(unknown)";
+    const status = error.response?.status;
+    const opts = {
+        route,
+        status,
+        attempts,
+        retryable,
+        cause: error,
+        code: error.code,
+        data: error.response?.data
+    };
+
+    const tries = attempts > 1 ? ` after ${attempts} attempts` : "";
+
+    if (status === 401 || status === 403) {
+        return new AuthenticationError(`Endpoint '${route}' rejected the credentials (${status})${tries}`, opts);
+    }
+
+    if (status === 404) {
+        return new NotFoundError(`Endpoint '${route}' was not found (404)`, opts);
+    }
+
+    if (status === 429) {
+        const retryAfterMs = RetryPolicy.ParseRetryAfter(error.response?.headers?.["retry-after"]);
+        return new RateLimitedError(`Endpoint '${route}' is rate limited (429)${tries}`, { ...opts, retryAfterMs });
+    }
+
+    if (!error.response && error.code && timeoutErrorCodes.includes(error.code)) {
+        return new TimeoutError(`Endpoint '${route}' timed out (${error.code})${tries}`, opts);
+    }
+
+    const reason = status ?? error.code ?? "network error";
+    return new ApiRequestError(`Endpoint '${route}' failed (${reason})${tries}: ${error.message}`, opts);
+}
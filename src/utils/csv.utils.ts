@@ -0,0 +1,217 @@
+import { Readable } from "stream";
+import { z } from "zod";
+
+/**
+ * Options for serializing records as CSV.
+ */
+export interface CsvOpts {
+    /** Field separator (default `,`) */
+    delimiter?: string;
+
+    /** Character enclosing quoted fields (default `"`) */
+    quote?: string;
+
+    /** Character escaping a quote inside a quoted field (default: the quote itself, as in RFC 4180) */
+    escape?: string;
+
+    /** Text written for `null` and `undefined` values (default: empty) */
+    nullValue?: string;
+
+    /** Record separator (default `\r\n`, as in RFC 4180) */
+    lineEnding?: string;
+
+    /** Write a header row (default `true`) */
+    header?: boolean;
+
+    /** Columns in order, as dot paths; overrides header derivation */
+    columns?: string[];
+
+    /** Zod schema of the records, used to derive the columns */
+    schema?: z.ZodObject;
+}
+
+/** Zod wrappers that don't change the shape of a value */
+const TransparentWrappers = ["optional", "nullable", "nonoptional", "default", "prefault", "catch", "readonly"];
+
+/**
+ * Flattens nested objects into dot-path keys.
+ *
+ * Arrays are kept as values (they are written as JSON).
+ *
+ * @param record - Record to flatten
+ * @param prefix - Path of the record itself
+ * @returns Flat record
+ *
+ * @example
+ * flattenRecord({ id: 1, owner: { name: "ops" } }); // { id: 1, "owner.name": "ops" }
+ */
+export const flattenRecord = (record: Record<string, unknown>, prefix = ""): Record<string, unknown> => {
+    const flat: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(record)) {
+        const path = `${prefix}${key}`;
+
+        if (typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date)) {
+            Object.assign(flat, flattenRecord(value as Record<string, unknown>, `${path}.`));
+        } else {
+            flat[path] = value;
+        }
+    }
+
+    return flat;
+}
+
+/**
+ * Derives CSV columns from the union of the records' keys, in first-seen order.
+ *
+ * @param records - Records, nested objects included
+ * @returns Dot-path columns
+ */
+export const csvColumnsOf = (records: Record<string, unknown>[]): string[] => {
+    const columns = new Set<string>();
+    records.forEach(record => Object.keys(flattenRecord(record)).forEach(column => columns.add(column)));
+    return Array.from(columns);
+}
+
+/**
+ * Derives CSV columns from a Zod object schema, in declaration order.
+ *
+ * Nested objects are flattened into dot paths; anything else is one column.
+ *
+ * @param schema - Zod object schema of the records
+ * @param prefix - Path of the schema itself
+ * @returns Dot-path columns
+ */
+export const csvColumnsFromSchema = (schema: z.ZodObject, prefix = ""): string[] => {
+    return Object.entries(schema.shape).flatMap(([key, type]) => {
+        let inner = type as z.ZodType;
+        let def = (inner as any).def;
+
+        while (TransparentWrappers.includes(def.type) || def.type === "pipe" || def.type === "lazy") {
+            inner = def.type === "pipe" ? def.out : def.type === "lazy" ? def.getter() : def.innerType;
+            def = (inner as any).def;
+        }
+
+        return def.type === "object"
+            ? csvColumnsFromSchema(inner as z.ZodObject, `${prefix}${key}.`)
+            : [`${prefix}${key}`];
+    });
+}
+
+/**
+ * Formats one value as a CSV field, quoting it where RFC 4180 requires.
+ *
+ * Fields containing the delimiter, the quote, the escape character or a
+ * line break are quoted, and quotes inside them escaped.
+ *
+ * @param value - Value to format; arrays and objects are written as JSON, dates as ISO strings
+ * @param opts - Delimiter, quote, escape and null settings
+ * @returns The CSV field
+ */
+export const toCSVField = (value: unknown, opts: CsvOpts = {}): string => {
+    const { delimiter = ",", quote = "\"", escape = quote, nullValue = "" } = opts;
+
+    if (value === null || value === undefined) {
+        return nullValue;
+    }
+
+    const text = value instanceof Date
+        ? value.toISOString()
+        : typeof value === "object" ? JSON.stringify(value) : String(value);
+
+    const needsQuotes = text.includes(delimiter)
+        || text.includes(quote)
+        || text.includes(escape)
+        || /[\r\n]/.test(text);
+
+    if (!needsQuotes) {
+        return text;
+    }
+
+    const escaped = escape === quote
+        ? text.split(quote).join(escape + quote)
+        : text.split(escape).join(escape + escape).split(quote).join(escape + quote);
+
+    return `${quote}${escaped}${quote}`;
+}
+
+/**
+ * Formats one record as a CSV row.
+ */
+const toCSVRow = (record: Record<string, unknown>, columns: string[], opts: CsvOpts): string => {
+    const flat = flattenRecord(record);
+    return columns.map(column => toCSVField(flat[column], opts)).join(opts.delimiter ?? ",");
+}
+
+/**
+ * Formats the header row.
+ */
+const toCSVHeader = (columns: string[], opts: CsvOpts): string => {
+    return columns.map(column => toCSVField(column, opts)).join(opts.delimiter ?? ",");
+}
+
+/**
+ * Converts records to CSV.
+ *
+ * Columns come from `opts.columns`, else from `opts.schema`, else from the
+ * union of all records' keys. Nested objects are flattened into dot-path
+ * columns (`owner.name`); missing values are written as `opts.nullValue`.
+ *
+ * @param data - Records to convert
+ * @param opts - Columns, delimiter, quoting and null settings
+ * @returns CSV text; every row, the last included, ends with the line ending
+ *
+ * @example
+ * const body = toCSV([{ id: 1, owner: { name: "ops, eu" } }]);
+ * // 'id,owner.name\r\n1,"ops, eu"\r\n'
+ */
+export function toCSV(data: Record<string, any>[], opts: CsvOpts = {}): string {
+    data = Array.isArray(data) ? data : [data];
+
+    const { header = true, lineEnding = "\r\n" } = opts;
+    const columns = opts.columns ?? (opts.schema ? csvColumnsFromSchema(opts.schema) : csvColumnsOf(data));
+
+    const rows = data.map(record => toCSVRow(record, columns, opts));
+    if (header) rows.unshift(toCSVHeader(columns, opts));
+
+    return rows.map(row => `${row}${lineEnding}`).join("");
+}
+
+/**
+ * Converts an async iterable of records into a readable CSV stream.
+ *
+ * Records are serialized one at a time. As later records can't change the
+ * header, columns come from `opts.columns`, else from `opts.schema`, else
+ * from the first record; keys missing from them are not written.
+ *
+ * @param records - Async iterable of objects, e.g. from `requestStream`
+ * @param opts - Columns, delimiter, quoting and null settings
+ * @returns A readable stream of CSV text
+ *
+ * @example
+ * const body = toCSVStream(client.streamEvents(), { schema: zEvent });
+ * body.pipe(fs.createWriteStream("events.csv"));
+ */
+export function toCSVStream(records: AsyncIterable<Record<string, any>> | Iterable<Record<string, any>>, opts: CsvOpts = {}): Readable {
+    const { header = true, lineEnding = "\r\n" } = opts;
+
+    return Readable.from((async function* () {
+        let columns = opts.columns ?? (opts.schema ? csvColumnsFromSchema(opts.schema) : undefined);
+        let first = true;
+
+        for await (const record of records) {
+            columns ??= Object.keys(flattenRecord(record));
+
+            if (first && header) {
+                yield `${toCSVHeader(columns, opts)}${lineEnding}`;
+            }
+            first = false;
+
+            yield `${toCSVRow(record, columns, opts)}${lineEnding}`;
+        }
+
+        if (first && header && columns) {
+            yield `${toCSVHeader(columns, opts)}${lineEnding}`;
+        }
+    })());
+}
@@ -1,13 +1,33 @@
+import { createWriteStream } from 'fs';
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { CloudUploadClientCollection, CloudUploadOpts } from '../cloud';
-import { NodeEnv } from '../config/types';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+    CloudUploadClientCollection,
+    CloudUploadOpts,
+    compressBody,
+    CompressionSuffixes,
+    LocalFileUploadClient,
+    ProcessRunId,
+    type UploadReport
+} from '../cloud';
+import { NodeEnv, type UploadCompression } from '../config/types';
 import { LoggerFactory } from '../logging';
-import { formatDate, isValidData } from './util';
+import { isValidData } from './util';
+import { ConfigurationError } from '../errors';
+import {
+    checksumBody,
+    inspectRecords,
+    manifestSourceFor,
+    type ExportManifest,
+    type ManifestOpts,
+    type ManifestSource
+} from './manifest.utils';
+import { isStreamedData, serializeData, SerializerRegistry, type ExportFormatOpts, type SerializedData } from './serializers';
 
-// import parquet from "parquetjs-lite";
-import { z } from "zod";
-import { Util } from '..';
+// kept here for existing imports; the implementation lives in ndjson.utils
+export { toNDJSON, toNDJSONStream } from './ndjson.utils';
 
 
 export interface FileMeta {
@@ -17,177 +37,425 @@ export interface FileMeta {
 }
 
 /**
- * Exports data to a JSON file
+ * Outcome of writing one data source to a local file.
+ */
+export interface FileExportResult {
+    /** Path of the written file; for failed writes, the path that was attempted */
+    path: string;
+
+    /** Size of the file in bytes, after compression (bytes written so far for failed streamed writes) */
+    bytes: number;
+
+    /** Time spent serializing and writing */
+    durationMs: number;
+
+    /** Why the export failed; missing on success */
+    error?: Error;
+}
+
+/**
+ * Aggregate outcome of an {@link exportDataToFiles} run.
+ */
+export interface FileExportReport {
+    /** Write result per exported data source */
+    sources: Record<string, FileExportResult>;
+
+    /** Data sources skipped because they returned no data */
+    skipped: string[];
+
+    /** Number of files written */
+    succeeded: number;
+
+    /** Number of files that failed */
+    failed: number;
+
+    /** Bytes written across all files */
+    bytes: number;
+
+    /** Wall-clock time of the whole export */
+    durationMs: number;
+}
+
+/**
+ * Exports data to a file, serialized through the {@link SerializerRegistry}
+ *
+ * The file is named `{service}-{source}-{timeToday}` plus the extension of
+ * the format and the suffix of the compression (e.g. `.csv.gz`), and
+ * `rootDir` is created if missing. Streamed data is written as it is
+ * serialized and compressed; partial files of failed writes are removed.
+ *
+ * Failures (unknown format, unsupported compression, serialization or write
+ * errors) are reported in the result's `error` rather than thrown.
  *
  * @param rootDir - Directory to write file
  * @param data - Data to serialize
  * @param meta - File metadata
+ * @param format - Registered format name (default `json`)
+ * @param formatOpts - Record schemas and format settings
+ * @param compression - Compression of the file, as for uploads (default `none`)
+ * @returns Path, size and duration of the write
  */
-export const exportDataToFile = (rootDir: string, data: any, meta: FileMeta): void => {
+export const exportDataToFile = async (
+    rootDir: string,
+    data: any,
+    meta: FileMeta,
+    format: string = "json",
+    formatOpts: ExportFormatOpts = {},
+    compression: UploadCompression = "none"
+): Promise<FileExportResult> => {
     const { serviceName, dataSourceName, timeToday } = meta;
+    const startedAt = Date.now();
+    let filePath = path.join(rootDir, `${serviceName}-${dataSourceName}-${timeToday}`);
+    let bytes = 0;
 
-    const filename = `${serviceName}-${dataSourceName}-${timeToday}.json`;
-    const filePath = path.join(rootDir, filename);
-    const serializedData = JSON.stringify(data, null, 2);
+    try {
+        const serialized = await serializeData(data, format, {
+            dataSourceName,
+            schema: formatOpts.schemas?.[dataSourceName],
+            formatOpts
+        });
 
-    fs.writeFile(filePath, serializedData, "utf-8");
-}
+        filePath = `${filePath}.${serialized.serializer.extension}${CompressionSuffixes[compression]}`;
+        const body = await compressBody(serialized.body, compression) as SerializedData["body"];
+        await fs.mkdir(rootDir, { recursive: true });
+
+        if (body instanceof Readable) {
+            const output = createWriteStream(filePath);
+            try {
+                await pipeline(body, output);
+            } finally {
+                bytes = output.bytesWritten;
+            }
+        } else {
+            await fs.writeFile(filePath, body);
+            bytes = Buffer.byteLength(body);
+        }
 
+        return { path: filePath, bytes, durationMs: Date.now() - startedAt };
+    } catch (error: any) {
+        await fs.rm(filePath, { force: true });
+
+        return {
+            path: filePath,
+            bytes,
+            durationMs: Date.now() - startedAt,
+            error: error instanceof Error ? error : new Error(String(error))
+        };
+    }
+}
 
 /**
- * Exports multiple data sources to either local files or cloud storage.
+ * Exports multiple data sources to local files (see {@link exportDataToFile}).
  *
- * @param uploaders - Cloud uploader collection
+ * Every write is awaited, whether or not others fail, and the outcome is
+ * logged as a summary.
+ *
+ * @param rootDir - Directory to write files; created if missing
  * @param theData - Object mapping data source names to data
- * @param nodeEnv - Node environment ("production" writes to cloud)
- * @param uploadOpts - Options for cloud upload
+ * @param meta - File metadata shared by all data sources
+ * @param format - Registered format name (default `json`)
+ * @param formatOpts - Record schemas and format settings
+ * @param compression - Compression of the files (default `none`)
+ * @returns Per-source results and totals
+ *
+ * @example
+ * const report = await exportDataToFiles("out", { vms, hosts }, { serviceName: "inventory", timeToday });
+ * if (report.failed > 0) process.exitCode = 1;
  */
-export const exportData = async (
-    uploaders: CloudUploadClientCollection,
+export const exportDataToFiles = async (
+    rootDir: string,
     theData: Record<string, any>,
-    nodeEnv: NodeEnv,
-    uploadOpts: CloudUploadOpts
-) => {
+    meta: Omit<FileMeta, "dataSourceName">,
+    format: string = "json",
+    formatOpts: ExportFormatOpts = {},
+    compression: UploadCompression = "none"
+): Promise<FileExportReport> => {
     const logger = LoggerFactory.GetLogger();
-
-    const timeToday = formatDate(new Date());
-    const longestName = Math.max(...Object.keys(theData).map(n => n.length));
-    const isProduction = nodeEnv === "production";
+    const startedAt = Date.now();
+    const report: FileExportReport = { sources: {}, skipped: [], succeeded: 0, failed: 0, bytes: 0, durationMs: 0 };
 
     await Promise.all(
-        Object.entries(theData).map(([dataSourceName, data]) => {
-            if (!isValidData(data)) {
+        Object.entries(theData).map(async ([dataSourceName, data]) => {
+            if (!isStreamedData(data) && !isValidData(data)) {
                 logger.warn(`Data source '${dataSourceName}' returned no data`);
+                report.skipped.push(dataSourceName);
                 return;
             }
 
-            if (isProduction) {
-                const opts: CloudUploadOpts = { ...uploadOpts, dataSourceName };
-
-                const serializedData = opts.extension === "ndjson"
-                    ? Util.toNDJSON(data)
-                    : JSON.stringify(data, null, 2);
-                    
-                uploaders.upload(serializedData, opts);
-            } else {
-                const filename = `${uploadOpts.serviceName}-${dataSourceName}-${timeToday}.json`;
-                const filePath = path.join("data", filename);
-
-                logger.info(`Writing data source ${dataSourceName.padEnd(longestName + 1)} to '${filePath}'`);
-                
-                exportDataToFile("data", data, {
-                    dataSourceName: dataSourceName,
-                    serviceName: uploadOpts.serviceName,
-                    timeToday: timeToday
-                });
+            const result = await exportDataToFile(rootDir, data, { ...meta, dataSourceName }, format, formatOpts, compression);
+            report.sources[dataSourceName] = result;
+
+            if (result.error) {
+                logger.error(`Failed to write data source '${dataSourceName}' to ${result.path}: ${result.error.message}`);
             }
         })
     );
-};
 
-type ParquetFieldType = "UTF8" | "INT64" | "DOUBLE" | "BOOLEAN";
+    const results = Object.values(report.sources);
+    report.failed = results.filter(result => result.error).length;
+    report.succeeded = results.length - report.failed;
+    report.bytes = results.reduce((total, result) => total + result.bytes, 0);
+    report.durationMs = Date.now() - startedAt;
+
+    logger.info(
+        `Wrote ${report.succeeded}/${results.length} data sources to ${rootDir} ` +
+        `(${report.skipped.length} skipped, ${report.bytes} bytes, ${report.durationMs} ms)`
+    );
+
+    return report;
+}
 
 /**
- * Maps a Zod type to its corresponding Parquet field type.
- * Unwraps nullable/optional wrappers to get the inner type.
- * Falls back to UTF8 for complex types (arrays, objects, enums) which are JSON-stringified.
- *
- * @param zodType - The Zod type to map
- * @returns The corresponding Parquet field type
+ * Aggregate outcome of an {@link exportData} run.
  */
-function zodTypeToParquet(zodType: z.ZodTypeAny): ParquetFieldType {
-  const typeName = (zodType as any)._def?.typeName ?? zodType.def?.type;
-
-  switch (typeName) {
-    case "ZodString": case "string": return "UTF8";
-    
-    case "ZodNumber": case "number": return "DOUBLE";
-
-    case "ZodBoolean": case "boolean": return "BOOLEAN";
-
-    case "ZodNullable": case "nullable":
-      return zodTypeToParquet((zodType as any)._def?.innerType ?? (zodType as any).def?.innerType);
-    case "ZodOptional": case "optional":
-      return zodTypeToParquet((zodType as any)._def?.innerType ?? (zodType as any).def?.innerType);
-      
-    default:
-      return "UTF8";
-  }
+export interface ExportReport {
+    /** Upload report per exported data source */
+    sources: Record<string, UploadReport>;
+
+    /** Data sources skipped because they returned no data */
+    skipped: string[];
+
+    /** Data sources that could not be serialized, with the reason */
+    errors: Record<string, Error>;
+
+    /** Whether every data source was serialized and met the upload policy */
+    satisfied: boolean;
+
+    /** Totals across data sources and providers */
+    summary: ExportSummary;
+
+    /** Run manifest, if one was asked for */
+    manifest?: ExportManifest;
+
+    /** Upload report of the manifest itself */
+    manifestUpload?: UploadReport;
 }
 
 /**
- * Converts an array of objects to a Parquet-formatted Buffer using a Zod schema
- * to infer column types.
- *
- * - Primitive types (string, number, boolean) are mapped to their Parquet equivalents.
- * - Nullable/optional fields are marked as optional in the Parquet schema.
- * - Complex types (arrays, objects) are JSON-stringified to UTF8.
- * - Null/undefined values are written as null.
- *
- * @param data - Array of objects to convert. Must match the provided Zod schema shape.
- * @param schema - A Zod object schema used to infer Parquet column types.
- *                 Must be a plain `z.object()` — transformed schemas do not expose `.shape`
- *                 and should not be used here.
- * @returns A Buffer containing the Parquet-encoded data, ready for upload or writing to disk.
- *
- * @throws {Error} If the data array is empty.
+ * Totals of an {@link exportData} run.
+ */
+export interface ExportSummary {
+    /** Data sources uploaded, whether or not they met the upload policy */
+    exported: number;
+
+    /** Data sources skipped because they returned no data */
+    skipped: number;
+
+    /** Data sources that failed to serialize or missed the upload policy */
+    failed: number;
+
+    /** Uploads attempted, across providers */
+    uploads: number;
+
+    /** Uploads that failed, across providers */
+    failedUploads: number;
+
+    /** Bytes stored, across providers */
+    bytes: number;
+
+    /** Wall-clock time of the whole export */
+    durationMs: number;
+}
+
+/**
+ * Builds a collection writing below the local export directory with the
+ * key templates and compression of the configured uploaders.
  *
- * @example
- * const buffer = await convertToParquet(myArray, zApplicationSchemaBase);
- * await fs.writeFile("output.parquet", buffer);
+ * The directory is the root of a configured `local_fs` provider, if any,
+ * else the collection's {@link CloudUploadClientCollection.localRootDir}.
  */
-/*
-export async function convertToParquet<T extends z.ZodRawShape>(
-    data: Record<string, any>[],
-    schema: z.ZodObject<T>
-): Promise<Buffer> {
-    if (!data.length) throw new Error("Cannot convert empty array to parquet");
-
-    const shape = schema.shape;
-
-    const parquetSchema = new parquet.ParquetSchema(
-        Object.fromEntries(
-            Object.entries(shape).map(([key, zodType]) => {
-                const isNullable = zodType instanceof z.ZodNullable || zodType instanceof z.ZodOptional;
-                return [key, { type: zodTypeToParquet(zodType as z.ZodTypeAny), optional: isNullable }];
-            })
-        )
-    );
+const localTargetsLike = async (uploaders: CloudUploadClientCollection): Promise<CloudUploadClientCollection> => {
+    const configured = uploaders.clients.find(client => client instanceof LocalFileUploadClient) as LocalFileUploadClient | undefined;
+    const local = await LocalFileUploadClient.Create(configured?.rootDir ?? uploaders.localRootDir);
+    const [reference] = uploaders.clients;
 
-    const tmpFile = `/tmp/parquet-${Date.now()}.parquet`;
-    const writer = await parquet.ParquetWriter.openFile(parquetSchema, tmpFile);
-
-    for (const row of data) {
-        const serialized = Object.fromEntries(
-            Object.entries(row).map(([k, v]) => [
-                k,
-                typeof v === "object" && v !== null ? JSON.stringify(v) : v ?? null,
-            ])
-        );
-        await writer.appendRow(serialized);
+    if (reference) {
+        local.keyTemplate = reference.keyTemplate;
+        local.compression = reference.compression;
     }
 
-    await writer.close();
-    const buffer = await readFile(tmpFile);
-    await unlink(tmpFile);
-    return buffer;
+    return new CloudUploadClientCollection([local]);
 }
-*/
 
 /**
- * Converts an array of objects to Newline Delimited JSON (NDJSON) format.
+ * Exports multiple data sources through cloud upload clients.
  *
- * AWS Glue and Athena cannot query top-level JSON arrays — they expect
- * each record to be a separate JSON object on its own line with no array wrapper.
+ * In production the configured `uploaders` are used. Elsewhere the data is
+ * written below the collection's local export directory (`LOCAL_FS_ROOT_DIR`,
+ * default `data`) by a {@link LocalFileUploadClient},
+ * using the same object paths, compression, serialization and upload code
+ * path as production.
  *
- * @param data - Array of objects to convert
- * @returns A string where each line is a JSON-serialized object
+ * Data is serialized by the {@link SerializerRegistry} serializer of
+ * `uploadOpts.extension` (default `json`): built-in `json`, `ndjson`, `csv`,
+ * `raw` and `parquet`, or a format the collector registered. Parquet files
+ * take their columns from the Zod schema of each data source in
+ * `formatOpts.schemas`; CSV takes them from the schema, if any, or from the
+ * records (see {@link toCSV}).
+ *
+ * Data sources may be streamed - a readable stream, or an async iterable of
+ * records such as `requestStream` returns - in which case they are serialized
+ * incrementally and uploaded without materializing the full payload. Formats
+ * that can't stream (such as `json`) write streamed data as NDJSON.
+ *
+ * Every upload is awaited and judged against the collection's upload policy.
+ * A data source that fails to serialize is reported in `errors` without
+ * stopping the others. If any data source fails or misses the policy, the
+ * failure is logged and `satisfied` is `false` in the report; the caller
+ * decides what that means for the run, e.g. a non-zero exit code.
+ *
+ * With `manifestOpts`, a run manifest is uploaded through the same targets
+ * once the data sources are done, as JSON named `manifest-{runId}.json` in the
+ * key of the `_manifest` data source. It lists the run ID, service, site,
+ * start and end time and, per data source, the record count, payload size and
+ * SHA-256 (before compression), object keys, schema version and validation
+ * warnings - records failing their schema in `formatOpts.schemas`, plus those
+ * the collector passes in. A manifest that misses the upload policy leaves
+ * the report unsatisfied like a data source would.
+ *
+ * @param uploaders - Cloud uploader collection
+ * @param theData - Object mapping data source names to data
+ * @param nodeEnv - Node environment ("production" writes to cloud)
+ * @param uploadOpts - Options for cloud upload
+ * @param formatOpts - Record schemas and format settings
+ * @param manifestOpts - Schema versions and warnings of the run manifest; no manifest is written without them
+ * @returns Per-source upload reports, totals and the manifest
  *
  * @example
- * const body = toNDJSON([{ id: 1 }, { id: 2 }]);
- * // '{"id":1}\n{"id":2}'
+ * const report = await exportData(uploaders, data, config.NODE_ENV, uploadOpts);
+ * if (!report.satisfied) process.exitCode = 1;
+ *
+ * @throws ConfigurationError If the format is not registered, or needs a schema a non-empty data source lacks
  */
-export function toNDJSON(data: Record<string, any>[]): string {
-    data = Array.isArray(data) ? data : [data];
-    return data.map((record) => JSON.stringify(record)).join("\n");
-}
\ No newline at end of file
+export const exportData = async (
+    uploaders: CloudUploadClientCollection,
+    theData: Record<string, any>,
+    nodeEnv: NodeEnv,
+    uploadOpts: CloudUploadOpts,
+    formatOpts: ExportFormatOpts = {},
+    manifestOpts?: ManifestOpts
+): Promise<ExportReport> => {
+    const logger = LoggerFactory.GetLogger();
+    const startedAt = Date.now();
+    const runId = uploadOpts.runId ?? ProcessRunId;
+    const format = uploadOpts.extension ?? "json";
+    const { requiresSchema } = SerializerRegistry.Get(format);
+
+    // empty data sources are only recorded as skipped, so they need no schema
+    const missingSchemas = Object.entries(theData)
+        .filter(([name, data]) => (isStreamedData(data) || isValidData(data)) && !formatOpts.schemas?.[name])
+        .map(([name]) => name);
+    if (requiresSchema && missingSchemas.length > 0) {
+        throw new ConfigurationError(`${format} exports need a Zod schema per data source; missing: ${missingSchemas.join(", ")}`);
+    }
+
+    const targets = nodeEnv === "production"
+        ? uploaders
+        : await localTargetsLike(uploaders);
+
+    const sources: Record<string, UploadReport> = {};
+    const skipped: string[] = [];
+    const errors: Record<string, Error> = {};
+    const manifestSources: Record<string, ManifestSource> = {};
+
+    await Promise.all(
+        Object.entries(theData).map(async ([dataSourceName, data]) => {
+            const schema = formatOpts.schemas?.[dataSourceName];
+            const extra = {
+                schemaVersion: manifestOpts?.schemaVersions?.[dataSourceName] ?? manifestOpts?.schemaVersion,
+                warnings: manifestOpts?.warnings?.[dataSourceName] ?? []
+            };
+
+            if (!isStreamedData(data) && !isValidData(data)) {
+                logger.warn(`Data source '${dataSourceName}' returned no data`);
+                skipped.push(dataSourceName);
+                manifestSources[dataSourceName] = { status: "skipped", records: 0, uploads: [], ...extra };
+                return;
+            }
+
+            // records are only counted and validated for the manifest
+            const inspected = manifestOpts && inspectRecords(data, schema, manifestOpts.maxValidationWarnings);
+
+            let serialized: SerializedData;
+            try {
+                serialized = await serializeData(inspected ? inspected.data : data, format, { dataSourceName, schema, formatOpts });
+            } catch (error: any) {
+                logger.error(`Failed to serialize data source '${dataSourceName}' as ${format}: ${error?.message ?? error}`);
+                errors[dataSourceName] = error instanceof Error ? error : new Error(String(error));
+                manifestSources[dataSourceName] = { status: "failed", uploads: [], ...extra, error: errors[dataSourceName].message };
+                return;
+            }
+
+            // streams of formats that can't stream are uploaded as NDJSON
+            const opts: CloudUploadOpts = { ...uploadOpts, dataSourceName, extension: serialized.serializer.format };
+
+            if (!inspected) {
+                sources[dataSourceName] = await targets.upload(serialized.body, opts);
+                return;
+            }
+
+            const { body, checksum } = checksumBody(serialized.body);
+            sources[dataSourceName] = await targets.upload(body, opts);
+            manifestSources[dataSourceName] = manifestSourceFor(sources[dataSourceName], inspected.stats, checksum, extra);
+        })
+    );
+
+    const reports = Object.entries(sources);
+    const missedPolicy = reports.filter(([, sourceReport]) => !sourceReport.satisfied).map(([name]) => name);
+    const failedSources = [...Object.keys(errors), ...missedPolicy];
+    const uploads = reports.flatMap(([, sourceReport]) => sourceReport.results);
+    const failedUploads = uploads.filter(result => result.error).length;
+
+    const summary: ExportSummary = {
+        exported: reports.length,
+        skipped: skipped.length,
+        failed: failedSources.length,
+        uploads: uploads.length,
+        failedUploads,
+        bytes: uploads.reduce((total, result) => total + result.bytes, 0),
+        durationMs: Date.now() - startedAt
+    };
+
+    logger.info(
+        `Exported ${reports.length} data sources (${skipped.length} skipped): ` +
+        `${uploads.length - failedUploads}/${uploads.length} uploads succeeded, ` +
+        `${summary.bytes} bytes in ${summary.durationMs} ms`
+    );
+
+    if (missedPolicy.length > 0) {
+        logger.error(`Upload policy not met for data sources: ${missedPolicy.join(", ")}`);
+    }
+
+    const report: ExportReport = { sources, skipped, errors, satisfied: failedSources.length === 0, summary };
+
+    if (manifestOpts) {
+        report.manifest = {
+            manifestVersion: 1,
+            runId,
+            serviceName: uploadOpts.serviceName,
+            serviceLocation: uploadOpts.serviceLocation,
+            siteName: uploadOpts.siteName,
+            format,
+            startedAt: new Date(startedAt).toISOString(),
+            finishedAt: new Date().toISOString(),
+            satisfied: report.satisfied,
+            sources: manifestSources
+        };
+
+        report.manifestUpload = await targets.upload(JSON.stringify(report.manifest, null, 2), {
+            ...uploadOpts,
+            filePath: undefined,
+            dataSourceName: manifestOpts.dataSourceName ?? "_manifest",
+            extension: "json",
+            filename: `manifest-${runId}.json`,
+            runId
+        });
+
+        if (!report.manifestUpload.satisfied) {
+            logger.error(`Upload policy not met for the manifest of run ${runId}`);
+            report.satisfied = false;
+        }
+    }
+
+    return report;
+};
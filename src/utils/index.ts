@@ -1,4 +1,8 @@
 export * from "./data.utils";
+export * from "./parquet.utils";
+export * from "./csv.utils";
+export * from "./serializers";
+export * from "./manifest.utils";
 export * from './axios.utils';
 export * from './zod.utils';
 export * from './util';
\ No newline at end of file
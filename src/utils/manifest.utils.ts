@@ -0,0 +1,264 @@
+import { createHash } from "crypto";
+import { pipeline, Readable, Transform } from "stream";
+import { z } from "zod";
+
+import type { UploadReport } from "../cloud";
+import type { ServiceLocation } from "../config/types";
+import type { StreamedData } from "./serializers";
+
+/**
+ * Options of the run manifest written by `exportData`.
+ */
+export interface ManifestOpts {
+    /** Schema version of every data source, e.g. the collector release */
+    schemaVersion?: string;
+
+    /** Schema versions per data source, overriding `schemaVersion` */
+    schemaVersions?: Record<string, string>;
+
+    /** Validation warnings gathered by the collector, per data source */
+    warnings?: Record<string, string[]>;
+
+    /** Records failing their Zod schema reported per data source (default 20); the rest are counted */
+    maxValidationWarnings?: number;
+
+    /** Data source name the manifest is uploaded as (default `_manifest`) */
+    dataSourceName?: string;
+}
+
+/**
+ * One upload of a data source, as recorded in the manifest.
+ */
+export interface ManifestUpload {
+    /** Name of the upload provider */
+    provider: string;
+
+    /** Object key relative to the provider's root */
+    key?: string;
+
+    /** Stored size in bytes, after compression */
+    bytes: number;
+
+    /** Entity tag of the stored object */
+    etag?: string;
+
+    /** Object version, where the backend reports one */
+    versionId?: string;
+
+    /** Why the upload failed; missing on success */
+    error?: string;
+}
+
+/**
+ * What the manifest records about one data source.
+ */
+export interface ManifestSource {
+    /** `exported` once uploaded (see `uploads` for per-provider outcomes), `skipped` without data, `failed` if it couldn't be serialized */
+    status: "exported" | "skipped" | "failed";
+
+    /** Number of records; missing for byte streams, which aren't made of records */
+    records?: number;
+
+    /** Size of the serialized payload in bytes, before compression */
+    bytes?: number;
+
+    /** SHA-256 of the serialized payload, before compression; missing if it wasn't read to the end */
+    sha256?: string;
+
+    /** Schema version of the records */
+    schemaVersion?: string;
+
+    /** Uploads per provider */
+    uploads: ManifestUpload[];
+
+    /** Validation warnings about the records */
+    warnings: string[];
+
+    /** Why the data source failed */
+    error?: string;
+}
+
+/**
+ * Machine-readable record of an export run, for downstream jobs to detect
+ * missing or partial runs.
+ */
+export interface ExportManifest {
+    /** Version of the manifest layout */
+    manifestVersion: 1;
+
+    /** ID of the collector run */
+    runId: string;
+
+    serviceName: string;
+    serviceLocation: ServiceLocation;
+    siteName?: string;
+
+    /** Registered format the data sources were exported in */
+    format: string;
+
+    /** Start of the export, as an ISO timestamp */
+    startedAt: string;
+
+    /** End of the export, before the manifest was uploaded, as an ISO timestamp */
+    finishedAt: string;
+
+    /** Whether every data source was serialized and met the upload policy */
+    satisfied: boolean;
+
+    /** What was exported, per data source */
+    sources: Record<string, ManifestSource>;
+}
+
+/**
+ * Record count and validation warnings of a data source, filled in as its
+ * records are read.
+ */
+export interface RecordStats {
+    /** Records read so far; missing for byte streams */
+    records?: number;
+
+    /** Records failing the schema, one warning each */
+    warnings: string[];
+}
+
+/**
+ * Size and checksum of a serialized payload, filled in as it is read.
+ */
+export interface PayloadChecksum {
+    /** Bytes read so far */
+    bytes: number;
+
+    /** SHA-256 as hex, once the payload was read to the end */
+    sha256?: string;
+}
+
+/**
+ * Records a record's schema violations, keeping at most `max` warnings.
+ */
+const checkRecord = (record: unknown, index: number, schema: z.ZodObject | undefined, stats: RecordStats, max: number) => {
+    stats.records = index + 1;
+
+    if (!schema) {
+        return;
+    }
+
+    const result = schema.safeParse(record);
+    if (result.success) {
+        return;
+    }
+
+    const issues = result.error.issues.map(issue => `${issue.path.join(".") || "(record)"}: ${issue.message}`).join("; ");
+
+    if (stats.warnings.length < max) {
+        stats.warnings.push(`record ${index}: ${issues}`);
+    } else if (stats.warnings.length === max) {
+        stats.warnings.push("further records failing the schema were not reported");
+    }
+}
+
+/**
+ * Counts the records of a data source and checks them against its schema.
+ *
+ * In-memory data is inspected at once. Streamed records are inspected as the
+ * returned iterable is consumed, so `stats` is complete once the data source
+ * was serialized; byte streams are returned unchanged and not counted.
+ *
+ * @param data - Data source value, in memory or streamed
+ * @param schema - Zod schema of the records, if any
+ * @param maxWarnings - Records failing the schema to report (default 20)
+ * @returns The data to serialize in place of `data`, and its statistics
+ */
+export const inspectRecords = <T>(
+    data: T,
+    schema?: z.ZodObject,
+    maxWarnings = 20
+): { data: T, stats: RecordStats } => {
+    const stats: RecordStats = { warnings: [] };
+    const streamed = data instanceof Readable || typeof (data as any)?.[Symbol.asyncIterator] === "function";
+
+    if (!streamed) {
+        const records = Array.isArray(data) ? data : [data];
+        stats.records = 0;
+        records.forEach((record, index) => checkRecord(record, index, schema, stats, maxWarnings));
+        return { data, stats };
+    }
+
+    if (data instanceof Readable && !data.readableObjectMode) {
+        return { data, stats };
+    }
+
+    stats.records = 0;
+    const records = data as unknown as StreamedData;
+    const inspected = (async function* () {
+        let index = 0;
+        for await (const record of records) {
+            checkRecord(record, index++, schema, stats, maxWarnings);
+            yield record;
+        }
+    })();
+
+    return { data: inspected as unknown as T, stats };
+}
+
+/**
+ * Computes the size and SHA-256 of a serialized payload.
+ *
+ * In-memory payloads are hashed at once; streams are hashed as the returned
+ * stream is read, and source errors surface on it.
+ *
+ * @param body - Serialized payload
+ * @returns The payload to upload in place of `body`, and its checksum
+ */
+export const checksumBody = <T extends string | Buffer | Readable>(body: T): { body: T, checksum: PayloadChecksum } => {
+    const hash = createHash("sha256");
+
+    if (!(body instanceof Readable)) {
+        const checksum = { bytes: Buffer.byteLength(body), sha256: hash.update(body).digest("hex") };
+        return { body, checksum };
+    }
+
+    const checksum: PayloadChecksum = { bytes: 0 };
+    const hasher = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+            hash.update(chunk);
+            checksum.bytes += chunk.length;
+            callback(null, chunk);
+        },
+        flush(callback) {
+            checksum.sha256 = hash.digest("hex");
+            callback();
+        }
+    });
+
+    return { body: pipeline(body, hasher, () => undefined) as unknown as T, checksum };
+}
+
+/**
+ * Returns the manifest entry of an uploaded data source.
+ *
+ * @param report - Upload report of the data source
+ * @param stats - Record count and validation warnings
+ * @param checksum - Size and checksum of the serialized payload
+ * @param extra - Schema version and warnings supplied by the collector
+ */
+export const manifestSourceFor = (
+    report: UploadReport,
+    stats: RecordStats,
+    checksum: PayloadChecksum,
+    extra: { schemaVersion?: string, warnings?: string[] } = {}
+): ManifestSource => ({
+    status: "exported",
+    records: stats.records,
+    bytes: checksum.bytes,
+    sha256: checksum.sha256,
+    schemaVersion: extra.schemaVersion,
+    uploads: report.results.map(result => ({
+        provider: result.provider,
+        key: result.key,
+        bytes: result.bytes,
+        etag: result.etag,
+        versionId: result.versionId,
+        error: result.error?.message
+    })),
+    warnings: [...(extra.warnings ?? []), ...stats.warnings]
+});
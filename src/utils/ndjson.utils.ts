@@ -0,0 +1,42 @@
+import { Readable } from 'stream';
+
+/**
+ * Converts an array of objects to Newline Delimited JSON (NDJSON) format.
+ *
+ * AWS Glue and Athena cannot query top-level JSON arrays — they expect
+ * each record to be a separate JSON object on its own line with no array wrapper.
+ *
+ * @param data - Array of objects to convert
+ * @returns A string where each line is a JSON-serialized object
+ *
+ * @example
+ * const body = toNDJSON([{ id: 1 }, { id: 2 }]);
+ * // '{"id":1}\n{"id":2}'
+ */
+export function toNDJSON(data: Record<string, any>[]): string {
+    data = Array.isArray(data) ? data : [data];
+    return data.map((record) => JSON.stringify(record)).join("\n");
+}
+
+/**
+ * Converts an async iterable of objects into a readable NDJSON stream.
+ *
+ * Records are serialized one at a time as they are consumed, so large
+ * streamed API responses never need to be held in memory.
+ *
+ * @param records - Async iterable of objects, e.g. from `requestStream`
+ * @returns A readable stream of newline-delimited JSON
+ *
+ * @example
+ * const body = toNDJSONStream(client.streamEvents());
+ * body.pipe(fs.createWriteStream("events.ndjson"));
+ */
+export function toNDJSONStream(records: AsyncIterable<Record<string, any>> | Iterable<Record<string, any>>): Readable {
+    return Readable.from((async function* () {
+        let first = true;
+        for await (const record of records) {
+            yield `${first ? "" : "\n"}${JSON.stringify(record)}`;
+            first = false;
+        }
+    })());
+}
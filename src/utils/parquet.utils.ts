@@ -0,0 +1,281 @@
+import {
+    ParquetSchema,
+    ParquetWriter,
+    type FieldDefinition,
+    type ParquetCompression,
+    type SchemaDefinition
+} from "@dsnp/parquetjs";
+import { PassThrough, Readable } from "stream";
+import { buffer } from "stream/consumers";
+import { z } from "zod";
+
+import { type ParquetCodec } from "../config/types";
+
+/**
+ * Options for writing Parquet files.
+ */
+export interface ParquetWriteOpts {
+    /** Compression codec of every column (default `snappy`) */
+    codec?: ParquetCodec;
+
+    /** Rows buffered per row group (default 4096) */
+    rowGroupSize?: number;
+}
+
+/**
+ * A Parquet column or group together with the conversion of its values.
+ */
+interface ParquetFieldMapping {
+    /** Parquet field definition */
+    definition: FieldDefinition;
+
+    /** Converts a record value into what the Parquet writer expects */
+    convert: (value: any) => unknown;
+}
+
+/** Parquet compression method of each codec */
+const ParquetCompressions: Record<ParquetCodec, ParquetCompression> = {
+    uncompressed: "UNCOMPRESSED",
+    snappy: "SNAPPY",
+    gzip: "GZIP",
+    brotli: "BROTLI"
+};
+
+/** Zod wrappers that don't change the stored value, only whether it may be missing */
+const OptionalWrappers = ["optional", "nullable", "default", "prefault", "catch", "readonly"];
+
+/** Leaves a value unchanged */
+const identity = (value: unknown) => value;
+
+/** Converts a `Date`, ISO string or epoch milliseconds into a `Date` */
+const toDate = (value: unknown) => value instanceof Date ? value : new Date(value as string | number);
+
+/**
+ * Maps a Zod type to a Parquet field.
+ *
+ * - strings → `UTF8`; ISO datetimes → `TIMESTAMP_MILLIS`; ISO dates → `DATE`
+ * - integers (`.int()`) and bigints → `INT64`, other numbers → `DOUBLE`
+ * - booleans → `BOOLEAN`, dates → `TIMESTAMP_MILLIS`
+ * - enums → `ENUM`, which the writer annotates as `UTF8` so Athena/Glue read plain strings
+ * - objects → nested groups
+ * - arrays → repeated fields; arrays of arrays or of optional elements → JSON strings
+ * - everything else (records, unions, tuples, ...) → JSON strings
+ *
+ * Optional, nullable and defaulted types become optional columns.
+ */
+const fieldFor = (zodType: z.ZodType, compression: ParquetCompression, optional = false): ParquetFieldMapping => {
+    const def = (zodType as any).def;
+
+    const leaf = (type: FieldDefinition["type"], convert: (value: any) => unknown = identity): ParquetFieldMapping => ({
+        definition: { type, compression, ...(optional ? { optional } : {}) },
+        convert
+    });
+
+    // stored as UTF8 text; the JSON annotation would make the writer treat arrays as repeated values
+    const json = () => leaf("UTF8", (value) => JSON.stringify(value));
+
+    if (OptionalWrappers.includes(def.type)) {
+        return fieldFor(def.innerType, compression, true);
+    }
+
+    if (def.type === "nonoptional") {
+        return fieldFor(def.innerType, compression, false);
+    }
+
+    if (def.type === "lazy") {
+        return fieldFor(def.getter(), compression, optional);
+    }
+
+    // piped schemas store what comes out of the pipe, unless that is an opaque transform
+    if (def.type === "pipe") {
+        return def.out.def.type === "transform" ? json() : fieldFor(def.out, compression, optional);
+    }
+
+    switch (def.type) {
+        case "string": {
+            const format = (zodType as any).format;
+            if (format === "datetime") return leaf("TIMESTAMP_MILLIS", toDate);
+            if (format === "date") return leaf("DATE", toDate);
+            return leaf("UTF8");
+        }
+
+        case "number": return (zodType as any).isInt ? leaf("INT64") : leaf("DOUBLE");
+        case "bigint": return leaf("INT64");
+        case "boolean": return leaf("BOOLEAN");
+        case "date": return leaf("TIMESTAMP_MILLIS", toDate);
+        case "enum": return leaf("ENUM", String);
+
+        case "literal": {
+            const values: unknown[] = def.values;
+            if (values.every(value => typeof value === "string")) return leaf("UTF8");
+            if (values.every(value => typeof value === "boolean")) return leaf("BOOLEAN");
+            if (values.every(value => Number.isInteger(value))) return leaf("INT64");
+            return json();
+        }
+
+        case "object": {
+            const mappings = Object.entries((zodType as z.ZodObject).shape)
+                .map(([name, type]) => [name, fieldFor(type as z.ZodType, compression)] as const);
+
+            return {
+                definition: {
+                    fields: Object.fromEntries(mappings.map(([name, mapping]) => [name, mapping.definition])),
+                    ...(optional ? { optional } : {})
+                },
+                convert: (value) => convertRecord(value, mappings)
+            };
+        }
+
+        case "array": {
+            const element = fieldFor(def.element, compression);
+
+            // repeated fields hold neither nested lists nor missing elements
+            if (element.definition.repeated || element.definition.optional) {
+                return json();
+            }
+
+            return {
+                definition: { ...element.definition, repeated: true },
+                convert: (value: unknown[]) => value.map(element.convert)
+            };
+        }
+
+        default: return json();
+    }
+}
+
+/**
+ * Converts a record field by field; missing values (`null` or `undefined`) are left out.
+ */
+const convertRecord = (record: Record<string, unknown>, mappings: (readonly [string, ParquetFieldMapping])[]) => {
+    const row: Record<string, unknown> = {};
+
+    for (const [name, mapping] of mappings) {
+        const value = record[name];
+        if (value !== null && value !== undefined) {
+            row[name] = mapping.convert(value);
+        }
+    }
+
+    return row;
+}
+
+/**
+ * Derives a Parquet schema from a Zod object schema.
+ *
+ * See {@link fieldFor} for the type mapping. Every column is compressed
+ * with the given codec.
+ *
+ * @param schema - Zod object schema of the records
+ * @param codec - Compression codec (default `snappy`)
+ * @returns Parquet schema, and a function converting records into Parquet rows
+ *
+ * @example
+ * ```ts
+ * const { schema } = zodToParquetSchema(z.object({
+ *     id: z.number().int(),
+ *     tags: z.array(z.string()),
+ *     seen: z.date().nullable()
+ * }));
+ * // id: INT64, tags: repeated UTF8, seen: optional TIMESTAMP_MILLIS
+ * ```
+ */
+export const zodToParquetSchema = (
+    schema: z.ZodObject,
+    codec: ParquetCodec = "snappy"
+): { schema: ParquetSchema, toRow: (record: Record<string, unknown>) => Record<string, unknown> } => {
+    const mappings = Object.entries(schema.shape)
+        .map(([name, type]) => [name, fieldFor(type as z.ZodType, ParquetCompressions[codec])] as const);
+
+    const definition: SchemaDefinition = Object.fromEntries(mappings.map(([name, mapping]) => [name, mapping.definition]));
+
+    return {
+        schema: new ParquetSchema(definition),
+        toRow: (record) => convertRecord(record, mappings)
+    };
+}
+
+/**
+ * Writes records as a Parquet file to a stream.
+ */
+const writeParquet = async (
+    records: Iterable<Record<string, any>> | AsyncIterable<Record<string, any>>,
+    schema: z.ZodObject,
+    output: PassThrough,
+    opts: ParquetWriteOpts
+) => {
+    const { schema: parquetSchema, toRow } = zodToParquetSchema(schema, opts.codec);
+    // the writer only needs write() and end()
+    const sink = output as unknown as Parameters<typeof ParquetWriter.openStream>[1];
+    const writer = await ParquetWriter.openStream(parquetSchema, sink, { rowGroupSize: opts.rowGroupSize });
+
+    for await (const record of records) {
+        await writer.appendRow(toRow(record));
+    }
+
+    await writer.close();
+}
+
+/**
+ * Converts records to a Parquet file, using a Zod schema for the column types.
+ *
+ * - Nested objects become groups, arrays become repeated fields.
+ * - Integers and doubles, enums and dates keep their Parquet types.
+ * - Nullable/optional fields are optional columns; types Parquet can't
+ *   represent directly are stored as JSON.
+ *
+ * @param data - Records matching the schema
+ * @param schema - Zod object schema of the records
+ * @param opts - Compression codec and row group size
+ * @returns A Buffer containing the Parquet file, ready for upload or writing to disk
+ *
+ * @throws If a record lacks a required field
+ *
+ * @example
+ * const buffer = await convertToParquet(myArray, zApplicationSchemaBase, { codec: "gzip" });
+ * await fs.writeFile("output.parquet", buffer);
+ */
+export async function convertToParquet(
+    data: Iterable<Record<string, any>> | AsyncIterable<Record<string, any>>,
+    schema: z.ZodObject,
+    opts: ParquetWriteOpts = {}
+): Promise<Buffer> {
+    const output = new PassThrough();
+
+    // read the output while it's written; a failed write destroys it so the read settles too
+    const [contents] = await Promise.all([
+        buffer(output),
+        writeParquet(data, schema, output, opts).catch((error) => {
+            output.destroy(error);
+            throw error;
+        })
+    ]);
+
+    return contents;
+}
+
+/**
+ * Converts an async iterable of records into a readable Parquet stream.
+ *
+ * Records are buffered one row group at a time, so large streamed API
+ * responses never need to be held in memory.
+ *
+ * @param records - Records matching the schema, e.g. from `requestStream`
+ * @param schema - Zod object schema of the records
+ * @param opts - Compression codec and row group size
+ * @returns A readable stream of the Parquet file; conversion errors destroy it
+ *
+ * @example
+ * const body = toParquetStream(client.streamEvents(), zEvent);
+ * body.pipe(fs.createWriteStream("events.parquet"));
+ */
+export function toParquetStream(
+    records: Iterable<Record<string, any>> | AsyncIterable<Record<string, any>>,
+    schema: z.ZodObject,
+    opts: ParquetWriteOpts = {}
+): Readable {
+    const output = new PassThrough();
+
+    writeParquet(records, schema, output, opts).catch((error) => output.destroy(error));
+    return output;
+}
@@ -0,0 +1,287 @@
+import { Readable } from "stream";
+import { z } from "zod";
+
+import { ConfigurationError } from "../errors";
+import { toCSV, toCSVStream, type CsvOpts } from "./csv.utils";
+import { toNDJSON, toNDJSONStream } from "./ndjson.utils";
+import { convertToParquet, toParquetStream, type ParquetWriteOpts } from "./parquet.utils";
+
+/**
+ * Format-specific options of an export.
+ */
+export interface ExportFormatOpts {
+    /** Zod schemas of the records, per data source; required for Parquet exports, CSV headers otherwise come from the records */
+    schemas?: Record<string, z.ZodObject>;
+
+    /** Parquet compression codec and row group size */
+    parquet?: ParquetWriteOpts;
+
+    /** CSV delimiter, quoting, null representation and columns */
+    csv?: CsvOpts;
+}
+
+/**
+ * What a serializer knows about the data it writes.
+ */
+export interface SerializeContext {
+    /** Name of the data source being written */
+    dataSourceName: string;
+
+    /** Zod schema of the data source's records, if one was given */
+    schema?: z.ZodObject;
+
+    /** Format-specific options of the export */
+    formatOpts: ExportFormatOpts;
+}
+
+/**
+ * Streamed data: a readable stream, or an async iterable of records.
+ */
+export type StreamedData = Readable | AsyncIterable<Record<string, any>>;
+
+/**
+ * Writes export data in one file format.
+ *
+ * @example
+ * ```ts
+ * SerializerRegistry.Register({
+ *     format: "prometheus",
+ *     contentType: "text/plain; version=0.0.4",
+ *     extension: "prom",
+ *     serialize: (metrics: Metric[]) => metrics.map(m => `${m.name} ${m.value}`).join("\n")
+ * });
+ *
+ * await exportData(uploaders, { metrics }, env, { ...opts, extension: "prometheus" });
+ * ```
+ */
+export interface Serializer {
+    /** Name the format is selected by, e.g. as the `extension` upload option */
+    format: string;
+
+    /** MIME type stored with uploads of the format */
+    contentType: string;
+
+    /** File suffix, without the dot, written as `{ext}` in object keys and local file names */
+    extension: string;
+
+    /** Whether every data source needs a Zod schema (see {@link ExportFormatOpts.schemas}) */
+    requiresSchema?: boolean;
+
+    /**
+     * Serializes in-memory data.
+     *
+     * @param data - Data of one data source (an array of records, or a single value)
+     * @param context - Data source, schema and format options
+     * @returns The payload
+     */
+    serialize(data: any, context: SerializeContext): string | Buffer | Promise<string | Buffer>;
+
+    /**
+     * Serializes streamed data incrementally. Formats without it write streamed
+     * data as NDJSON.
+     *
+     * @param data - Streamed data of one data source
+     * @param context - Data source, schema and format options
+     * @returns A readable stream of the payload; serialization errors destroy it
+     */
+    stream?(data: StreamedData, context: SerializeContext): Readable;
+}
+
+/**
+ * Returns the CSV options of a data source, with columns from its schema unless configured.
+ */
+const csvOptsFor = (context: SerializeContext): CsvOpts => ({
+    ...context.formatOpts.csv,
+    schema: context.formatOpts.csv?.schema ?? context.schema
+});
+
+/**
+ * Returns the schema of a data source, which formats with `requiresSchema` rely on.
+ */
+const requireSchema = (format: string, context: SerializeContext): z.ZodObject => {
+    if (!context.schema) {
+        throw new ConfigurationError(`${format} exports need a Zod schema for data source '${context.dataSourceName}'`);
+    }
+
+    return context.schema;
+}
+
+/**
+ * Returns streamed data as records, for formats that can't take a byte stream.
+ */
+const requireRecords = (format: string, data: StreamedData, context: SerializeContext): StreamedData => {
+    if (data instanceof Readable && !data.readableObjectMode) {
+        throw new ConfigurationError(
+            `${format} exports need records, not a byte stream, for data source '${context.dataSourceName}'`
+        );
+    }
+
+    return data;
+}
+
+/**
+ * Serializers available out of the box.
+ */
+const BuiltInSerializers: Serializer[] = [
+    {
+        format: "json",
+        contentType: "application/json",
+        extension: "json",
+        serialize: (data) => JSON.stringify(data, null, 2)
+    },
+    {
+        format: "ndjson",
+        contentType: "application/x-ndjson",
+        // stupid but AWS Glue doesn't like the ndjson extension even though the data is arranged in ndjson format
+        extension: "json",
+        serialize: (data) => toNDJSON(data),
+        // byte streams are taken to be NDJSON already
+        stream: (data) => data instanceof Readable && !data.readableObjectMode ? data : toNDJSONStream(data)
+    },
+    {
+        format: "csv",
+        contentType: "text/csv",
+        extension: "csv",
+        serialize: (data, context) => toCSV(Array.isArray(data) ? data : [data], csvOptsFor(context)),
+        stream: (data, context) => toCSVStream(requireRecords("csv", data, context), csvOptsFor(context))
+    },
+    {
+        format: "raw",
+        contentType: "application/octet-stream",
+        extension: "raw",
+        serialize: (data) => typeof data === "string" || Buffer.isBuffer(data)
+            ? data
+            : data instanceof Uint8Array ? Buffer.from(data) : JSON.stringify(data, null, 2)
+    },
+    {
+        format: "parquet",
+        contentType: "application/vnd.apache.parquet",
+        extension: "parquet",
+        requiresSchema: true,
+        serialize: (data, context) => convertToParquet(
+            Array.isArray(data) ? data : [data],
+            requireSchema("parquet", context),
+            context.formatOpts.parquet
+        ),
+        stream: (data, context) => toParquetStream(
+            requireRecords("parquet", data, context),
+            requireSchema("parquet", context),
+            context.formatOpts.parquet
+        )
+    }
+];
+
+/**
+ * Registry of the file formats data can be exported in, keyed by format name.
+ *
+ * `json`, `ndjson`, `csv`, `raw` and `parquet` are registered out of the box;
+ * collectors register their own formats (Prometheus text, XML, ...) once at
+ * startup, and select them like any other through the `extension` upload
+ * option. Both cloud uploads and local exports serialize through the registry.
+ */
+export class SerializerRegistry {
+    /** Registered serializers by format */
+    static #serializers = new Map<string, Serializer>(BuiltInSerializers.map(serializer => [serializer.format, serializer]));
+
+    /**
+     * Registers a format, replacing any serializer registered for it before.
+     *
+     * @param serializer - Serializer of the format
+     * @throws ConfigurationError If the format name or extension is empty
+     */
+    static Register(serializer: Serializer): void {
+        if (!serializer.format || !serializer.extension) {
+            throw new ConfigurationError("Serializers need a format name and a file extension");
+        }
+
+        this.#serializers.set(serializer.format, serializer);
+    }
+
+    /**
+     * Removes a format.
+     *
+     * @param format - Format name
+     * @returns `true` if the format was registered
+     */
+    static Unregister(format: string): boolean {
+        return this.#serializers.delete(format);
+    }
+
+    /**
+     * Checks whether a format is registered.
+     *
+     * @param format - Format name
+     */
+    static Has(format: string): boolean {
+        return this.#serializers.has(format);
+    }
+
+    /**
+     * Returns the serializer of a format.
+     *
+     * @param format - Format name
+     * @returns The serializer
+     * @throws ConfigurationError If the format is not registered
+     */
+    static Get(format: string): Serializer {
+        const serializer = this.#serializers.get(format);
+
+        if (!serializer) {
+            throw new ConfigurationError(`Unknown export format '${format}'; registered formats: ${this.Formats().join(", ")}`);
+        }
+
+        return serializer;
+    }
+
+    /**
+     * Lists the registered format names.
+     */
+    static Formats(): string[] {
+        return Array.from(this.#serializers.keys());
+    }
+}
+
+/**
+ * A data source's payload, and the serializer that wrote it.
+ */
+export interface SerializedData {
+    /** Serialized payload; a stream for streamed data */
+    body: string | Buffer | Readable;
+
+    /** Serializer of the payload's format */
+    serializer: Serializer;
+}
+
+/**
+ * Checks whether a data source is streamed (a readable stream or async iterable of records)
+ *
+ * @param data - Data source value
+ * @returns true if the data should be serialized incrementally
+ */
+export const isStreamedData = (data: any): data is StreamedData => {
+    return data instanceof Readable || typeof data?.[Symbol.asyncIterator] === "function";
+}
+
+/**
+ * Serializes the data of one data source through the {@link SerializerRegistry}.
+ *
+ * Streamed data is serialized incrementally; formats that can't stream
+ * write it as NDJSON instead, and the returned serializer says so.
+ *
+ * @param data - Data source value, in memory or streamed
+ * @param format - Registered format name
+ * @param context - Data source, schema and format options
+ * @returns The payload and the serializer that wrote it
+ *
+ * @throws ConfigurationError If the format is not registered, or needs a schema the data source lacks
+ */
+export const serializeData = async (data: any, format: string, context: SerializeContext): Promise<SerializedData> => {
+    const serializer = SerializerRegistry.Get(format);
+
+    if (!isStreamedData(data)) {
+        return { body: await serializer.serialize(data, context), serializer };
+    }
+
+    const streamer = serializer.stream ? serializer : SerializerRegistry.Get("ndjson");
+    return { body: streamer.stream!(data, context), serializer: streamer };
+}
@@ -70,4 +70,17 @@ export const formatDate = (d: Date): string => {
     const seconds = pad(d.getSeconds());
 
     return `${fullYear}-${month}-${fullDate}_${hours}:${minutes}:${seconds}`
-}
\ No newline at end of file
+}
+
+// -----------------------------------------------------------------------------
+// Async Utilities
+// -----------------------------------------------------------------------------
+/**
+ * Resolves after the given number of milliseconds
+ *
+ * @param ms - Delay in milliseconds
+ * @returns Promise resolving once the delay has elapsed
+ */
+export const sleep = (ms: number): Promise<void> => {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -1,26 +1,174 @@
 import z from "zod";
 
+import { SchemaValidationError } from "../errors";
+import { LoggerFactory } from "../logging/logger";
+
 /**
  * Parses unknown data using a Zod schema and throws on invalid input
  *
  * @param schema - Zod schema to validate against
  * @param data - Input data
+ * @param route - Optional API route or source the data came from, for error context
  * @returns Validated and parsed data
- * @throws Error if data does not conform to schema
+ * @throws SchemaValidationError if data does not conform to schema
  */
 export function zParseUsing<T>(
     schema: z.ZodType<T>,
-    data: unknown
+    data: unknown,
+    route?: string
 ): T {
     const result = schema.safeParse(data);
 
     if (!result.success) {
-        throw new Error(`Invalid JSON input: ${result.error.format()}`);
+        throw new SchemaValidationError(result.error, { route });
     }
 
     return result.data;
 }
 
+/**
+ * A single array element that failed validation
+ */
+export interface ValidationFailure {
+    /** Index of the element in the source array */
+    index: number;
+
+    /** Dot-joined paths of the offending values, relative to the element */
+    paths: string[];
+
+    /** Zod issues of the element, with paths relative to the element */
+    issues: z.core.$ZodIssue[];
+
+    /** JSON sample of the element, truncated to `sampleLength` */
+    sample: string;
+}
+
+/**
+ * Result of validating an array element by element
+ */
+export interface ValidationReport<T> {
+    /** Elements that passed validation, in source order */
+    valid: T[];
+
+    /** Elements that failed validation */
+    failures: ValidationFailure[];
+
+    /** Total number of elements */
+    total: number;
+
+    /** Share of invalid elements, between 0 and 1 */
+    invalidRatio: number;
+}
+
+/**
+ * Options for {@link zParseArrayLeniently}
+ */
+export interface LenientValidationOpts {
+    /** Fail when more than this share of elements is invalid, between 0 and 1 (default: never fail) */
+    maxInvalidRatio?: number;
+
+    /** Maximum length of the JSON sample kept per failure (default 200) */
+    sampleLength?: number;
+
+    /** Maximum number of failures logged individually (default 5) */
+    maxLoggedFailures?: number;
+}
+
+/**
+ * Returns a truncated JSON sample of a value
+ */
+const sampleOf = (value: unknown, maxLength: number): string => {
+    let json: string;
+    try {
+        json = JSON.stringify(value) ?? String(value);
+    } catch {
+        json = String(value);
+    }
+
+    return json.length > maxLength ? `${json.slice(0, maxLength)}…` : json;
+}
+
+/**
+ * Validates an array element by element, keeping the valid elements and
+ * reporting the invalid ones instead of rejecting the whole payload
+ *
+ * A summary is logged through the logger: `debug` when every element is
+ * valid, otherwise `warn` with the first few failures.
+ *
+ * @param itemSchema - Zod schema of a single element
+ * @param data - Input data, expected to be an array
+ * @param opts - Failure threshold and reporting options
+ * @param route - Optional API route or source the data came from, for error context
+ * @returns Valid elements and a report of the invalid ones
+ * @throws SchemaValidationError if data is not an array or the share of invalid elements exceeds `maxInvalidRatio`
+ *
+ * @example
+ * ```ts
+ * const { valid, failures } = zParseArrayLeniently(zVm, response.data, { maxInvalidRatio: 0.05 }, "vms");
+ * ```
+ */
+export function zParseArrayLeniently<T>(
+    itemSchema: z.ZodType<T>,
+    data: unknown,
+    opts: LenientValidationOpts = {},
+    route?: string
+): ValidationReport<T> {
+    const { maxInvalidRatio, sampleLength = 200, maxLoggedFailures = 5 } = opts;
+    const items = zParseUsing(z.array(z.unknown()), data, route);
+
+    const valid: T[] = [];
+    const failures: ValidationFailure[] = [];
+
+    items.forEach((item, index) => {
+        const result = itemSchema.safeParse(item);
+
+        if (result.success) {
+            valid.push(result.data);
+            return;
+        }
+
+        failures.push({
+            index,
+            paths: result.error.issues.map(issue => issue.path.map(String).join(".") || "(root)"),
+            issues: result.error.issues,
+            sample: sampleOf(item, sampleLength)
+        });
+    });
+
+    const total = items.length;
+    const invalidRatio = total > 0 ? failures.length / total : 0;
+    const label = route ?? "data";
+    const logger = LoggerFactory.GetLogger();
+
+    if (failures.length === 0) {
+        logger.debug(`Validated ${total} records of ${label}`);
+    } else {
+        logger.warn(
+            `Validated ${total} records of ${label}: ${valid.length} valid, ${failures.length} invalid (${(invalidRatio * 100).toFixed(1)}%)`
+        );
+        failures.slice(0, maxLoggedFailures).forEach(failure => logger.warn(
+            `  [${failure.index}] invalid at ${failure.paths.join(", ")} -> ${failure.sample}`
+        ));
+        if (failures.length > maxLoggedFailures) {
+            logger.warn(`  ... and ${failures.length - maxLoggedFailures} more`);
+        }
+    }
+
+    if (maxInvalidRatio !== undefined && invalidRatio > maxInvalidRatio) {
+        // re-root the issues at the element index so the error points at the offending records
+        const issues = failures.slice(0, maxLoggedFailures).flatMap(failure =>
+            failure.issues.map(issue => ({ ...issue, path: [failure.index, ...issue.path] }))
+        );
+
+        throw new SchemaValidationError(new z.ZodError(issues), {
+            route,
+            summary: `${failures.length} of ${total} records invalid, above the ${(maxInvalidRatio * 100).toFixed(1)}% threshold`
+        });
+    }
+
+    return { valid, failures, total, invalidRatio };
+}
+
 
 /**
  * Creates a Zod schema that parses and validates TCP port numbers while